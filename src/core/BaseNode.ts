@@ -12,6 +12,7 @@ import {
   DataType,
   DataTypes
 } from '../types';
+import { abortableDelay } from './abort';
 
 /**
  * Abstract base class for all nodes
@@ -23,6 +24,8 @@ export abstract class BaseNode implements INode {
   public readonly description?: string;
   public readonly inputs: Port[];
   public readonly outputs: Port[];
+  public type?: string;
+  public typeVersion?: string;
 
   constructor(config: NodeConfig) {
     this.id = config.id || uuidv4();
@@ -32,6 +35,17 @@ export abstract class BaseNode implements INode {
     this.outputs = config.outputs || [];
   }
 
+  /**
+   * Config that recreates this node; subclasses with their own settings add them
+   */
+  public getConfig(): Partial<NodeConfig> & Record<string, any> {
+    const config: Partial<NodeConfig> = { id: this.id, name: this.name };
+    if (this.description !== undefined) {
+      config.description = this.description;
+    }
+    return config;
+  }
+
   /**
    * Abstract method that must be implemented by subclasses
    * Contains the actual node logic
@@ -118,7 +132,7 @@ export abstract class BaseNode implements INode {
    */
   protected validateInputs(inputs: Map<PortId, any>): void {
     for (const input of this.inputs) {
-      if (input.required && !inputs.has(input.id)) {
+      if (input.required && !inputs.has(input.id) && input.defaultValue === undefined) {
         throw new NodeError(
           `Required input '${input.name}' (${input.id}) is missing`,
           this.id,
@@ -127,7 +141,9 @@ export abstract class BaseNode implements INode {
       }
       
       const value = inputs.get(input.id);
-      if (value !== undefined && input.dataType.validator) {
+      // Unset values of ports with a default are replaced by it (see getInput)
+      const usesDefault = (value === undefined || value === null) && input.defaultValue !== undefined;
+      if (value !== undefined && !usesDefault && input.dataType.validator) {
         if (!input.dataType.validator(value)) {
           throw new NodeError(
             `Input '${input.name}' (${input.id}) has invalid type. Expected ${input.dataType.name}`,
@@ -178,9 +194,49 @@ export abstract class BaseNode implements INode {
 
   /**
    * Helper method to get input value with type safety
+   * Falls back to the port's default value when the input is not set, undefined or null
    */
   protected getInput<T>(context: ExecutionContext, portId: PortId): T | undefined {
-    return context.inputs.get(portId) as T;
+    const value = context.inputs.get(portId);
+    if (value !== undefined && value !== null) {
+      return value as T;
+    }
+    const defaultValue = this.inputs.find(port => port.id === portId)?.defaultValue;
+    return (defaultValue !== undefined ? defaultValue : value) as T | undefined;
+  }
+
+  /**
+   * Helper method to get the error of a failed upstream node connected to an input
+   */
+  protected getInputError(context: ExecutionContext, portId: PortId): NodeError | undefined {
+    return context.inputErrors?.get(portId);
+  }
+
+  /**
+   * Helper method to wait, rejecting early if the execution is aborted
+   */
+  protected wait(context: ExecutionContext, ms: number): Promise<void> {
+    return abortableDelay(ms, context.signal);
+  }
+
+  /**
+   * Helper method to stop work once the execution has been aborted
+   */
+  protected throwIfAborted(context: ExecutionContext): void {
+    if (context.signal?.aborted) {
+      throw context.signal.reason;
+    }
+  }
+
+  /**
+   * Helper method to mark an output port as inactive
+   * Downstream nodes reachable only through inactive ports are not executed
+   */
+  protected deactivateOutput(context: ExecutionContext, portId: PortId): void {
+    if (!context.inactiveOutputs) {
+      context.inactiveOutputs = new Set();
+    }
+    context.inactiveOutputs.add(portId);
   }
 
   /**
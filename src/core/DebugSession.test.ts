@@ -0,0 +1,129 @@
+import { BreakpointPhase } from './DebugSession';
+import { NodeExecutor } from './NodeExecutor';
+import { BaseNode } from './BaseNode';
+import {
+  DataTypes,
+  ExecutionAbortedError,
+  ExecutionContext,
+  ExecutionStatus,
+  NodeConfig,
+  NodeEventType,
+  PortId
+} from '../types';
+
+class DoubleNode extends BaseNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Double',
+      inputs: [{ id: 'in', name: 'In', dataType: DataTypes.NUMBER, required: true }],
+      outputs: [{ id: 'out', name: 'Out', dataType: DataTypes.NUMBER }]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    return new Map([['out', this.getInput<number>(context, 'in')! * 2]]);
+  }
+}
+
+describe('DebugSession', () => {
+  let executor: NodeExecutor;
+  const initialInputs = () => new Map([['first', new Map([['in', 1]])]]);
+
+  beforeEach(() => {
+    executor = new NodeExecutor();
+    executor.addNode(new DoubleNode({ id: 'first' }));
+    executor.addNode(new DoubleNode({ id: 'second' }));
+    executor.addConnection({ id: 'c1', fromNode: 'first', fromPort: 'out', toNode: 'second', toPort: 'in' });
+  });
+
+  afterEach(() => {
+    executor.endDebugSession();
+  });
+
+  it('pauses before a node and lets its inputs be edited', async () => {
+    const session = executor.startDebugSession();
+    session.addBreakpoint({ nodeId: 'second' });
+
+    const running = executor.execute(initialInputs());
+    const state = await session.waitForPause();
+
+    expect(state).toMatchObject({ nodeId: 'second', phase: BreakpointPhase.BEFORE });
+    expect(state.inputs.get('in')).toBe(2);
+
+    session.setInput('in', 10);
+    session.continue();
+    const results = await running;
+
+    expect(results.get('second')!.outputs!.get('out')).toBe(20);
+  });
+
+  it('steps from one pause point to the next', async () => {
+    const session = executor.startDebugSession();
+    session.addBreakpoint({ nodeId: 'first' });
+
+    const running = executor.execute(initialInputs());
+    expect((await session.waitForPause()).nodeId).toBe('first');
+
+    session.step();
+    const after = await session.waitForPause();
+    expect(after).toMatchObject({ nodeId: 'first', phase: BreakpointPhase.AFTER });
+    expect(after.result!.outputs!.get('out')).toBe(2);
+    expect(() => session.setInput('in', 3)).toThrow('Inputs can only be edited before the node runs');
+
+    session.step();
+    expect((await session.waitForPause()).nodeId).toBe('second');
+
+    session.continue();
+    await running;
+  });
+
+  it('only pauses when the breakpoint condition holds', async () => {
+    const session = executor.startDebugSession();
+    session.addBreakpoint({ condition: inputs => inputs.get('in') > 1 });
+
+    const running = executor.execute(initialInputs());
+
+    expect((await session.waitForPause()).nodeId).toBe('second');
+    session.continue();
+    await running;
+  });
+
+  it('cancels the rest of the run on abort', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const session = executor.startDebugSession();
+    session.addBreakpoint({ nodeId: 'second' });
+
+    const running = executor.execute(initialInputs(), { executionId: 'debugged' });
+    await session.waitForPause();
+    session.abort();
+
+    await expect(running).rejects.toBeInstanceOf(ExecutionAbortedError);
+    expect(executor.getRun('debugged')!.getResult('second')!.status).toBe(ExecutionStatus.CANCELLED);
+    jest.restoreAllMocks();
+  });
+
+  it('lets a paused node go when the run times out or is cancelled', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const session = executor.startDebugSession();
+    session.addBreakpoint({ nodeId: 'second' });
+    const resumed: string[] = [];
+    executor.on(NodeEventType.DEBUG_RESUMED, event => resumed.push(event.data.action));
+
+    const timedOut = await executor.execute(initialInputs(), { executionId: 'late', timeout: 20 }).catch(e => e);
+
+    expect(timedOut).toBeInstanceOf(ExecutionAbortedError);
+    expect(timedOut.timedOut).toBe(true);
+    expect(session.isPaused()).toBe(false);
+
+    const controller = new AbortController();
+    const running = executor.executeParallel(initialInputs(), { executionId: 'cancelled', signal: controller.signal });
+    await session.waitForPause();
+    controller.abort();
+
+    await expect(running).rejects.toBeInstanceOf(ExecutionAbortedError);
+    expect(executor.getRun('cancelled')!.getResult('second')!.status).toBe(ExecutionStatus.CANCELLED);
+    expect(resumed).toEqual(['abort', 'abort']);
+    jest.restoreAllMocks();
+  });
+});
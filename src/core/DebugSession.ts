@@ -0,0 +1,338 @@
+import {
+  INode,
+  NodeId,
+  PortId,
+  ExecutionId,
+  ExecutionResult,
+  NodeEventType,
+  ExecutionAbortedError
+} from '../types';
+import { ExecutionRun } from './ExecutionRun';
+import { NodeEventMap } from './events';
+
+/**
+ * When a breakpoint pauses relative to its node's execution
+ */
+export enum BreakpointPhase {
+  /** After inputs are gathered, before the node runs (inputs can be edited) */
+  BEFORE = 'before',
+  /** After the node ran, before its result is recorded */
+  AFTER = 'after'
+}
+
+/**
+ * Condition deciding whether a breakpoint pauses; `result` is only set in the after phase
+ */
+export type BreakpointCondition = (
+  inputs: Map<PortId, any>,
+  node: INode,
+  result?: ExecutionResult
+) => boolean;
+
+/**
+ * Options for adding a breakpoint
+ */
+export interface BreakpointOptions {
+  /** Node to pause at (every node when omitted) */
+  nodeId?: NodeId;
+  /** When to pause (default: before) */
+  phase?: BreakpointPhase;
+  /** Only pause when this returns true */
+  condition?: BreakpointCondition;
+}
+
+/**
+ * A breakpoint registered with a debug session
+ */
+export interface Breakpoint {
+  id: string;
+  nodeId?: NodeId;
+  phase: BreakpointPhase;
+  condition?: BreakpointCondition;
+  enabled: boolean;
+}
+
+/**
+ * What resumed a paused run
+ */
+export type DebugResumeAction = 'step' | 'continue' | 'abort' | 'end';
+
+/**
+ * What the session is paused at
+ */
+export interface PausedState {
+  executionId: ExecutionId;
+  nodeId: NodeId;
+  nodeName: string;
+  phase: BreakpointPhase;
+  /** Inputs the node receives; edits in the before phase are seen by the node */
+  inputs: Map<PortId, any>;
+  /** The node's result (after phase only) */
+  result?: ExecutionResult;
+  /** Breakpoint that paused, or undefined when paused by stepping */
+  breakpoint?: Breakpoint;
+}
+
+/**
+ * Interactive debug session attached to a NodeExecutor
+ * Execution pauses at matching breakpoints until step(), continue() or abort() is called;
+ * in parallel mode nodes reaching a pause point wait their turn, so one node is paused at a time
+ */
+export class DebugSession {
+  private breakpoints: Map<string, Breakpoint> = new Map();
+  private nextBreakpointId = 1;
+  private stepping = false;
+  private active = true;
+  private paused?: { state: PausedState; run: ExecutionRun; resume: () => void };
+  private queue: Promise<void> = Promise.resolve();
+  private pauseWaiters: Array<(state: PausedState) => void> = [];
+
+  constructor(
+    private readonly emit: <K extends NodeEventType>(type: K, data: NodeEventMap[K]) => void
+  ) {}
+
+  /**
+   * Add a breakpoint
+   */
+  addBreakpoint(options: BreakpointOptions = {}): Breakpoint {
+    const breakpoint: Breakpoint = {
+      id: `bp-${this.nextBreakpointId++}`,
+      nodeId: options.nodeId,
+      phase: options.phase ?? BreakpointPhase.BEFORE,
+      condition: options.condition,
+      enabled: true
+    };
+    this.breakpoints.set(breakpoint.id, breakpoint);
+    return breakpoint;
+  }
+
+  /**
+   * Remove a breakpoint
+   */
+  removeBreakpoint(id: string): boolean {
+    return this.breakpoints.delete(id);
+  }
+
+  /**
+   * Enable or disable a breakpoint without removing it
+   */
+  setBreakpointEnabled(id: string, enabled: boolean): void {
+    const breakpoint = this.breakpoints.get(id);
+    if (!breakpoint) {
+      throw new Error(`Breakpoint ${id} not found`);
+    }
+    breakpoint.enabled = enabled;
+  }
+
+  /**
+   * Get all breakpoints
+   */
+  getBreakpoints(): Breakpoint[] {
+    return Array.from(this.breakpoints.values());
+  }
+
+  /**
+   * Remove all breakpoints
+   */
+  clearBreakpoints(): void {
+    this.breakpoints.clear();
+  }
+
+  /**
+   * Whether execution is currently paused
+   */
+  isPaused(): boolean {
+    return this.paused !== undefined;
+  }
+
+  /**
+   * Get what the session is paused at
+   */
+  getPausedState(): PausedState | undefined {
+    return this.paused?.state;
+  }
+
+  /**
+   * Resolve with the paused state at the next pause (immediately if already paused)
+   */
+  waitForPause(): Promise<PausedState> {
+    if (this.paused) {
+      return Promise.resolve(this.paused.state);
+    }
+    return new Promise(resolve => this.pauseWaiters.push(resolve));
+  }
+
+  /**
+   * Change an input of the paused node
+   */
+  setInput(portId: PortId, value: any): void {
+    this.getEditableInputs().set(portId, value);
+  }
+
+  /**
+   * Remove an input of the paused node
+   */
+  deleteInput(portId: PortId): void {
+    this.getEditableInputs().delete(portId);
+  }
+
+  /**
+   * Resume and pause again at the next pause point
+   */
+  step(): void {
+    this.resume('step', true);
+  }
+
+  /**
+   * Resume until the next matching breakpoint
+   */
+  continue(): void {
+    this.resume('continue', false);
+  }
+
+  /**
+   * Abort the paused run; remaining nodes are cancelled
+   */
+  abort(): void {
+    const run = this.requirePaused().run;
+    // Aborting the run resumes the paused node (see checkpoint)
+    run.abort(new ExecutionAbortedError(`Execution ${run.executionId} aborted by debugger`, run.executionId));
+  }
+
+  /**
+   * End the session and let every waiting node run
+   */
+  end(): void {
+    this.active = false;
+    this.breakpoints.clear();
+    if (this.paused) {
+      this.resume('end', false);
+    }
+  }
+
+  /**
+   * Whether the session is still attached
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Pause point called by the executor; resolves once the session lets the node go on
+   */
+  async checkpoint(
+    run: ExecutionRun,
+    node: INode,
+    phase: BreakpointPhase,
+    inputs: Map<PortId, any>,
+    result?: ExecutionResult
+  ): Promise<void> {
+    // One node is paused at a time
+    const previous = this.queue;
+    let release!: () => void;
+    this.queue = new Promise(resolve => { release = resolve; });
+    await previous;
+
+    try {
+      if (!this.active || run.isAborted()) {
+        return;
+      }
+
+      const breakpoint = this.findBreakpoint(node, phase, inputs, result);
+      if (!breakpoint && !this.stepping) {
+        return;
+      }
+      this.stepping = false;
+
+      const state: PausedState = {
+        executionId: run.executionId,
+        nodeId: node.id,
+        nodeName: node.name,
+        phase,
+        inputs,
+        result,
+        breakpoint
+      };
+
+      await new Promise<void>(resume => {
+        // A run cancelled or timed out while paused lets the node go on, so the executor records it as aborted
+        const onAbort = () => this.resume('abort', false);
+        run.signal.addEventListener('abort', onAbort, { once: true });
+        this.paused = {
+          state,
+          run,
+          resume: () => {
+            run.signal.removeEventListener('abort', onAbort);
+            resume();
+          }
+        };
+        this.emit(NodeEventType.DEBUG_PAUSED, state);
+
+        const waiters = this.pauseWaiters;
+        this.pauseWaiters = [];
+        waiters.forEach(waiter => waiter(state));
+      });
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Find the first enabled breakpoint matching a pause point
+   */
+  private findBreakpoint(
+    node: INode,
+    phase: BreakpointPhase,
+    inputs: Map<PortId, any>,
+    result?: ExecutionResult
+  ): Breakpoint | undefined {
+    for (const breakpoint of this.breakpoints.values()) {
+      if (!breakpoint.enabled || breakpoint.phase !== phase) {
+        continue;
+      }
+      if (breakpoint.nodeId !== undefined && breakpoint.nodeId !== node.id) {
+        continue;
+      }
+      if (!breakpoint.condition) {
+        return breakpoint;
+      }
+
+      try {
+        if (breakpoint.condition(inputs, node, result)) {
+          return breakpoint;
+        }
+      } catch (error) {
+        console.warn(`Breakpoint ${breakpoint.id} condition failed:`, error);
+      }
+    }
+    return undefined;
+  }
+
+  private resume(action: DebugResumeAction, stepping: boolean): void {
+    const { state, resume } = this.requirePaused();
+    this.paused = undefined;
+    this.stepping = stepping;
+    this.emit(NodeEventType.DEBUG_RESUMED, {
+      executionId: state.executionId,
+      nodeId: state.nodeId,
+      phase: state.phase,
+      action
+    });
+    resume();
+  }
+
+  private requirePaused(): { state: PausedState; run: ExecutionRun; resume: () => void } {
+    if (!this.paused) {
+      throw new Error('Debug session is not paused');
+    }
+    return this.paused;
+  }
+
+  private getEditableInputs(): Map<PortId, any> {
+    const { state } = this.requirePaused();
+    if (state.phase !== BreakpointPhase.BEFORE) {
+      throw new Error('Inputs can only be edited before the node runs');
+    }
+    return state.inputs;
+  }
+}
@@ -0,0 +1,37 @@
+import { NodeId, PortId, Connection } from '../types';
+
+/**
+ * A port of a node in the graph
+ */
+export interface PlannedPort {
+  nodeId: NodeId;
+  portId: PortId;
+}
+
+/**
+ * A connection that cannot carry data, and why
+ */
+export interface InvalidConnection {
+  connection: Connection;
+  reason: string;
+}
+
+/**
+ * Result of planning a run without executing it
+ */
+export interface ExecutionPlan {
+  /** True when the graph can run: no cycle, no missing required inputs, no invalid connections */
+  valid: boolean;
+  /** Nodes grouped by level; each level only depends on earlier ones and can run in parallel */
+  levels: NodeId[][];
+  /** The levels flattened into one valid execution order */
+  order: NodeId[];
+  /** Required input ports with no default value, constant, initial input or incoming connection, per node */
+  missingInputs: Map<NodeId, PortId[]>;
+  /** Output ports that no connection reads */
+  danglingOutputs: PlannedPort[];
+  /** Connections referring to missing nodes/ports or joining incompatible types */
+  invalidConnections: InvalidConnection[];
+  /** Description of the circular dependency, if the graph has one */
+  cycle?: string;
+}
@@ -0,0 +1,214 @@
+import { NodeId, PortId, ExecutionId, ExecutionResult, ExecutionAbortedError } from '../types';
+import { Span } from '../tracing/Span';
+
+/**
+ * Lifecycle status of a single graph run
+ */
+export enum RunStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+  TIMED_OUT = 'timed_out'
+}
+
+/**
+ * How a node failure affects the rest of the run
+ */
+export enum FailurePolicy {
+  /** Stop the run at the first failed node; nodes not yet started are skipped */
+  FAIL_FAST = 'fail-fast',
+  /** Skip every node downstream of a failed node, keep running unrelated branches */
+  SKIP_DEPENDENTS = 'skip-dependents',
+  /** Run downstream nodes anyway, without the failed node's outputs */
+  CONTINUE = 'continue'
+}
+
+/**
+ * Isolated state for one execution of a graph
+ * Each call to execute/executeParallel gets its own run, so overlapping
+ * runs on the same executor never see each other's results
+ */
+export class ExecutionRun {
+  public readonly executionId: ExecutionId;
+  public readonly initialInputs: Map<NodeId, Map<PortId, any>>;
+  public readonly failurePolicy: FailurePolicy;
+  public readonly startTime: number;
+  public endTime?: number;
+  public status: RunStatus = RunStatus.RUNNING;
+  public error?: Error;
+  /** Node whose failure halted the run (fail-fast policy) */
+  public haltedBy?: NodeId;
+  /** Default timeout in ms for each node of the run */
+  public nodeTimeout?: number;
+  /** Per-node timeouts in ms */
+  public nodeTimeouts: Map<NodeId, number> = new Map();
+  /** Name of the graph the run belongs to (for history) */
+  public graphName?: string;
+  /** Root span of the run, when the executor has a tracer */
+  public span?: Span;
+
+  private results: Map<NodeId, ExecutionResult> = new Map();
+  private connectionStreams: Map<string, AsyncIterable<any>> = new Map();
+  private nodeSpans: Map<NodeId, Span> = new Map();
+  private executingNodes: Set<NodeId> = new Set();
+  private controller: AbortController = new AbortController();
+
+  constructor(
+    executionId: ExecutionId,
+    initialInputs: Map<NodeId, Map<PortId, any>>,
+    failurePolicy: FailurePolicy = FailurePolicy.CONTINUE
+  ) {
+    this.executionId = executionId;
+    // Snapshot the maps, so callers reusing theirs for the next run don't rewrite this one
+    this.initialInputs = new Map(
+      Array.from(initialInputs, ([nodeId, inputs]) => [nodeId, new Map(inputs)] as [NodeId, Map<PortId, any>])
+    );
+    this.failurePolicy = failurePolicy;
+    this.startTime = Date.now();
+  }
+
+  /**
+   * Record the result of a node in this run
+   */
+  setResult(nodeId: NodeId, result: ExecutionResult): void {
+    this.results.set(nodeId, result);
+  }
+
+  /**
+   * Get the result of a node in this run
+   */
+  getResult(nodeId: NodeId): ExecutionResult | undefined {
+    return this.results.get(nodeId);
+  }
+
+  /**
+   * Check whether a node has produced a result in this run
+   */
+  hasResult(nodeId: NodeId): boolean {
+    return this.results.has(nodeId);
+  }
+
+  /**
+   * Get a copy of all results recorded so far
+   */
+  getResults(): Map<NodeId, ExecutionResult> {
+    return new Map(this.results);
+  }
+
+  /**
+   * Assign the stream a connection delivers, when a stream output is split between consumers
+   */
+  setConnectionStream(connectionId: string, stream: AsyncIterable<any>): void {
+    this.connectionStreams.set(connectionId, stream);
+  }
+
+  /**
+   * Get the stream assigned to a connection, if its source output was split
+   */
+  getConnectionStream(connectionId: string): AsyncIterable<any> | undefined {
+    return this.connectionStreams.get(connectionId);
+  }
+
+  /**
+   * Assign the span tracing a node's execution
+   */
+  setNodeSpan(nodeId: NodeId, span: Span): void {
+    this.nodeSpans.set(nodeId, span);
+  }
+
+  /**
+   * Get the span tracing a node's execution, if one was started
+   */
+  getNodeSpan(nodeId: NodeId): Span | undefined {
+    return this.nodeSpans.get(nodeId);
+  }
+
+  /**
+   * Mark a node as currently executing
+   */
+  markExecuting(nodeId: NodeId): void {
+    this.executingNodes.add(nodeId);
+  }
+
+  /**
+   * Mark a node as no longer executing
+   */
+  markFinished(nodeId: NodeId): void {
+    this.executingNodes.delete(nodeId);
+  }
+
+  /**
+   * Get the nodes that are currently executing
+   */
+  getExecutingNodes(): NodeId[] {
+    return Array.from(this.executingNodes);
+  }
+
+  /**
+   * Stop scheduling further nodes because of a failed node
+   */
+  halt(nodeId: NodeId): void {
+    if (!this.haltedBy) {
+      this.haltedBy = nodeId;
+    }
+  }
+
+  /**
+   * Signal that is aborted when the run is cancelled, times out or is halted
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Abort all in-flight and pending nodes of the run
+   */
+  abort(reason: Error): void {
+    if (!this.controller.signal.aborted) {
+      this.controller.abort(reason);
+    }
+  }
+
+  /**
+   * Whether the run has been aborted
+   */
+  isAborted(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /**
+   * Mark the run as completed
+   */
+  complete(): void {
+    this.status = RunStatus.COMPLETED;
+    this.endTime = Date.now();
+  }
+
+  /**
+   * Mark the run as failed
+   */
+  fail(error: Error): void {
+    if (error instanceof ExecutionAbortedError) {
+      this.status = error.timedOut ? RunStatus.TIMED_OUT : RunStatus.CANCELLED;
+    } else {
+      this.status = RunStatus.FAILED;
+    }
+    this.error = error;
+    this.endTime = Date.now();
+  }
+
+  /**
+   * Whether the run is still in progress
+   */
+  isRunning(): boolean {
+    return this.status === RunStatus.RUNNING;
+  }
+
+  /**
+   * Get the run duration in milliseconds (up to now if still running)
+   */
+  getDuration(): number {
+    return (this.endTime ?? Date.now()) - this.startTime;
+  }
+}
@@ -0,0 +1,410 @@
+import { NodeExecutor } from './NodeExecutor';
+import { BaseNode } from './BaseNode';
+import { FailurePolicy, RunStatus } from './ExecutionRun';
+import { DelayNode } from '../nodes/async/AsyncNodes';
+import {
+  DataTypes,
+  ExecutionAbortedError,
+  ExecutionContext,
+  ExecutionStatus,
+  MergeStrategy,
+  NodeConfig,
+  NodeEventType,
+  NodeId,
+  NodeTimeoutError,
+  PortId
+} from '../types';
+
+class DoubleNode extends BaseNode {
+  public executions = 0;
+
+  constructor(config?: Partial<NodeConfig>, private readonly delay: number = 0) {
+    super({
+      ...config,
+      name: config?.name || 'Double',
+      inputs: [{ id: 'in', name: 'In', dataType: DataTypes.NUMBER, required: true }],
+      outputs: [{ id: 'out', name: 'Out', dataType: DataTypes.NUMBER }]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    this.executions++;
+    if (this.delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.delay));
+    }
+    return new Map([['out', this.getInput<number>(context, 'in')! * 2]]);
+  }
+}
+
+class FailingNode extends BaseNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Failing',
+      inputs: [],
+      outputs: [{ id: 'out', name: 'Out', dataType: DataTypes.NUMBER }]
+    });
+  }
+
+  protected async executeInternal(): Promise<Map<PortId, any>> {
+    throw new Error('boom');
+  }
+}
+
+class SinkNode extends BaseNode {
+  constructor(config: Partial<NodeConfig>, mergeStrategy?: MergeStrategy) {
+    super({
+      ...config,
+      name: config.name || 'Sink',
+      inputs: [{ id: 'in', name: 'In', dataType: DataTypes.ANY, required: true, mergeStrategy }],
+      outputs: [{ id: 'out', name: 'Out', dataType: DataTypes.ANY }]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    return new Map([['out', this.getInput(context, 'in')]]);
+  }
+}
+
+const inputsFor = (nodeId: NodeId, value: any): Map<NodeId, Map<PortId, any>> =>
+  new Map([[nodeId, new Map([['in', value]])]]);
+
+describe('NodeExecutor', () => {
+  describe('runs', () => {
+    it('keeps the results of overlapping runs apart', async () => {
+      const executor = new NodeExecutor();
+      executor.addNode(new DoubleNode({ id: 'first' }, 10));
+      executor.addNode(new DoubleNode({ id: 'second' }));
+      executor.addConnection({ id: 'c1', fromNode: 'first', fromPort: 'out', toNode: 'second', toPort: 'in' });
+
+      const [a, b] = await Promise.all([
+        executor.executeParallel(inputsFor('first', 1), { executionId: 'a' }),
+        executor.executeParallel(inputsFor('first', 5), { executionId: 'b' })
+      ]);
+
+      expect(a.get('second')!.outputs!.get('out')).toBe(4);
+      expect(b.get('second')!.outputs!.get('out')).toBe(20);
+      expect(executor.getExecutionResults('a').get('second')!.outputs!.get('out')).toBe(4);
+      expect(executor.getRun('b')!.status).toBe(RunStatus.COMPLETED);
+    });
+
+    it('evicts the oldest finished runs beyond maxRetainedRuns', async () => {
+      const executor = new NodeExecutor({ maxRetainedRuns: 2 });
+      executor.addNode(new DoubleNode({ id: 'node' }));
+
+      for (const executionId of ['a', 'b', 'c']) {
+        await executor.execute(inputsFor('node', 1), { executionId });
+      }
+
+      expect(executor.getRun('a')).toBeUndefined();
+      expect(executor.getRuns().map(run => run.executionId)).toEqual(['b', 'c']);
+      expect(executor.getLastRun()!.executionId).toBe('c');
+    });
+  });
+
+  describe('failure policy', () => {
+    let executor: NodeExecutor;
+    let downstream: DoubleNode;
+    let unrelated: DoubleNode;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      executor = new NodeExecutor();
+      downstream = new DoubleNode({ id: 'downstream' });
+      unrelated = new DoubleNode({ id: 'unrelated' });
+      executor.addNode(new FailingNode({ id: 'failing' }));
+      executor.addNode(downstream);
+      executor.addNode(unrelated);
+      executor.addConnection({ id: 'c1', fromNode: 'failing', fromPort: 'out', toNode: 'downstream', toPort: 'in' });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('skips dependents of a failed node and names the cause', async () => {
+      const results = await executor.execute(inputsFor('unrelated', 2), {
+        failurePolicy: FailurePolicy.SKIP_DEPENDENTS
+      });
+
+      expect(results.get('failing')!.status).toBe(ExecutionStatus.FAILED);
+      expect(results.get('downstream')!.status).toBe(ExecutionStatus.SKIPPED);
+      expect(results.get('downstream')!.causedBy).toBe('failing');
+      expect(downstream.executions).toBe(0);
+      expect(results.get('unrelated')!.outputs!.get('out')).toBe(4);
+    });
+
+    it('rejects the run on the first failure when failing fast', async () => {
+      await expect(executor.execute(inputsFor('unrelated', 2), {
+        executionId: 'halted',
+        failurePolicy: FailurePolicy.FAIL_FAST
+      })).rejects.toThrow('boom');
+
+      expect(downstream.executions).toBe(0);
+      expect(executor.getRun('halted')!.status).toBe(RunStatus.FAILED);
+    });
+  });
+
+  describe('cancellation', () => {
+    let executor: NodeExecutor;
+    let delay: DelayNode;
+    const delayInputs = () => new Map([[delay.id, new Map<PortId, any>([['value', 'done'], ['delay', 1000]])]]);
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      executor = new NodeExecutor();
+      delay = new DelayNode();
+      executor.addNode(delay);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('records a node that exceeds its timeout as timed out', async () => {
+      const results = await executor.execute(delayInputs(), { nodeTimeouts: new Map([[delay.id, 10]]) });
+      const result = results.get(delay.id)!;
+
+      expect(result.status).toBe(ExecutionStatus.TIMED_OUT);
+      expect(result.error).toBeInstanceOf(NodeTimeoutError);
+    });
+
+    it('rejects a run that exceeds its deadline', async () => {
+      const error = await executor.execute(delayInputs(), { executionId: 'late', timeout: 10 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ExecutionAbortedError);
+      expect(error.timedOut).toBe(true);
+      expect(executor.getRun('late')!.getResult(delay.id)!.status).toBe(ExecutionStatus.TIMED_OUT);
+    });
+
+    it('cancels a run when its signal is aborted', async () => {
+      const controller = new AbortController();
+      const run = executor.executeParallel(delayInputs(), { executionId: 'cancelled', signal: controller.signal });
+      setTimeout(() => controller.abort(), 10);
+
+      const error = await run.catch(e => e);
+
+      expect(error).toBeInstanceOf(ExecutionAbortedError);
+      expect(error.timedOut).toBe(false);
+      expect(executor.getRun('cancelled')!.getResult(delay.id)!.status).toBe(ExecutionStatus.CANCELLED);
+    });
+  });
+
+  describe('fan-in', () => {
+    const buildFanIn = (mergeStrategy?: MergeStrategy): NodeExecutor => {
+      const executor = new NodeExecutor();
+      executor.addNode(new SinkNode({ id: 'a' }));
+      executor.addNode(new SinkNode({ id: 'b' }));
+      executor.addNode(new SinkNode({ id: 'sink' }, mergeStrategy));
+      executor.addConnection({ id: 'c1', fromNode: 'a', fromPort: 'out', toNode: 'sink', toPort: 'in' });
+      executor.addConnection({ id: 'c2', fromNode: 'b', fromPort: 'out', toNode: 'sink', toPort: 'in' });
+      return executor;
+    };
+
+    const fanInInputs = (a: any, b: any): Map<NodeId, Map<PortId, any>> =>
+      new Map([['a', new Map([['in', a]])], ['b', new Map([['in', b]])]]);
+
+    it('rejects a second connection to a port without a merge strategy', () => {
+      expect(() => buildFanIn()).toThrow('already has a connection (c1)');
+    });
+
+    it('collects values in connection order', async () => {
+      const results = await buildFanIn(MergeStrategy.COLLECT).execute(fanInInputs(1, 2));
+
+      expect(results.get('sink')!.outputs!.get('out')).toEqual([1, 2]);
+    });
+
+    it('merges objects with later connections winning', async () => {
+      const results = await buildFanIn(MergeStrategy.MERGE_OBJECTS).execute(fanInInputs({ x: 1, y: 1 }, { y: 2 }));
+
+      expect(results.get('sink')!.outputs!.get('out')).toEqual({ x: 1, y: 2 });
+    });
+
+    it('takes the first value that is not null', async () => {
+      const results = await buildFanIn(MergeStrategy.FIRST_NON_NULL).execute(fanInInputs(null, 'b'));
+
+      expect(results.get('sink')!.outputs!.get('out')).toBe('b');
+    });
+  });
+
+  describe('plan', () => {
+    let executor: NodeExecutor;
+
+    beforeEach(() => {
+      executor = new NodeExecutor();
+      executor.addNode(new DoubleNode({ id: 'first' }));
+      executor.addNode(new DoubleNode({ id: 'second' }));
+      executor.addNode(new DoubleNode({ id: 'other' }));
+      executor.addConnection({ id: 'c1', fromNode: 'first', fromPort: 'out', toNode: 'second', toPort: 'in' });
+    });
+
+    it('reports levels, missing inputs and dangling outputs without running anything', () => {
+      const plan = executor.plan(inputsFor('first', 1));
+
+      expect(plan.valid).toBe(false);
+      expect(plan.levels).toEqual([['first', 'other'], ['second']]);
+      expect(plan.order).toEqual(['first', 'other', 'second']);
+      expect(plan.missingInputs).toEqual(new Map([['other', ['in']]]));
+      expect(plan.danglingOutputs).toEqual([
+        { nodeId: 'second', portId: 'out' },
+        { nodeId: 'other', portId: 'out' }
+      ]);
+      expect(plan.invalidConnections).toEqual([]);
+      expect(executor.getRuns()).toEqual([]);
+    });
+
+    it('is valid once every required input is provided', () => {
+      const initialInputs = new Map([...inputsFor('first', 1), ...inputsFor('other', 2)]);
+
+      expect(executor.plan(initialInputs).valid).toBe(true);
+    });
+
+    it('reports a cycle instead of throwing', () => {
+      executor.addConnection({ id: 'c2', fromNode: 'second', fromPort: 'out', toNode: 'first', toPort: 'in' });
+
+      const plan = executor.plan();
+
+      expect(plan.valid).toBe(false);
+      expect(plan.cycle).toContain('Circular dependency');
+      expect(plan.levels).toEqual([]);
+    });
+  });
+
+  describe('executeIncremental', () => {
+    let executor: NodeExecutor;
+    let first: DoubleNode;
+    let second: DoubleNode;
+
+    beforeEach(() => {
+      executor = new NodeExecutor();
+      first = new DoubleNode({ id: 'first' });
+      second = new DoubleNode({ id: 'second' });
+      executor.addNode(first);
+      executor.addNode(second);
+      executor.addConnection({ id: 'c1', fromNode: 'first', fromPort: 'out', toNode: 'second', toPort: 'in' });
+    });
+
+    it('reuses results of nodes whose inputs did not change', async () => {
+      const inputs = new Map<NodeId, Map<PortId, any>>([['first', new Map([['in', 1]])]]);
+      await executor.executeIncremental(inputs);
+      const results = await executor.executeIncremental(new Map([['first', new Map([['in', 1]])]]));
+
+      expect(results.get('first')!.cacheHit).toBe(true);
+      expect(results.get('second')!.cacheHit).toBe(true);
+      expect(first.executions).toBe(1);
+    });
+
+    it('re-runs a node and its dependents when an input changes', async () => {
+      await executor.executeIncremental(new Map([['first', new Map([['in', 1]])]]));
+      const results = await executor.executeIncremental(new Map([['first', new Map([['in', 2]])]]));
+
+      expect(results.get('second')!.outputs!.get('out')).toBe(8);
+      expect(second.executions).toBe(2);
+    });
+
+    it('notices inputs changed in place in the same Map', async () => {
+      const inputs = new Map<NodeId, Map<PortId, any>>([['first', new Map([['in', 1]])]]);
+      await executor.executeIncremental(inputs);
+
+      inputs.get('first')!.set('in', 10);
+      const results = await executor.executeIncremental(inputs);
+
+      expect(results.get('first')!.cacheHit).toBeFalsy();
+      expect(results.get('first')!.outputs!.get('out')).toBe(20);
+      expect(results.get('second')!.outputs!.get('out')).toBe(40);
+    });
+
+    it('re-runs nodes whose connections changed', async () => {
+      await executor.executeIncremental(new Map([['first', new Map([['in', 1]])]]));
+      executor.removeConnection('c1');
+      executor.addConnection({ id: 'c1', fromNode: 'first', fromPort: 'out', toNode: 'second', toPort: 'in' });
+      await executor.executeIncremental(new Map([['first', new Map([['in', 1]])]]));
+
+      expect(first.executions).toBe(1);
+      expect(second.executions).toBe(2);
+    });
+  });
+
+  describe('events', () => {
+    let executor: NodeExecutor;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      executor = new NodeExecutor({ failurePolicy: FailurePolicy.SKIP_DEPENDENTS });
+      executor.addNode(new FailingNode({ id: 'failing' }));
+      executor.addNode(new DoubleNode({ id: 'downstream' }));
+      executor.addNode(new DoubleNode({ id: 'unrelated' }));
+      executor.addConnection({ id: 'c1', fromNode: 'failing', fromPort: 'out', toNode: 'downstream', toPort: 'in' });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('brackets a run with start and completion events', async () => {
+      const types: string[] = [];
+      executor.on(NodeEventType.RUN_STARTED, event => types.push(event.type));
+      executor.on(NodeEventType.EXECUTION_COMPLETED, event => types.push(`${event.type}:${event.data.nodeId}`));
+      executor.on(NodeEventType.RUN_COMPLETED, event => {
+        types.push(event.type);
+        expect(event.data).toMatchObject({ executionId: 'run', mode: 'sequential', status: RunStatus.COMPLETED });
+        expect(event.data.nodeCounts).toMatchObject({
+          [ExecutionStatus.SUCCESS]: 1,
+          [ExecutionStatus.FAILED]: 1,
+          [ExecutionStatus.SKIPPED]: 1
+        });
+      });
+
+      await executor.execute(inputsFor('unrelated', 1), { executionId: 'run' });
+
+      expect(types).toEqual([
+        NodeEventType.RUN_STARTED,
+        `${NodeEventType.EXECUTION_COMPLETED}:unrelated`,
+        NodeEventType.RUN_COMPLETED
+      ]);
+    });
+
+    it('reports skipped nodes with the node that caused the skip', async () => {
+      const skipped: Array<[NodeId, NodeId | undefined]> = [];
+      executor.on(NodeEventType.NODE_SKIPPED, event => skipped.push([event.data.nodeId, event.data.causedBy]));
+
+      await executor.execute(inputsFor('unrelated', 1));
+
+      expect(skipped).toEqual([['downstream', 'failing']]);
+    });
+  });
+
+  describe('constant inputs', () => {
+    let executor: NodeExecutor;
+
+    beforeEach(() => {
+      executor = new NodeExecutor();
+      executor.addNode(new DoubleNode({ id: 'node' }));
+      executor.setConstantInput('node', 'in', 3);
+    });
+
+    it('feeds constants to every run', async () => {
+      const results = await executor.execute();
+
+      expect(results.get('node')!.outputs!.get('out')).toBe(6);
+      expect(executor.plan().missingInputs.size).toBe(0);
+    });
+
+    it('lets initial inputs override constants', async () => {
+      const results = await executor.execute(inputsFor('node', 5));
+
+      expect(results.get('node')!.outputs!.get('out')).toBe(10);
+    });
+
+    it('rejects constants for unknown ports', () => {
+      expect(() => executor.setConstantInput('node', 'missing', 1)).toThrow('Input port missing not found on node node');
+    });
+
+    it('drops a removed constant', () => {
+      executor.removeConstantInput('node', 'in');
+
+      expect(executor.getConstantInputs('node').size).toBe(0);
+      expect(executor.plan().missingInputs.get('node')).toEqual(['in']);
+    });
+  });
+});
@@ -10,8 +10,123 @@ import {
   Connection, 
   NodeEvent, 
   NodeEventType,
-  NodeError
+  NodeError,
+  NodeTimeoutError,
+  NodeCancelledError,
+  ExecutionAbortedError,
+  ExecutionStatus,
+  MergeStrategy,
+  Port,
+  DataType
 } from '../types';
+import { ExecutionRun, FailurePolicy } from './ExecutionRun';
+import { NodeEventMap, NodeEventName, NodeEventListener, RunSummary } from './events';
+import { ReadyQueueScheduler } from './Scheduler';
+import { DebugSession, BreakpointPhase } from './DebugSession';
+import { ExecutionPlan, PlannedPort, InvalidConnection } from './ExecutionPlan';
+import { OutputCache } from './OutputCache';
+import { stableHash } from './hash';
+import { HistoryStore, RunRecord, RunMode, RecordedError } from '../history/HistoryStore';
+import { findUnserializable } from '../history/JsonLinesHistoryStore';
+import {
+  DEFAULT_STREAM_BUFFER_SIZE,
+  isAsyncIterable,
+  isStreamBranch,
+  abortableStream,
+  teeStream,
+  toAsyncIterable
+} from './streams';
+import { NodeRegistry } from '../registry/NodeRegistry';
+import {
+  TypeBindings,
+  checkAssignable,
+  substituteGenerics,
+  containsGeneric,
+  isStreamType
+} from '../types/structural';
+import { Tracer, TRACE_ID_METADATA_KEY, SPAN_ID_METADATA_KEY } from '../tracing/Tracer';
+import { SpanContext, SpanStatusCode } from '../tracing/Span';
+import { portSizeAttributes } from '../tracing/attributes';
+import { RETRY_ATTEMPTS_METADATA_KEY, CIRCUIT_STATE_METADATA_KEY } from '../error-handling/ErrorHandlingNode';
+
+/**
+ * Node executor configuration
+ */
+export interface NodeExecutorConfig {
+  /** Maximum number of finished runs kept for querying (oldest are evicted first) */
+  maxRetainedRuns: number;
+  /** What happens downstream of a failed node */
+  failurePolicy: FailurePolicy;
+  /** Default timeout in ms for each node (unlimited when undefined) */
+  nodeTimeout?: number;
+  /** Maximum number of nodes running at once in parallel execution */
+  maxConcurrency: number;
+  /** Maximum number of running nodes per category in parallel execution (e.g. { Async: 4 }) */
+  categoryConcurrency: Record<string, number>;
+  /** Resolves a node's category for `categoryConcurrency` (defaults to its registry category) */
+  getNodeCategory?: (node: INode) => string | undefined;
+  /** Items a stream output feeding several consumers may buffer ahead of its slowest consumer (unlimited when one consumer depends on another) */
+  streamBufferSize: number;
+  /** Reuse outputs of cacheable nodes (see NodeMetadata.cacheable) when their inputs repeat */
+  cache?: OutputCache;
+  /** Record every run in this store */
+  history?: HistoryStore;
+  /** Graph name recorded with each run */
+  graphName?: string;
+  /** Trace every run: a span per run with a child span per node */
+  tracer?: Tracer;
+}
+
+/**
+ * Default node executor configuration
+ */
+export const DEFAULT_EXECUTOR_CONFIG: NodeExecutorConfig = {
+  maxRetainedRuns: 100,
+  failurePolicy: FailurePolicy.CONTINUE,
+  maxConcurrency: Infinity,
+  categoryConcurrency: {},
+  streamBufferSize: DEFAULT_STREAM_BUFFER_SIZE
+};
+
+/**
+ * Per-call execution options
+ */
+export interface ExecutionOptions {
+  /** Use this id for the run instead of generating one */
+  executionId?: ExecutionId;
+  /** Override the executor's failure policy for this run */
+  failurePolicy?: FailurePolicy;
+  /** Cancels the run when aborted */
+  signal?: AbortSignal;
+  /** Overall deadline for the run in ms */
+  timeout?: number;
+  /** Timeout in ms for each node, overriding the executor default */
+  nodeTimeout?: number;
+  /** Per-node timeouts in ms, overriding `nodeTimeout` */
+  nodeTimeouts?: Map<NodeId, number>;
+  /** Graph name recorded in history, overriding the executor's */
+  graphName?: string;
+  /** Continue a trace started elsewhere: the run span becomes a child of this span */
+  traceParent?: SpanContext;
+}
+
+/**
+ * How performRun records a run
+ */
+interface RunSetup {
+  mode: RunMode;
+  /** Execution being replayed */
+  replayOf?: ExecutionId;
+}
+
+/**
+ * What an incremental run compares against: the last completed run and the graph it ran on
+ */
+interface IncrementalBaseline {
+  initialInputs: Map<NodeId, Map<PortId, any>>;
+  results: Map<NodeId, ExecutionResult>;
+  nodeVersions: Map<NodeId, number>;
+}
 
 /**
  * Node execution engine that manages the execution of connected nodes
@@ -20,12 +135,24 @@ import {
 export class NodeExecutor extends EventEmitter {
   private nodes: Map<NodeId, INode> = new Map();
   private connections: Map<string, Connection> = new Map();
-  private executionQueue: NodeId[] = [];
-  private executingNodes: Set<NodeId> = new Set();
-  private executionResults: Map<NodeId, ExecutionResult> = new Map();
+  // Constant values of unconnected input ports, part of the graph like connections
+  private constantInputs: Map<NodeId, Map<PortId, any>> = new Map();
+  private config: NodeExecutorConfig;
+  private runs: Map<ExecutionId, ExecutionRun> = new Map();
+  private lastExecutionId?: ExecutionId;
+  private debugSession?: DebugSession;
+  // Graph change tracking for incremental runs: each change stamps the affected node
+  private graphVersion = 0;
+  private nodeVersions: Map<NodeId, number> = new Map();
+  private baseline?: IncrementalBaseline;
 
-  constructor() {
+  constructor(config: Partial<NodeExecutorConfig> = {}) {
     super();
+    this.config = { ...DEFAULT_EXECUTOR_CONFIG, ...config };
+
+    if (this.config.maxConcurrency < 1) {
+      throw new Error('maxConcurrency must be at least 1');
+    }
   }
 
   /**
@@ -37,6 +164,7 @@ export class NodeExecutor extends EventEmitter {
     }
     
     this.nodes.set(node.id, node);
+    this.markChanged(node.id);
     this.emitEvent(NodeEventType.NODE_ADDED, { node });
   }
 
@@ -56,6 +184,8 @@ export class NodeExecutor extends EventEmitter {
     connectionsToRemove.forEach(conn => this.removeConnection(conn.id));
 
     this.nodes.delete(nodeId);
+    this.constantInputs.delete(nodeId);
+    this.nodeVersions.delete(nodeId);
     this.emitEvent(NodeEventType.NODE_REMOVED, { nodeId });
   }
 
@@ -67,6 +197,7 @@ export class NodeExecutor extends EventEmitter {
     this.validateConnection(connection);
     
     this.connections.set(connection.id, connection);
+    this.markChanged(connection.toNode);
     this.emitEvent(NodeEventType.CONNECTION_ADDED, { connection });
   }
 
@@ -80,133 +211,1047 @@ export class NodeExecutor extends EventEmitter {
     }
 
     this.connections.delete(connectionId);
+    this.markChanged(connection.toNode);
     this.emitEvent(NodeEventType.CONNECTION_REMOVED, { connectionId });
   }
 
+  /**
+   * Set a constant value on a node's input port, used in every run unless an initial input or connection provides one
+   */
+  public setConstantInput(nodeId: NodeId, portId: PortId, value: any): void {
+    const node = this.nodes.get(nodeId);
+    if (!node) {
+      throw new Error(`Node ${nodeId} not found`);
+    }
+    const port = node.inputs.find(p => p.id === portId);
+    if (!port) {
+      throw new Error(`Input port ${portId} not found on node ${nodeId}`);
+    }
+    if (value === undefined) {
+      throw new Error(`Constant for ${nodeId}.${portId} cannot be undefined`);
+    }
+    if (port.dataType.validator && !port.dataType.validator(value)) {
+      throw new Error(`Constant for ${nodeId}.${portId} has invalid type. Expected ${port.dataType.name}`);
+    }
+
+    const constants = this.constantInputs.get(nodeId) ?? new Map<PortId, any>();
+    constants.set(portId, value);
+    this.constantInputs.set(nodeId, constants);
+    this.markChanged(nodeId);
+  }
+
+  /**
+   * Remove the constant value from a node's input port
+   */
+  public removeConstantInput(nodeId: NodeId, portId: PortId): void {
+    const constants = this.constantInputs.get(nodeId);
+    if (!constants?.delete(portId)) {
+      throw new Error(`Constant for ${nodeId}.${portId} not found`);
+    }
+    if (constants.size === 0) {
+      this.constantInputs.delete(nodeId);
+    }
+    this.markChanged(nodeId);
+  }
+
+  /**
+   * Get the constant input values of a node
+   */
+  public getConstantInputs(nodeId: NodeId): Map<PortId, any> {
+    return new Map(this.constantInputs.get(nodeId));
+  }
+
+  /**
+   * Mark a node as changed so the next incremental run executes it and its dependents
+   * Use after changing a node's internal settings; graph edits are tracked automatically
+   */
+  public markDirty(nodeId: NodeId): void {
+    if (!this.nodes.has(nodeId)) {
+      throw new Error(`Node ${nodeId} not found`);
+    }
+    this.markChanged(nodeId);
+  }
+
   /**
    * Execute all nodes in the correct order based on dependencies (sequential)
    */
-  public async execute(initialInputs: Map<NodeId, Map<PortId, any>> = new Map()): Promise<Map<NodeId, ExecutionResult>> {
-    const executionId = uuidv4();
-    this.executionResults.clear();
-    this.executingNodes.clear();
+  public async execute(
+    initialInputs: Map<NodeId, Map<PortId, any>> = new Map(),
+    options: ExecutionOptions = {}
+  ): Promise<Map<NodeId, ExecutionResult>> {
+    return this.performRun(initialInputs, options, { mode: 'sequential' }, run => this.traverseSequential(run));
+  }
+
+  /**
+   * Run every node one at a time in dependency order
+   */
+  private async traverseSequential(run: ExecutionRun): Promise<void> {
+    // Build execution order based on dependencies
+    const executionOrder = this.buildExecutionOrder();
     
-    try {
-      // Build execution order based on dependencies
-      const executionOrder = this.buildExecutionOrder();
-      
-      // Execute nodes in order
-      for (const nodeId of executionOrder) {
-        await this.executeNode(nodeId, executionId, initialInputs);
+    // Consumers of a split stream read it side by side, so they are started without
+    // waiting and only awaited before their dependents
+    const streamConsumers = new Map<NodeId, Promise<void>>();
+
+    // Execute nodes in order
+    for (const nodeId of executionOrder) {
+      const pendingDependencies = this.getNodeDependencies(nodeId)
+        .filter(dependency => streamConsumers.has(dependency))
+        .map(dependency => streamConsumers.get(dependency)!);
+      await Promise.all(pendingDependencies);
+
+      const execution = this.executeNode(nodeId, run);
+      if (this.readsSplitStream(nodeId, run)) {
+        streamConsumers.set(nodeId, execution);
+      } else {
+        await execution;
       }
-      
-      return new Map(this.executionResults);
+    }
+
+    await Promise.all(streamConsumers.values());
+  }
+
+  /**
+   * Work out how the graph would run with the given initial inputs, without executing any node
+   */
+  public plan(initialInputs: Map<NodeId, Map<PortId, any>> = new Map()): ExecutionPlan {
+    let levels: NodeId[][] = [];
+    let cycle: string | undefined;
+    try {
+      levels = this.buildExecutionLevels();
     } catch (error) {
-      this.emitEvent(NodeEventType.EXECUTION_FAILED, { 
-        executionId, 
-        error: error instanceof Error ? error.message : String(error)
-      });
-      throw error;
+      cycle = error instanceof Error ? error.message : String(error);
+    }
+
+    const connections = Array.from(this.connections.values());
+
+    // Required inputs with no default and fed neither by a constant, an initial input nor a connection
+    const missingInputs = new Map<NodeId, PortId[]>();
+    for (const node of this.nodes.values()) {
+      const provided = initialInputs.get(node.id);
+      const constants = this.constantInputs.get(node.id);
+      const missing = node.inputs
+        .filter(port => port.required && port.defaultValue === undefined)
+        .filter(port => !provided?.has(port.id) && !constants?.has(port.id))
+        .filter(port => !connections.some(conn => conn.toNode === node.id && conn.toPort === port.id))
+        .map(port => port.id);
+      if (missing.length > 0) {
+        missingInputs.set(node.id, missing);
+      }
     }
+
+    // Outputs no connection reads
+    const danglingOutputs: PlannedPort[] = [];
+    for (const node of this.nodes.values()) {
+      for (const port of node.outputs) {
+        if (!connections.some(conn => conn.fromNode === node.id && conn.fromPort === port.id)) {
+          danglingOutputs.push({ nodeId: node.id, portId: port.id });
+        }
+      }
+    }
+
+    const invalidConnections: InvalidConnection[] = [];
+    for (const connection of connections) {
+      const reason = this.findConnectionProblem(connection);
+      if (reason) {
+        invalidConnections.push({ connection, reason });
+      }
+    }
+
+    return {
+      valid: !cycle && missingInputs.size === 0 && invalidConnections.length === 0,
+      levels,
+      order: levels.flat(),
+      missingInputs,
+      danglingOutputs,
+      invalidConnections,
+      cycle
+    };
   }
 
   /**
    * Execute nodes in parallel where possible
-   * Groups nodes into execution levels based on dependencies
-   * Nodes in the same level have no dependencies on each other and can run in parallel
+   * Each node starts as soon as all of its own dependencies have finished,
+   * within the configured global and per-category concurrency limits
+   */
+  public async executeParallel(
+    initialInputs: Map<NodeId, Map<PortId, any>> = new Map(),
+    options: ExecutionOptions = {}
+  ): Promise<Map<NodeId, ExecutionResult>> {
+    return this.performRun(initialInputs, options, { mode: 'parallel' }, run =>
+      this.schedule(run, nodeId => this.executeNode(nodeId, run))
+    );
+  }
+
+  /**
+   * Run a recorded execution again with exactly the same initial inputs (needs config.history)
+   * The new run is recorded with `replayOf` pointing at the original
+   */
+  public async replay(
+    executionId: ExecutionId,
+    options: ExecutionOptions = {}
+  ): Promise<Map<NodeId, ExecutionResult>> {
+    if (!this.config.history) {
+      throw new Error('Replay requires a history store (config.history)');
+    }
+
+    const record = await this.config.history.get(executionId);
+    if (!record) {
+      throw new Error(`Execution ${executionId} not found in history`);
+    }
+
+    for (const [nodeId, inputs] of record.initialInputs) {
+      for (const [portId, value] of inputs) {
+        const missing = findUnserializable(value);
+        if (missing) {
+          throw new Error(
+            `Execution ${executionId} cannot be replayed: input ${portId} of node ${nodeId} ` +
+            `was not recorded (${missing.description})`
+          );
+        }
+      }
+    }
+
+    const replayOptions: ExecutionOptions = { graphName: record.graphName, ...options };
+    const initialInputs = new Map(
+      Array.from(record.initialInputs, ([nodeId, inputs]) => [nodeId, new Map(inputs)] as [NodeId, Map<PortId, any>])
+    );
+
+    // Incremental runs are replayed in full
+    return record.mode === 'sequential'
+      ? this.performRun(initialInputs, replayOptions, { mode: 'sequential', replayOf: executionId }, run =>
+          this.traverseSequential(run))
+      : this.performRun(initialInputs, replayOptions, { mode: 'parallel', replayOf: executionId }, run =>
+          this.schedule(run, nodeId => this.executeNode(nodeId, run)));
+  }
+
+  /**
+   * Re-execute only the part of the graph affected by changes since the last completed run
+   * A node runs again when its initial inputs differ, it or its incoming connections changed,
+   * or it did not succeed last time - and so does everything downstream of it.
+   * Other nodes reuse their previous results (flagged with cacheHit). Without a previous
+   * run this is the same as executeParallel.
+   */
+  public async executeIncremental(
+    initialInputs: Map<NodeId, Map<PortId, any>> = new Map(),
+    options: ExecutionOptions = {}
+  ): Promise<Map<NodeId, ExecutionResult>> {
+    const baseline = this.baseline;
+    if (!baseline) {
+      return this.executeParallel(initialInputs, options);
+    }
+
+    const dirty = this.findDirtyNodes(initialInputs, baseline);
+
+    return this.performRun(initialInputs, options, { mode: 'incremental' }, run =>
+      this.schedule(run, async nodeId => {
+        if (dirty.has(nodeId)) {
+          await this.executeNode(nodeId, run);
+        } else {
+          this.reuseResult(nodeId, run, baseline.results.get(nodeId)!);
+        }
+      })
+    );
+  }
+
+  /**
+   * Run every node through the ready-queue scheduler
+   */
+  private schedule(run: ExecutionRun, executeFn: (nodeId: NodeId) => Promise<void>): Promise<void> {
+    const scheduler = new ReadyQueueScheduler({
+      maxConcurrency: this.config.maxConcurrency,
+      categoryConcurrency: this.config.categoryConcurrency
+    });
+
+    return scheduler.run({
+      nodeIds: Array.from(this.nodes.keys()),
+      getDependencies: nodeId => this.getNodeDependencies(nodeId),
+      getCategory: nodeId => this.getNodeCategory(nodeId),
+      // A consumer of a split stream waiting for a slot would stall its siblings on backpressure
+      bypassesLimits: nodeId => this.readsSplitStream(nodeId, run)
+    }, executeFn);
+  }
+
+  /**
+   * Record a stamp for a changed node
+   */
+  private markChanged(nodeId: NodeId): void {
+    this.nodeVersions.set(nodeId, ++this.graphVersion);
+  }
+
+  /**
+   * Find the nodes an incremental run has to execute
+   */
+  private findDirtyNodes(
+    initialInputs: Map<NodeId, Map<PortId, any>>,
+    baseline: IncrementalBaseline
+  ): Set<NodeId> {
+    const changed: NodeId[] = [];
+
+    for (const nodeId of this.nodes.keys()) {
+      const previous = baseline.results.get(nodeId);
+      // Streams were consumed by the previous run, so their producers must run again
+      const reusable = previous !== undefined &&
+        (previous.status === ExecutionStatus.SUCCESS || previous.status === ExecutionStatus.INACTIVE) &&
+        !Array.from(previous.outputs?.values() || []).some(isAsyncIterable);
+      const unchanged = baseline.nodeVersions.get(nodeId) === this.nodeVersions.get(nodeId);
+
+      const currentInputs = stableHash(initialInputs.get(nodeId) ?? new Map());
+      const previousInputs = stableHash(baseline.initialInputs.get(nodeId) ?? new Map());
+      const sameInputs = currentInputs !== undefined && currentInputs === previousInputs;
+
+      if (!reusable || !unchanged || !sameInputs) {
+        changed.push(nodeId);
+      }
+    }
+
+    // Everything downstream of a changed node runs again
+    const dirty = new Set<NodeId>();
+    const visit = (nodeId: NodeId): void => {
+      if (dirty.has(nodeId)) {
+        return;
+      }
+      dirty.add(nodeId);
+      for (const connection of this.connections.values()) {
+        if (connection.fromNode === nodeId) {
+          visit(connection.toNode);
+        }
+      }
+    };
+    changed.forEach(visit);
+
+    return dirty;
+  }
+
+  /**
+   * Record a node's result from the previous run instead of executing it
    */
-  public async executeParallel(initialInputs: Map<NodeId, Map<PortId, any>> = new Map()): Promise<Map<NodeId, ExecutionResult>> {
-    const executionId = uuidv4();
-    this.executionResults.clear();
-    this.executingNodes.clear();
+  private reuseResult(nodeId: NodeId, run: ExecutionRun, previous: ExecutionResult): void {
+    this.recordResult(nodeId, run, {
+      ...previous,
+      outputs: previous.outputs && new Map(previous.outputs),
+      executionTime: 0,
+      cacheHit: true
+    });
+  }
+
+  /**
+   * Run a graph traversal inside a new run, wiring up cancellation and the run deadline
+   */
+  private async performRun(
+    initialInputs: Map<NodeId, Map<PortId, any>>,
+    options: ExecutionOptions,
+    setup: RunSetup,
+    traverse: (run: ExecutionRun) => Promise<void>
+  ): Promise<Map<NodeId, ExecutionResult>> {
+    const run = this.startRun(initialInputs, options);
+    const executionId = run.executionId;
+    const nodeVersions = new Map(this.nodeVersions);
+    this.startRunSpan(run, options, setup);
+    this.emitEvent(NodeEventType.RUN_STARTED, {
+      executionId,
+      graphName: run.graphName,
+      mode: setup.mode,
+      replayOf: setup.replayOf
+    });
+
+    const onCancel = () => run.abort(new ExecutionAbortedError(`Execution ${executionId} was cancelled`, executionId));
+    if (options.signal?.aborted) {
+      onCancel();
+    } else {
+      options.signal?.addEventListener('abort', onCancel, { once: true });
+    }
+
+    const timeout = options.timeout;
+    const deadline = timeout !== undefined
+      ? setTimeout(() => run.abort(
+          new ExecutionAbortedError(`Execution ${executionId} timed out after ${timeout}ms`, executionId, timeout)
+        ), timeout)
+      : undefined;
     
     try {
-      // Build execution levels for parallel execution
-      const executionLevels = this.buildExecutionLevels();
+      await traverse(run);
       
-      // Execute each level in parallel
-      for (const level of executionLevels) {
-        // Execute all nodes in this level concurrently
-        const levelPromises = level.map(nodeId => 
-          this.executeNode(nodeId, executionId, initialInputs)
-        );
-        
-        // Wait for all nodes in this level to complete
-        await Promise.all(levelPromises);
-      }
-      
-      return new Map(this.executionResults);
+      this.throwIfHalted(run);
+      this.throwIfAborted(run);
+      run.complete();
+
+      // Later incremental runs start from the most recently completed run
+      this.baseline = {
+        initialInputs: run.initialInputs,
+        results: run.getResults(),
+        nodeVersions
+      };
+
+      return run.getResults();
     } catch (error) {
-      this.emitEvent(NodeEventType.EXECUTION_FAILED, { 
-        executionId, 
-        error: error instanceof Error ? error.message : String(error)
-      });
+      this.failRun(run, error);
       throw error;
+    } finally {
+      clearTimeout(deadline);
+      options.signal?.removeEventListener('abort', onCancel);
+      this.endRunSpan(run);
+      this.emitEvent(NodeEventType.RUN_COMPLETED, this.summarizeRun(run, setup));
+      await this.recordHistory(run, setup);
+      this.pruneRuns();
+    }
+  }
+
+  /**
+   * Create and register a new run
+   */
+  private startRun(
+    initialInputs: Map<NodeId, Map<PortId, any>>,
+    options: ExecutionOptions
+  ): ExecutionRun {
+    const executionId = options.executionId || uuidv4();
+    if (this.runs.has(executionId)) {
+      throw new Error(`Execution ${executionId} already exists`);
+    }
+
+    const run = new ExecutionRun(
+      executionId,
+      initialInputs,
+      options.failurePolicy ?? this.config.failurePolicy
+    );
+    run.nodeTimeout = options.nodeTimeout ?? this.config.nodeTimeout;
+    run.nodeTimeouts = options.nodeTimeouts ?? new Map();
+    run.graphName = options.graphName ?? this.config.graphName;
+    this.runs.set(executionId, run);
+    this.lastExecutionId = executionId;
+    return run;
+  }
+
+  /**
+   * Start the root span of a run, if the executor has a tracer
+   */
+  private startRunSpan(run: ExecutionRun, options: ExecutionOptions, setup: RunSetup): void {
+    if (!this.config.tracer) {
+      return;
+    }
+
+    run.span = this.config.tracer.startSpan(`run ${run.graphName ?? 'graph'}`, {
+      parent: options.traceParent,
+      startTime: run.startTime
+    });
+    run.span.setAttributes({
+      'execution.id': run.executionId,
+      'execution.mode': setup.mode,
+      'execution.failure_policy': run.failurePolicy,
+      'execution.replay_of': setup.replayOf,
+      'graph.name': run.graphName,
+      'graph.node_count': this.nodes.size,
+      'graph.connection_count': this.connections.size
+    });
+  }
+
+  /**
+   * End the root span of a finished run
+   */
+  private endRunSpan(run: ExecutionRun): void {
+    if (!run.span) {
+      return;
+    }
+
+    run.span.setAttribute('execution.status', run.status);
+    if (run.error) {
+      run.span.recordException(run.error);
+      run.span.setStatus(SpanStatusCode.ERROR, run.error.message);
+    } else {
+      run.span.setStatus(SpanStatusCode.OK);
+    }
+    run.span.end(run.endTime);
+  }
+
+  /**
+   * Start the span of a node about to run, as a child of the run span
+   */
+  private startNodeSpan(node: INode, run: ExecutionRun, inputs?: Map<PortId, any>): void {
+    if (!run.span || run.getNodeSpan(node.id)) {
+      return;
+    }
+
+    const span = this.config.tracer!.startSpan(`node ${node.name}`, { parent: run.span });
+    span.setAttributes({
+      'node.id': node.id,
+      'node.name': node.name,
+      'node.type': NodeRegistry.getInstance().findNodeType(node) ?? node.constructor.name,
+      ...(inputs ? portSizeAttributes('node.inputs', inputs) : {})
+    });
+    run.setNodeSpan(node.id, span);
+  }
+
+  /**
+   * End the span of a node with its result; nodes that never ran get a zero-length span
+   */
+  private endNodeSpan(nodeId: NodeId, run: ExecutionRun, result: ExecutionResult): void {
+    if (!run.span) {
+      return;
+    }
+
+    const node = this.nodes.get(nodeId);
+    if (node) {
+      this.startNodeSpan(node, run);
+    }
+    const span = run.getNodeSpan(nodeId);
+    if (!span) {
+      return;
+    }
+
+    span.setAttributes({
+      'node.status': result.status,
+      'node.execution_time': result.executionTime,
+      'node.cache_hit': result.cacheHit,
+      'node.retry.attempts': result.retryAttempts,
+      'node.caused_by': result.causedBy,
+      ...(result.outputs ? portSizeAttributes('node.outputs', result.outputs) : {})
+    });
+    if (result.success) {
+      span.setStatus(SpanStatusCode.OK);
+    } else if (result.error) {
+      span.recordException(result.error);
+      span.setStatus(SpanStatusCode.ERROR, result.error.message);
+    }
+    span.end();
+  }
+
+  /**
+   * Save a finished run to the history store, if one is configured
+   * A failing store is reported but does not fail the run
+   */
+  private async recordHistory(run: ExecutionRun, setup: RunSetup): Promise<void> {
+    if (!this.config.history) {
+      return;
+    }
+
+    const toRecordedError = (error: Error): RecordedError => ({
+      name: error.name,
+      message: error.message,
+      nodeId: error instanceof NodeError ? error.nodeId : undefined,
+      portId: error instanceof NodeError ? error.portId : undefined,
+      stack: error.stack
+    });
+
+    const record: RunRecord = {
+      executionId: run.executionId,
+      graphName: run.graphName,
+      mode: setup.mode,
+      status: run.status,
+      startTime: run.startTime,
+      endTime: run.endTime,
+      duration: run.getDuration(),
+      initialInputs: run.initialInputs,
+      nodes: Array.from(run.getResults(), ([nodeId, result]) => ({
+        nodeId,
+        nodeName: this.nodes.get(nodeId)?.name,
+        status: result.status ?? (result.success ? ExecutionStatus.SUCCESS : ExecutionStatus.FAILED),
+        executionTime: result.executionTime,
+        outputs: result.outputs && new Map(result.outputs),
+        error: result.error && toRecordedError(result.error),
+        causedBy: result.causedBy,
+        cacheHit: result.cacheHit
+      })),
+      error: run.error && toRecordedError(run.error),
+      replayOf: setup.replayOf
+    };
+
+    try {
+      await this.config.history.save(record);
+    } catch (error) {
+      console.warn(`Failed to record execution ${run.executionId} in history:`, error);
+    }
+  }
+
+  /**
+   * Mark a run as failed (listeners learn about it from RUN_COMPLETED)
+   */
+  private failRun(run: ExecutionRun, error: unknown): void {
+    run.fail(error instanceof Error ? error : new Error(String(error)));
+  }
+
+  /**
+   * Summarize a finished run for RUN_COMPLETED
+   */
+  private summarizeRun(run: ExecutionRun, setup: RunSetup): RunSummary {
+    const nodeCounts = Object.fromEntries(
+      Object.values(ExecutionStatus).map(status => [status, 0])
+    ) as Record<ExecutionStatus, number>;
+    let cacheHits = 0;
+
+    run.getResults().forEach(result => {
+      nodeCounts[result.status ?? (result.success ? ExecutionStatus.SUCCESS : ExecutionStatus.FAILED)]++;
+      if (result.cacheHit) {
+        cacheHits++;
+      }
+    });
+
+    return {
+      executionId: run.executionId,
+      graphName: run.graphName,
+      mode: setup.mode,
+      status: run.status,
+      startTime: run.startTime,
+      endTime: run.endTime ?? Date.now(),
+      duration: run.getDuration(),
+      nodeCounts,
+      cacheHits,
+      error: run.error
+    };
+  }
+
+  /**
+   * Reject a run that was halted by a fail-fast failure
+   */
+  private throwIfHalted(run: ExecutionRun): void {
+    if (!run.haltedBy) {
+      return;
+    }
+
+    const error = run.getResult(run.haltedBy)?.error;
+    throw error || new NodeError(`Execution halted by failure of node ${run.haltedBy}`, run.haltedBy);
+  }
+
+  /**
+   * Reject a run that was cancelled or exceeded its deadline
+   */
+  private throwIfAborted(run: ExecutionRun): void {
+    if (run.isAborted()) {
+      throw run.signal.reason;
+    }
+  }
+
+  /**
+   * Evict the oldest finished runs beyond the retention limit
+   */
+  private pruneRuns(): void {
+    let excess = this.runs.size - this.config.maxRetainedRuns;
+    if (excess <= 0) {
+      return;
+    }
+
+    // Maps iterate in insertion order, so the oldest runs come first
+    for (const [executionId, run] of this.runs) {
+      if (excess <= 0) {
+        break;
+      }
+      if (!run.isRunning()) {
+        this.runs.delete(executionId);
+        excess--;
+      }
     }
   }
 
   /**
    * Execute a single node
    */
-  private async executeNode(
-    nodeId: NodeId, 
-    executionId: ExecutionId, 
-    initialInputs: Map<NodeId, Map<PortId, any>>
-  ): Promise<void> {
+  private async executeNode(nodeId: NodeId, run: ExecutionRun): Promise<void> {
     const node = this.nodes.get(nodeId);
     if (!node) {
       throw new Error(`Node ${nodeId} not found`);
     }
 
-    this.executingNodes.add(nodeId);
+    const executionId = run.executionId;
+
+    const causedBy = this.findFailureCause(nodeId, run);
+    if (causedBy) {
+      this.skipNode(nodeId, run, causedBy);
+      return;
+    }
+
+    const branchNode = this.findInactiveBranch(nodeId, run);
+    if (branchNode) {
+      this.recordResult(nodeId, run, {
+        success: false,
+        status: ExecutionStatus.INACTIVE,
+        executionTime: 0,
+        causedBy: branchNode
+      });
+      return;
+    }
+
+    if (run.isAborted()) {
+      this.recordResult(nodeId, run, this.abortedResult(nodeId, run.signal.reason, 0));
+      return;
+    }
+
+    // Gather inputs from connected nodes; a port that cannot merge its values fails the node
+    let inputs: Map<PortId, any>;
+    try {
+      inputs = this.gatherNodeInputs(nodeId, run);
+    } catch (error) {
+      this.recordResult(nodeId, run, {
+        success: false,
+        error: error instanceof NodeError
+          ? error
+          : new NodeError(error instanceof Error ? error.message : String(error), nodeId),
+        executionTime: 0
+      });
+      return;
+    }
+
+    if (this.debugSession?.isActive()) {
+      await this.debugSession.checkpoint(run, node, BreakpointPhase.BEFORE, inputs);
+      if (run.isAborted()) {
+        this.recordResult(nodeId, run, this.abortedResult(nodeId, run.signal.reason, 0));
+        return;
+      }
+    }
+
+    this.startNodeSpan(node, run, inputs);
+
+    // Reuse the outputs of an earlier execution with identical inputs
+    const cacheKey = this.getCacheKey(node, inputs);
+    const cached = cacheKey ? this.config.cache!.get(cacheKey) : undefined;
+    if (cached) {
+      const cachedResult: ExecutionResult = {
+        success: true,
+        outputs: cached.outputs,
+        executionTime: 0,
+        cacheHit: true
+      };
+      if (cached.inactiveOutputs) {
+        cachedResult.inactiveOutputs = cached.inactiveOutputs;
+      }
+      if (this.debugSession?.isActive()) {
+        await this.debugSession.checkpoint(run, node, BreakpointPhase.AFTER, inputs, cachedResult);
+      }
+      this.recordResult(nodeId, run, cachedResult);
+      return;
+    }
+
+    run.markExecuting(nodeId);
     this.emitEvent(NodeEventType.EXECUTION_STARTED, { nodeId, executionId });
 
+    // Each node gets its own signal, aborted by the run or by the node's timeout
+    const nodeController = new AbortController();
+    const onRunAbort = () => nodeController.abort(run.signal.reason);
+    run.signal.addEventListener('abort', onRunAbort, { once: true });
+
+    const timeout = run.nodeTimeouts.get(nodeId) ?? run.nodeTimeout;
+    const timer = timeout !== undefined
+      ? setTimeout(() => nodeController.abort(new NodeTimeoutError(nodeId, timeout)), timeout)
+      : undefined;
+
+    const startTime = Date.now();
+
     try {
-      // Gather inputs from connected nodes
-      const inputs = this.gatherNodeInputs(nodeId, initialInputs);
+      const inputErrors = this.gatherInputErrors(nodeId, run);
       
+      // Nodes can read the trace from their metadata, e.g. to propagate it to remote calls
+      const metadata = new Map<string, any>();
+      const span = run.getNodeSpan(nodeId);
+      if (span) {
+        metadata.set(TRACE_ID_METADATA_KEY, span.traceId);
+        metadata.set(SPAN_ID_METADATA_KEY, span.spanId);
+      }
+
       // Create execution context
       const context: ExecutionContext = {
         executionId,
         inputs,
         outputs: new Map(),
-        metadata: new Map(),
+        metadata,
         errorHandler: (error: NodeError) => {
-          this.handleNodeError(error, nodeId);
+          // Errors raised by the abort itself are recorded as timeouts/cancellations instead
+          if (!nodeController.signal.aborted) {
+            this.handleNodeError(error, nodeId);
+          }
+        },
+        inputErrors,
+        signal: nodeController.signal,
+        inactiveOutputs: new Set(),
+        onRetry: (attempt, error, delay) => {
+          if (!nodeController.signal.aborted) {
+            this.emitEvent(NodeEventType.NODE_RETRYING, { nodeId, executionId, attempt, error, delay });
+          }
         }
       };
 
-      // Execute the node
-      const result = await node.execute(context);
-      
-      // Store the result
-      this.executionResults.set(nodeId, result);
-      
-      if (result.success) {
-        this.emitEvent(NodeEventType.EXECUTION_COMPLETED, { 
-          nodeId, 
-          executionId, 
-          result 
-        });
+      // Execute the node, but stop waiting as soon as it is aborted
+      const aborted = new Promise<void>(resolve => {
+        nodeController.signal.addEventListener('abort', () => resolve(), { once: true });
+      });
+      const result = await Promise.race([node.execute(context), aborted]);
+      clearTimeout(timer);
+
+      span?.setAttribute('node.circuit.state', metadata.get(CIRCUIT_STATE_METADATA_KEY));
+
+      let nodeResult: ExecutionResult;
+      if (nodeController.signal.aborted) {
+        nodeResult = this.abortedResult(nodeId, nodeController.signal.reason, Date.now() - startTime);
       } else {
-        this.emitEvent(NodeEventType.EXECUTION_FAILED, { 
-          nodeId, 
-          executionId, 
-          error: result.error 
+        nodeResult = result as ExecutionResult;
+        if (metadata.has(RETRY_ATTEMPTS_METADATA_KEY)) {
+          nodeResult.retryAttempts = metadata.get(RETRY_ATTEMPTS_METADATA_KEY);
+        }
+        if (nodeResult.success && context.inactiveOutputs!.size > 0) {
+          nodeResult.inactiveOutputs = nodeResult.inactiveOutputs || Array.from(context.inactiveOutputs!);
+        }
+      }
+
+      // Streams can only be read once, so results carrying them are not cached
+      if (cacheKey && nodeResult.success && nodeResult.outputs &&
+          !Array.from(nodeResult.outputs.values()).some(isAsyncIterable)) {
+        this.config.cache!.set(cacheKey, {
+          outputs: nodeResult.outputs,
+          inactiveOutputs: nodeResult.inactiveOutputs
         });
       }
+
+      if (this.debugSession?.isActive()) {
+        await this.debugSession.checkpoint(run, node, BreakpointPhase.AFTER, inputs, nodeResult);
+      }
+
+      this.recordResult(nodeId, run, nodeResult);
     } finally {
-      this.executingNodes.delete(nodeId);
+      clearTimeout(timer);
+      run.signal.removeEventListener('abort', onRunAbort);
+      run.markFinished(nodeId);
+    }
+  }
+
+  /**
+   * Store a node result in the run, apply the failure policy and notify listeners
+   */
+  private recordResult(nodeId: NodeId, run: ExecutionRun, result: ExecutionResult): void {
+    const executionId = run.executionId;
+    result.status = result.status ?? (result.success ? ExecutionStatus.SUCCESS : ExecutionStatus.FAILED);
+
+    if (result.success) {
+      this.prepareStreamOutputs(nodeId, run, result);
+    }
+    
+    // Store the result
+    run.setResult(nodeId, result);
+    this.endNodeSpan(nodeId, run, result);
+
+    if (!result.success) {
+      this.releaseStreams(nodeId, run);
+    }
+    
+    if (result.status === ExecutionStatus.FAILED &&
+        run.failurePolicy === FailurePolicy.FAIL_FAST &&
+        !this.isFailureContained(nodeId)) {
+      run.halt(nodeId);
+      run.abort(new ExecutionAbortedError(`Execution ${executionId} halted by failure of node ${nodeId}`, executionId));
+    }
+    
+    if (result.status === ExecutionStatus.SKIPPED || result.status === ExecutionStatus.INACTIVE) {
+      this.emitEvent(NodeEventType.NODE_SKIPPED, {
+        nodeId,
+        executionId,
+        status: result.status,
+        causedBy: result.causedBy,
+        result
+      });
+    } else if (result.success) {
+      this.emitEvent(NodeEventType.EXECUTION_COMPLETED, { 
+        nodeId, 
+        executionId, 
+        result 
+      });
+    } else {
+      this.emitEvent(NodeEventType.EXECUTION_FAILED, { 
+        nodeId, 
+        executionId, 
+        error: result.error,
+        result
+      });
     }
   }
 
+  /**
+   * Tie a node's stream outputs to the run and split those that feed several consumers
+   */
+  private prepareStreamOutputs(nodeId: NodeId, run: ExecutionRun, result: ExecutionResult): void {
+    result.outputs?.forEach((value, portId) => {
+      if (!isAsyncIterable(value)) {
+        return;
+      }
+
+      // Pulling fails once the run is cancelled, timed out or halted
+      const stream = abortableStream(value, run.signal);
+      result.outputs!.set(portId, stream);
+
+      const consumers = Array.from(this.connections.values())
+        .filter(conn => conn.fromNode === nodeId && conn.fromPort === portId);
+      if (consumers.length > 1) {
+        // A consumer that waits for a sibling consumer only starts reading once the sibling has read
+        // everything, so the stream is buffered in full rather than stalling the sibling
+        const consumerIds = consumers.map(conn => conn.toNode);
+        const sequenced = consumerIds.some(consumerId =>
+          consumerIds.some(otherId => otherId !== consumerId && this.dependsOn(consumerId, otherId)));
+        const bufferSize = sequenced ? Infinity : this.config.streamBufferSize;
+        const branches = teeStream(stream, consumers.length, bufferSize);
+        consumers.forEach((connection, index) => run.setConnectionStream(connection.id, branches[index]));
+      }
+    });
+  }
+
+  /**
+   * Build the output cache key for a node, or undefined when its outputs must not be cached
+   */
+  private getCacheKey(node: INode, inputs: Map<PortId, any>): string | undefined {
+    if (!this.config.cache) {
+      return undefined;
+    }
+
+    const metadata = NodeRegistry.getInstance().getMetadataForNode(node);
+    if (!metadata?.cacheable) {
+      return undefined;
+    }
+    if (typeof metadata.cacheable === 'function' && !metadata.cacheable(inputs)) {
+      return undefined;
+    }
+
+    const { id: _id, name: _name, description: _description, ...settings } = node.getConfig?.() ?? {};
+    return OutputCache.createKey(metadata.type, inputs, settings);
+  }
+
+  /**
+   * Check whether a node receives one branch of a stream split between several consumers
+   */
+  private readsSplitStream(nodeId: NodeId, run: ExecutionRun): boolean {
+    return Array.from(this.connections.values())
+      .some(conn => conn.toNode === nodeId && run.getConnectionStream(conn.id) !== undefined);
+  }
+
+  /**
+   * Release the streams a node that did not succeed will never read, so its sibling
+   * consumers are not held back; continues upstream through stream nodes left without readers
+   */
+  private releaseStreams(nodeId: NodeId, run: ExecutionRun): void {
+    const incomingConnections = Array.from(this.connections.values())
+      .filter(conn => conn.toNode === nodeId);
+
+    for (const connection of incomingConnections) {
+      const stream = run.getConnectionStream(connection.id);
+      if (isStreamBranch(stream)) {
+        stream.release();
+      }
+
+      const sourceResult = run.getResult(connection.fromNode);
+      const sourceHasStreams = sourceResult?.success &&
+        Array.from(sourceResult.outputs?.values() || []).some(isAsyncIterable);
+      const sourceAbandoned = Array.from(this.connections.values())
+        .filter(conn => conn.fromNode === connection.fromNode)
+        .every(conn => {
+          const consumerResult = run.getResult(conn.toNode);
+          return consumerResult !== undefined && !consumerResult.success;
+        });
+
+      if (sourceHasStreams && sourceAbandoned) {
+        this.releaseStreams(connection.fromNode, run);
+      }
+    }
+  }
+
+  /**
+   * Build the result of a node that was cancelled or timed out
+   */
+  private abortedResult(nodeId: NodeId, reason: unknown, executionTime: number): ExecutionResult {
+    let error: NodeError;
+    if (reason instanceof NodeTimeoutError) {
+      error = reason;
+    } else if (reason instanceof ExecutionAbortedError && reason.timedOut) {
+      error = new NodeTimeoutError(nodeId, reason.timeout!, reason.message);
+    } else {
+      error = new NodeCancelledError(nodeId, reason instanceof Error ? reason.message : undefined);
+    }
+
+    return {
+      success: false,
+      status: error instanceof NodeTimeoutError ? ExecutionStatus.TIMED_OUT : ExecutionStatus.CANCELLED,
+      error,
+      executionTime
+    };
+  }
+
+  /**
+   * Find the failed node that prevents this node from running, if any
+   */
+  private findFailureCause(nodeId: NodeId, run: ExecutionRun): NodeId | undefined {
+    if (run.haltedBy) {
+      return run.haltedBy;
+    }
+
+    if (run.failurePolicy !== FailurePolicy.SKIP_DEPENDENTS || this.nodes.get(nodeId)?.isErrorBoundary) {
+      return undefined;
+    }
+
+    for (const dependency of this.getNodeDependencies(nodeId)) {
+      const result = run.getResult(dependency);
+      if (result?.status === ExecutionStatus.SKIPPED) {
+        return result.causedBy;
+      }
+      if (result && !result.success && result.status !== ExecutionStatus.INACTIVE) {
+        return dependency;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the branching node that deactivated every input of this node, if any
+   * A node runs as long as at least one incoming connection is still live
+   */
+  private findInactiveBranch(nodeId: NodeId, run: ExecutionRun): NodeId | undefined {
+    const incomingConnections = Array.from(this.connections.values())
+      .filter(conn => conn.toNode === nodeId);
+
+    let branchNode: NodeId | undefined;
+    for (const connection of incomingConnections) {
+      const sourceResult = run.getResult(connection.fromNode);
+      if (sourceResult?.status === ExecutionStatus.INACTIVE) {
+        branchNode = branchNode || sourceResult.causedBy;
+      } else if (sourceResult?.inactiveOutputs?.includes(connection.fromPort)) {
+        branchNode = branchNode || connection.fromNode;
+      } else {
+        return undefined;
+      }
+    }
+
+    return branchNode;
+  }
+
+  /**
+   * Whether every consumer of a node is an error boundary, so its failure goes no further
+   */
+  private isFailureContained(nodeId: NodeId): boolean {
+    const consumers = Array.from(this.connections.values())
+      .filter(conn => conn.fromNode === nodeId)
+      .map(conn => this.nodes.get(conn.toNode));
+
+    return consumers.length > 0 && consumers.every(consumer => consumer?.isErrorBoundary);
+  }
+
+  /**
+   * Record a node as skipped because of an upstream failure
+   */
+  private skipNode(nodeId: NodeId, run: ExecutionRun, causedBy: NodeId): void {
+    const error = new NodeError(
+      `Skipped because upstream node ${causedBy} failed`,
+      nodeId,
+      undefined,
+      run.getResult(causedBy)?.error
+    );
+
+    this.recordResult(nodeId, run, {
+      success: false,
+      status: ExecutionStatus.SKIPPED,
+      error,
+      executionTime: 0,
+      causedBy
+    });
+  }
+
   /**
    * Gather inputs for a node from connected nodes
+   * Later sources override earlier ones: constants, initial inputs, connections;
+   * port defaults fill in inputs that are still unset, undefined or null
    */
-  private gatherNodeInputs(
-    nodeId: NodeId, 
-    initialInputs: Map<NodeId, Map<PortId, any>>
-  ): Map<PortId, any> {
+  private gatherNodeInputs(nodeId: NodeId, run: ExecutionRun): Map<PortId, any> {
     const inputs = new Map<PortId, any>();
     const node = this.nodes.get(nodeId);
     
@@ -214,31 +1259,111 @@ export class NodeExecutor extends EventEmitter {
       return inputs;
     }
 
+    this.constantInputs.get(nodeId)?.forEach((value, portId) => {
+      inputs.set(portId, value);
+    });
+
     // Add initial inputs if provided
-    const nodeInitialInputs = initialInputs.get(nodeId);
+    const nodeInitialInputs = run.initialInputs.get(nodeId);
     if (nodeInitialInputs) {
       nodeInitialInputs.forEach((value, portId) => {
         inputs.set(portId, value);
       });
     }
 
-    // Gather inputs from connected nodes
+    // Gather values from connected nodes per port, in connection order
+    const portValues = new Map<PortId, any[]>();
     const incomingConnections = Array.from(this.connections.values())
       .filter(conn => conn.toNode === nodeId);
 
     for (const connection of incomingConnections) {
-      const sourceResult = this.executionResults.get(connection.fromNode);
+      const sourceResult = run.getResult(connection.fromNode);
       if (sourceResult && sourceResult.success && sourceResult.outputs) {
-        const value = sourceResult.outputs.get(connection.fromPort);
+        const value = run.getConnectionStream(connection.id) ?? sourceResult.outputs.get(connection.fromPort);
         if (value !== undefined) {
-          inputs.set(connection.toPort, value);
+          const values = portValues.get(connection.toPort) || [];
+          values.push(value);
+          portValues.set(connection.toPort, values);
         }
       }
     }
 
+    // Connected values override initial inputs
+    portValues.forEach((values, portId) => {
+      const port = node.inputs.find(p => p.id === portId);
+      inputs.set(portId, port ? this.mergePortValues(nodeId, port, values) : values[values.length - 1]);
+    });
+
+    for (const port of node.inputs) {
+      const value = inputs.get(port.id);
+      if (port.defaultValue !== undefined && (value === undefined || value === null)) {
+        inputs.set(port.id, port.defaultValue);
+      }
+    }
+
+    // Arrays given to stream ports are streamed item by item
+    for (const port of node.inputs) {
+      const value = inputs.get(port.id);
+      if (isStreamType(port.dataType) && Array.isArray(value)) {
+        inputs.set(port.id, toAsyncIterable(value));
+      }
+    }
+
     return inputs;
   }
 
+  /**
+   * Combine the values arriving at an input port according to its merge strategy
+   */
+  private mergePortValues(nodeId: NodeId, port: Port, values: any[]): any {
+    switch (port.mergeStrategy ?? MergeStrategy.REJECT) {
+      case MergeStrategy.COLLECT:
+        return values;
+
+      case MergeStrategy.MERGE_OBJECTS:
+        for (const value of values) {
+          if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+            throw new NodeError(`Cannot merge non-object value into input ${port.id}`, nodeId, port.id);
+          }
+        }
+        return Object.assign({}, ...values);
+
+      case MergeStrategy.FIRST_NON_NULL:
+        return values.find(value => value !== null && value !== undefined) ?? null;
+
+      default:
+        return values[values.length - 1];
+    }
+  }
+
+  /**
+   * Gather the errors of failed upstream nodes for a node's input ports
+   * Skipped sources report the error of the node that caused the skip
+   */
+  private gatherInputErrors(nodeId: NodeId, run: ExecutionRun): Map<PortId, NodeError> {
+    const errors = new Map<PortId, NodeError>();
+
+    const incomingConnections = Array.from(this.connections.values())
+      .filter(conn => conn.toNode === nodeId);
+
+    for (const connection of incomingConnections) {
+      const sourceResult = run.getResult(connection.fromNode);
+      if (!sourceResult || sourceResult.success) {
+        continue;
+      }
+
+      const rootResult = sourceResult.status === ExecutionStatus.SKIPPED && sourceResult.causedBy
+        ? run.getResult(sourceResult.causedBy)
+        : sourceResult;
+      const error = rootResult?.error || sourceResult.error;
+      if (error) {
+        errors.set(connection.toPort, error);
+      }
+    }
+
+    return errors;
+  }
+
   /**
    * Build execution order based on node dependencies
    */
@@ -346,42 +1471,142 @@ export class NodeExecutor extends EventEmitter {
       .map(conn => conn.fromNode);
   }
 
+  /**
+   * Check whether a node is downstream of another
+   */
+  private dependsOn(nodeId: NodeId, upstreamId: NodeId, visited: Set<NodeId> = new Set()): boolean {
+    if (visited.has(nodeId)) {
+      return false;
+    }
+    visited.add(nodeId);
+    return this.getNodeDependencies(nodeId)
+      .some(dependency => dependency === upstreamId || this.dependsOn(dependency, upstreamId, visited));
+  }
+
+  /**
+   * Get the category used for per-category concurrency limits
+   */
+  private getNodeCategory(nodeId: NodeId): string | undefined {
+    const node = this.nodes.get(nodeId);
+    if (!node) {
+      return undefined;
+    }
+
+    return this.config.getNodeCategory
+      ? this.config.getNodeCategory(node)
+      : NodeRegistry.getInstance().getMetadataForNode(node)?.category;
+  }
+
   /**
    * Validate a connection
    */
   private validateConnection(connection: Connection): void {
+    const problem = this.findConnectionProblem(connection);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    // Single-source ports accept only one incoming connection
+    const toPort = this.nodes.get(connection.toNode)!.inputs.find(port => port.id === connection.toPort)!;
+    if ((toPort.mergeStrategy ?? MergeStrategy.REJECT) === MergeStrategy.REJECT) {
+      const existing = Array.from(this.connections.values()).find(conn =>
+        conn.id !== connection.id &&
+        conn.toNode === connection.toNode &&
+        conn.toPort === connection.toPort
+      );
+      if (existing) {
+        throw new Error(
+          `Input port ${connection.toPort} on node ${connection.toNode} already has a connection (${existing.id}); ` +
+          `set a merge strategy on the port to accept several`
+        );
+      }
+    }
+  }
+
+  /**
+   * Describe why a connection cannot carry data (missing node or port, incompatible types)
+   */
+  private findConnectionProblem(connection: Connection): string | undefined {
     const fromNode = this.nodes.get(connection.fromNode);
     const toNode = this.nodes.get(connection.toNode);
 
     if (!fromNode) {
-      throw new Error(`Source node ${connection.fromNode} not found`);
+      return `Source node ${connection.fromNode} not found`;
     }
 
     if (!toNode) {
-      throw new Error(`Target node ${connection.toNode} not found`);
+      return `Target node ${connection.toNode} not found`;
     }
 
     const fromPort = fromNode.outputs.find(port => port.id === connection.fromPort);
     const toPort = toNode.inputs.find(port => port.id === connection.toPort);
 
     if (!fromPort) {
-      throw new Error(`Output port ${connection.fromPort} not found on node ${connection.fromNode}`);
+      return `Output port ${connection.fromPort} not found on node ${connection.fromNode}`;
     }
 
     if (!toPort) {
-      throw new Error(`Input port ${connection.toPort} not found on node ${connection.toNode}`);
+      return `Input port ${connection.toPort} not found on node ${connection.toNode}`;
     }
 
-    // Check for type compatibility
-    if (fromPort.dataType.name !== toPort.dataType.name && 
-        fromPort.dataType.name !== 'any' && 
-        toPort.dataType.name !== 'any') {
-      throw new Error(
-        `Type mismatch: cannot connect ${fromPort.dataType.name} to ${toPort.dataType.name}`
-      );
+    // Structural subtype check, with generic parameters resolved from the rest of the graph
+    const fromType = this.resolvePortType(fromNode, fromPort.dataType);
+    const bindings = this.resolveTypeBindings(toNode, connection.id);
+    const problem = checkAssignable(fromType, substituteGenerics(toPort.dataType, bindings), bindings);
+    if (problem) {
+      const summary = `cannot connect ${fromType.name} to ${toPort.dataType.name}`;
+      const detail = problem === `${fromType.name} is not assignable to ${toPort.dataType.name}` ? '' : ` (${problem})`;
+      return `Type mismatch: ${summary}${detail}`;
     }
+
+    return undefined;
   }
 
+  /**
+   * Type of a node's port with the node's generic parameters replaced by their bindings
+   */
+  private resolvePortType(node: INode, type: DataType, visiting: Set<NodeId> = new Set()): DataType {
+    return containsGeneric(type) ? substituteGenerics(type, this.resolveTypeBindings(node, undefined, visiting)) : type;
+  }
+
+  /**
+   * Bind a node's generic parameters from the types of its incoming connections, in connection order
+   * Connections that do not fit are ignored here; they are reported by validation
+   */
+  private resolveTypeBindings(
+    node: INode,
+    excludeConnectionId?: string,
+    visiting: Set<NodeId> = new Set()
+  ): TypeBindings {
+    const bindings: TypeBindings = new Map();
+    if (visiting.has(node.id) || !node.inputs.some(port => containsGeneric(port.dataType))) {
+      return bindings;
+    }
+    visiting.add(node.id);
+
+    for (const connection of this.connections.values()) {
+      if (connection.toNode !== node.id || connection.id === excludeConnectionId) {
+        continue;
+      }
+      const sourceNode = this.nodes.get(connection.fromNode);
+      const sourcePort = sourceNode?.outputs.find(port => port.id === connection.fromPort);
+      const targetPort = node.inputs.find(port => port.id === connection.toPort);
+      if (!sourceNode || !sourcePort || !targetPort) {
+        continue;
+      }
+
+      const attempt = new Map(bindings);
+      const sourceType = this.resolvePortType(sourceNode, sourcePort.dataType, visiting);
+      if (checkAssignable(sourceType, targetPort.dataType, attempt) === undefined) {
+        attempt.forEach((type, parameter) => bindings.set(parameter, type));
+      }
+    }
+
+    visiting.delete(node.id);
+    return bindings;
+  }
+
+
   /**
    * Handle node execution errors
    */
@@ -393,8 +1618,8 @@ export class NodeExecutor extends EventEmitter {
   /**
    * Emit a node event
    */
-  private emitEvent(type: NodeEventType, data: any): void {
-    const event: NodeEvent = {
+  private emitEvent<K extends NodeEventType>(type: K, data: NodeEventMap[K]): void {
+    const event: NodeEvent<NodeEventMap[K]> = {
       type,
       timestamp: new Date(),
       data
@@ -402,6 +1627,27 @@ export class NodeExecutor extends EventEmitter {
     this.emit(type, event);
   }
 
+  /**
+   * Listen to an event; the listener receives the event's data typed by NodeEventMap
+   */
+  public on<K extends NodeEventName>(type: K, listener: NodeEventListener<K>): this {
+    return super.on(type, listener);
+  }
+
+  /**
+   * Listen to the next occurrence of an event
+   */
+  public once<K extends NodeEventName>(type: K, listener: NodeEventListener<K>): this {
+    return super.once(type, listener);
+  }
+
+  /**
+   * Remove a listener
+   */
+  public off<K extends NodeEventName>(type: K, listener: NodeEventListener<K>): this {
+    return super.off(type, listener);
+  }
+
   /**
    * Get all nodes
    */
@@ -409,6 +1655,22 @@ export class NodeExecutor extends EventEmitter {
     return Array.from(this.nodes.values());
   }
 
+  /**
+   * Get a node by id
+   */
+  public getNode(nodeId: NodeId): INode | undefined {
+    return this.nodes.get(nodeId);
+  }
+
+  /**
+   * Type of a port with the node's generic parameters bound from its connections
+   */
+  public getResolvedPortType(nodeId: NodeId, portId: PortId): DataType | undefined {
+    const node = this.nodes.get(nodeId);
+    const port = node?.outputs.find(output => output.id === portId) ?? node?.inputs.find(input => input.id === portId);
+    return node && port ? this.resolvePortType(node, port.dataType) : undefined;
+  }
+
   /**
    * Get all connections
    */
@@ -417,9 +1679,68 @@ export class NodeExecutor extends EventEmitter {
   }
 
   /**
-   * Get execution results
+   * Get execution results for a run (defaults to the most recent run)
+   */
+  public getExecutionResults(executionId?: ExecutionId): Map<NodeId, ExecutionResult> {
+    const run = this.getRun(executionId ?? this.lastExecutionId);
+    return run ? run.getResults() : new Map();
+  }
+
+  /**
+   * Get a run by its execution id
+   */
+  public getRun(executionId?: ExecutionId): ExecutionRun | undefined {
+    return executionId ? this.runs.get(executionId) : undefined;
+  }
+
+  /**
+   * Get the most recently started run
+   */
+  public getLastRun(): ExecutionRun | undefined {
+    return this.getRun(this.lastExecutionId);
+  }
+
+  /**
+   * Get all retained runs, oldest first
+   */
+  public getRuns(): ExecutionRun[] {
+    return Array.from(this.runs.values());
+  }
+
+  /**
+   * Forget all finished runs
+   */
+  public clearRuns(): void {
+    for (const [executionId, run] of this.runs) {
+      if (!run.isRunning()) {
+        this.runs.delete(executionId);
+      }
+    }
+  }
+
+  /**
+   * Start a debug session; runs pause at its breakpoints until resumed
+   */
+  public startDebugSession(): DebugSession {
+    if (this.debugSession?.isActive()) {
+      throw new Error('A debug session is already active on this executor');
+    }
+    this.debugSession = new DebugSession((type, data) => this.emitEvent(type, data));
+    return this.debugSession;
+  }
+
+  /**
+   * Get the active debug session, if any
+   */
+  public getDebugSession(): DebugSession | undefined {
+    return this.debugSession?.isActive() ? this.debugSession : undefined;
+  }
+
+  /**
+   * End the active debug session, resuming any paused node
    */
-  public getExecutionResults(): Map<NodeId, ExecutionResult> {
-    return new Map(this.executionResults);
+  public endDebugSession(): void {
+    this.debugSession?.end();
+    this.debugSession = undefined;
   }
-}
\ No newline at end of file
+}
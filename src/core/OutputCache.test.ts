@@ -0,0 +1,84 @@
+import { NodeExecutor } from './NodeExecutor';
+import { OutputCache } from './OutputCache';
+import { registerBuiltInNodes } from '../registry/registerBuiltInNodes';
+import { SwitchNode } from '../nodes/control/ControlFlowNodes';
+
+describe('OutputCache', () => {
+  beforeAll(() => {
+    registerBuiltInNodes();
+  });
+
+  it('evicts the least recently used entry', () => {
+    const cache = new OutputCache({ maxEntries: 2 });
+    cache.set('a', { outputs: new Map([['out', 1]]) });
+    cache.set('b', { outputs: new Map([['out', 2]]) });
+    cache.get('a');
+    cache.set('c', { outputs: new Map([['out', 3]]) });
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it('keys on input content regardless of key order', () => {
+    expect(OutputCache.createKey('utility.transform', new Map([['data', { a: 1, b: [1, 2] }]])))
+      .toBe(OutputCache.createKey('utility.transform', new Map([['data', { b: [1, 2], a: 1 }]])));
+    expect(OutputCache.createKey('utility.transform', new Map([['data', { a: 1 }]])))
+      .not.toBe(OutputCache.createKey('utility.transform', new Map([['data', { a: 2 }]])));
+  });
+
+  it('does not key inputs whose content is not known yet', () => {
+    expect(OutputCache.createKey('utility.transform', new Map([['data', Promise.resolve(1)]]))).toBeUndefined();
+  });
+
+  it('keys on node settings as well as inputs', () => {
+    const inputs = new Map([['key', 'a']]);
+    expect(OutputCache.createKey('control.switch', inputs, { cases: ['a', 'b'] }))
+      .not.toBe(OutputCache.createKey('control.switch', inputs, { cases: ['x', 'a'] }));
+    expect(OutputCache.createKey('control.switch', inputs, { cases: ['a', 'b'] }))
+      .toBe(OutputCache.createKey('control.switch', new Map([['key', 'a']]), { cases: ['a', 'b'] }));
+  });
+
+  it('does not share outputs between differently configured nodes of one type', async () => {
+    const cache = new OutputCache();
+    const executor = new NodeExecutor({ cache });
+    executor.addNode(new SwitchNode({ id: 's1', cases: ['a', 'b'] }));
+    executor.addNode(new SwitchNode({ id: 's2', cases: ['x', 'a'] }));
+
+    const results = await executor.execute(new Map([
+      ['s1', new Map([['key', 'a']])],
+      ['s2', new Map([['key', 'a']])]
+    ]));
+
+    const s2 = results.get('s2')!;
+    expect(s2.cacheHit).toBeFalsy();
+    expect(s2.outputs!.get('a')).toBe('a');
+    expect(s2.inactiveOutputs).toEqual(expect.arrayContaining(['x', 'default']));
+    expect(s2.inactiveOutputs).not.toContain('b');
+  });
+
+  it('reuses outputs of identically configured nodes', async () => {
+    const cache = new OutputCache();
+    const executor = new NodeExecutor({ cache });
+    executor.addNode(new SwitchNode({ id: 's1', cases: ['a', 'b'] }));
+    executor.addNode(new SwitchNode({ id: 's2', cases: ['a', 'b'] }));
+
+    const results = await executor.execute(new Map([
+      ['s1', new Map([['key', 'a']])],
+      ['s2', new Map([['key', 'a']])]
+    ]));
+
+    const hits = [results.get('s1')!, results.get('s2')!].filter(result => result.cacheHit);
+    expect(hits).toHaveLength(1);
+    expect(cache.getStats().hits).toBe(1);
+  });
+
+  it('drops every entry of an invalidated type', () => {
+    const cache = new OutputCache();
+    cache.set(OutputCache.createKey('control.switch', new Map([['key', 'a']]))!, { outputs: new Map() });
+    cache.set(OutputCache.createKey('control.branch', new Map([['condition', true]]))!, { outputs: new Map() });
+
+    expect(cache.invalidateType('control.switch')).toBe(1);
+    expect(cache.getStats().size).toBe(1);
+  });
+});
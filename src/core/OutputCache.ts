@@ -0,0 +1,181 @@
+import { PortId } from '../types';
+import { stableHash } from './hash';
+
+/**
+ * Output cache configuration
+ */
+export interface OutputCacheConfig {
+  /** Maximum number of cached results; the least recently used are evicted first */
+  maxEntries: number;
+  /** Time in ms after which a cached result expires (never when undefined) */
+  ttl?: number;
+}
+
+/**
+ * Default output cache configuration
+ */
+export const DEFAULT_OUTPUT_CACHE_CONFIG: OutputCacheConfig = {
+  maxEntries: 1000
+};
+
+/**
+ * Outputs stored for one cache key
+ */
+export interface CachedOutputs {
+  outputs: Map<PortId, any>;
+  inactiveOutputs?: PortId[];
+}
+
+/**
+ * Output cache statistics
+ */
+export interface OutputCacheStats {
+  size: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+}
+
+interface CacheEntry {
+  value: CachedOutputs;
+  storedAt: number;
+}
+
+/**
+ * LRU cache of node outputs keyed on node type and inputs
+ * Give one to a NodeExecutor (config.cache) to skip re-running cacheable nodes
+ * whose inputs have not changed; it can be shared between executors
+ */
+export class OutputCache {
+  private config: OutputCacheConfig;
+  // Map iteration order doubles as recency order: oldest first
+  private entries: Map<string, CacheEntry> = new Map();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor(config: Partial<OutputCacheConfig> = {}) {
+    this.config = { ...DEFAULT_OUTPUT_CACHE_CONFIG, ...config };
+
+    if (this.config.maxEntries < 1) {
+      throw new Error('maxEntries must be at least 1');
+    }
+  }
+
+  /**
+   * Build the cache key for a node type, its inputs and its settings
+   * Settings are the node's config besides id, name and description (see INode.getConfig),
+   * so differently configured nodes of one type do not share entries
+   * Returns undefined when an input cannot be hashed (promises, streams, circular values)
+   */
+  static createKey(
+    nodeType: string,
+    inputs: Map<PortId, any>,
+    settings: Record<string, any> = {}
+  ): string | undefined {
+    const hash = stableHash([settings, inputs]);
+    return hash === undefined ? undefined : `${nodeType}:${hash}`;
+  }
+
+  /**
+   * Look up cached outputs, refreshing their recency
+   */
+  get(key: string): CachedOutputs | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (this.isExpired(entry)) {
+      this.entries.delete(key);
+      this.expirations++;
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+
+    return {
+      outputs: new Map(entry.value.outputs),
+      inactiveOutputs: entry.value.inactiveOutputs && [...entry.value.inactiveOutputs]
+    };
+  }
+
+  /**
+   * Store outputs, evicting the least recently used entries when full
+   */
+  set(key: string, value: CachedOutputs): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value: {
+        outputs: new Map(value.outputs),
+        inactiveOutputs: value.inactiveOutputs && [...value.inactiveOutputs]
+      },
+      storedAt: Date.now()
+    });
+
+    while (this.entries.size > this.config.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Check whether a live entry exists, without affecting recency or statistics
+   */
+  has(key: string): boolean {
+    const entry = this.entries.get(key);
+    return entry !== undefined && !this.isExpired(entry);
+  }
+
+  /**
+   * Remove one entry
+   */
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Remove every entry of a node type
+   */
+  invalidateType(nodeType: string): number {
+    let removed = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(`${nodeType}:`)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): OutputCacheStats {
+    return {
+      size: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expirations: this.expirations
+    };
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    return this.config.ttl !== undefined && Date.now() - entry.storedAt > this.config.ttl;
+  }
+}
@@ -0,0 +1,141 @@
+import { NodeExecutor, NodeExecutorConfig } from './NodeExecutor';
+import { ReadyQueueScheduler } from './Scheduler';
+import { StreamMapNode, StreamReduceNode } from '../nodes/functional/FunctionalNodes';
+import { ExecutionStatus, NodeId } from '../types';
+
+describe('ReadyQueueScheduler', () => {
+  it('respects maxConcurrency', async () => {
+    const scheduler = new ReadyQueueScheduler({ maxConcurrency: 2 });
+    let running = 0;
+    let peak = 0;
+
+    await scheduler.run({
+      nodeIds: ['a', 'b', 'c', 'd'],
+      getDependencies: () => [],
+      getCategory: () => undefined
+    }, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it('respects per-category limits', async () => {
+    const scheduler = new ReadyQueueScheduler({ categoryConcurrency: { Async: 1 } });
+    const running = new Set<NodeId>();
+    let peakAsync = 0;
+
+    await scheduler.run({
+      nodeIds: ['a1', 'a2', 'm1', 'm2'],
+      getDependencies: () => [],
+      getCategory: nodeId => nodeId.startsWith('a') ? 'Async' : 'Math'
+    }, async nodeId => {
+      running.add(nodeId);
+      peakAsync = Math.max(peakAsync, [...running].filter(id => id.startsWith('a')).length);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running.delete(nodeId);
+    });
+
+    expect(peakAsync).toBe(1);
+  });
+
+  it('starts a node as soon as its own dependencies finish', async () => {
+    const scheduler = new ReadyQueueScheduler();
+    const finished: NodeId[] = [];
+
+    await scheduler.run({
+      nodeIds: ['slow', 'fast', 'afterFast'],
+      getDependencies: nodeId => nodeId === 'afterFast' ? ['fast'] : [],
+      getCategory: () => undefined
+    }, async nodeId => {
+      await new Promise(resolve => setTimeout(resolve, nodeId === 'slow' ? 30 : 1));
+      finished.push(nodeId);
+    });
+
+    expect(finished).toEqual(['fast', 'afterFast', 'slow']);
+  });
+
+  it('starts nodes that bypass the limits alongside limited ones', async () => {
+    const scheduler = new ReadyQueueScheduler({ maxConcurrency: 1 });
+    const started: NodeId[] = [];
+    let release!: () => void;
+    const blocked = new Promise<void>(resolve => { release = resolve; });
+
+    const run = scheduler.run({
+      nodeIds: ['a', 'b'],
+      getDependencies: () => [],
+      getCategory: () => undefined,
+      bypassesLimits: nodeId => nodeId === 'b'
+    }, async nodeId => {
+      started.push(nodeId);
+      if (nodeId === 'a') {
+        await blocked;
+      }
+    });
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(started).toEqual(['a', 'b']);
+    release();
+    await run;
+  });
+});
+
+describe('split streams in parallel execution', () => {
+  const items = Array.from({ length: 20 }, (_, i) => i + 1);
+  const total = items.reduce((sum, item) => sum + item, 0);
+
+  const buildExecutor = (config: Partial<NodeExecutorConfig>): NodeExecutor => {
+    const executor = new NodeExecutor({ streamBufferSize: 2, ...config });
+    executor.addNode(new StreamMapNode({ id: 'source' }));
+    executor.addNode(new StreamReduceNode({ id: 'sum1' }));
+    executor.addNode(new StreamReduceNode({ id: 'sum2' }));
+    executor.addConnection({ id: 'c1', fromNode: 'source', fromPort: 'result', toNode: 'sum1', toPort: 'stream' });
+    executor.addConnection({ id: 'c2', fromNode: 'source', fromPort: 'result', toNode: 'sum2', toPort: 'stream' });
+    return executor;
+  };
+
+  const inputs = (): Map<NodeId, Map<string, any>> => {
+    const add = (sum: number, item: number) => sum + item;
+    return new Map<NodeId, Map<string, any>>([
+      ['source', new Map<string, any>([['stream', items], ['function', (item: number) => item]])],
+      ['sum1', new Map<string, any>([['reducer', add], ['initial', 0]])],
+      ['sum2', new Map<string, any>([['reducer', add], ['initial', 0]])]
+    ]);
+  };
+
+  it('does not deadlock when maxConcurrency keeps consumers apart', async () => {
+    const results = await buildExecutor({ maxConcurrency: 1 }).executeParallel(inputs(), { timeout: 5000 });
+
+    expect(results.get('sum1')!.status).toBe(ExecutionStatus.SUCCESS);
+    expect(results.get('sum1')!.outputs!.get('result')).toBe(total);
+    expect(results.get('sum2')!.outputs!.get('result')).toBe(total);
+  });
+
+  it('does not deadlock when a category limit keeps consumers apart', async () => {
+    const executor = buildExecutor({
+      categoryConcurrency: { Streams: 1 },
+      getNodeCategory: () => 'Streams'
+    });
+    const results = await executor.executeParallel(inputs(), { timeout: 5000 });
+
+    expect(results.get('sum1')!.outputs!.get('result')).toBe(total);
+    expect(results.get('sum2')!.outputs!.get('result')).toBe(total);
+  });
+
+  it('does not deadlock when one consumer takes the result of another', async () => {
+    for (const mode of ['execute', 'executeParallel'] as const) {
+      const executor = buildExecutor({});
+      executor.addConnection({ id: 'c3', fromNode: 'sum1', fromPort: 'result', toNode: 'sum2', toPort: 'initial' });
+      const initialInputs = inputs();
+      initialInputs.get('sum2')!.delete('initial');
+
+      const results = await executor[mode](initialInputs, { timeout: 5000 });
+
+      expect(results.get('sum1')!.outputs!.get('result')).toBe(total);
+      expect(results.get('sum2')!.outputs!.get('result')).toBe(2 * total);
+    }
+  });
+});
@@ -0,0 +1,158 @@
+import { NodeId } from '../types';
+
+/**
+ * Concurrency limits for the ready-queue scheduler
+ */
+export interface SchedulerConfig {
+  /** Maximum number of nodes running at once */
+  maxConcurrency: number;
+  /** Maximum number of running nodes per category (e.g. { Async: 4 }) */
+  categoryConcurrency: Record<string, number>;
+}
+
+/**
+ * Default scheduler configuration (no limits)
+ */
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  maxConcurrency: Infinity,
+  categoryConcurrency: {}
+};
+
+/**
+ * Graph view the scheduler works on
+ */
+export interface SchedulableGraph {
+  /** Nodes to run, in their preferred start order */
+  nodeIds: NodeId[];
+  /** Nodes that must finish before the given node can start */
+  getDependencies: (nodeId: NodeId) => NodeId[];
+  /** Category used for per-category limits */
+  getCategory: (nodeId: NodeId) => string | undefined;
+  /**
+   * Nodes started as soon as they are ready, outside the concurrency and category limits
+   * (e.g. consumers of a split stream, which can only make progress side by side)
+   */
+  bypassesLimits?: (nodeId: NodeId) => boolean;
+}
+
+/**
+ * Dependency-counting scheduler
+ * Starts each node as soon as all of its own dependencies have finished,
+ * within the global and per-category concurrency limits
+ */
+export class ReadyQueueScheduler {
+  private config: SchedulerConfig;
+
+  constructor(config: Partial<SchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
+  }
+
+  /**
+   * Run every node of the graph, resolving once all of them have finished
+   */
+  run(graph: SchedulableGraph, executeFn: (nodeId: NodeId) => Promise<void>): Promise<void> {
+    const pendingDependencies = new Map<NodeId, number>();
+    const dependents = new Map<NodeId, NodeId[]>();
+    const ready: NodeId[] = [];
+
+    for (const nodeId of graph.nodeIds) {
+      const dependencies = new Set(graph.getDependencies(nodeId));
+      pendingDependencies.set(nodeId, dependencies.size);
+      dependencies.forEach(dep => {
+        const list = dependents.get(dep) || [];
+        list.push(nodeId);
+        dependents.set(dep, list);
+      });
+      if (dependencies.size === 0) {
+        ready.push(nodeId);
+      }
+    }
+
+    const runningByCategory = new Map<string, number>();
+    let running = 0;
+    // Running nodes that count against maxConcurrency
+    let limited = 0;
+    let finished = 0;
+
+    return new Promise<void>((resolve, reject) => {
+      let failed = false;
+
+      const hasCategorySlot = (category: string | undefined): boolean => {
+        if (category === undefined) {
+          return true;
+        }
+        const limit = this.config.categoryConcurrency[category];
+        return limit === undefined || (runningByCategory.get(category) || 0) < limit;
+      };
+
+      const pump = (): void => {
+        if (failed) {
+          return;
+        }
+
+        // Start every ready node that fits; nodes blocked by a category limit don't block others
+        for (let i = 0; i < ready.length; ) {
+          const nodeId = ready[i];
+          if (graph.bypassesLimits?.(nodeId)) {
+            ready.splice(i, 1);
+            start(nodeId, undefined, false);
+            continue;
+          }
+          const category = graph.getCategory(nodeId);
+          if (limited >= this.config.maxConcurrency || !hasCategorySlot(category)) {
+            i++;
+            continue;
+          }
+          ready.splice(i, 1);
+          start(nodeId, category, true);
+        }
+
+        if (running === 0 && ready.length === 0) {
+          if (finished < graph.nodeIds.length) {
+            const stuck = graph.nodeIds.find(nodeId => (pendingDependencies.get(nodeId) || 0) > 0);
+            failed = true;
+            reject(new Error(`Circular dependency detected involving node ${stuck}`));
+          } else {
+            resolve();
+          }
+        }
+      };
+
+      const start = (nodeId: NodeId, category: string | undefined, counted: boolean): void => {
+        running++;
+        if (counted) {
+          limited++;
+        }
+        if (category !== undefined) {
+          runningByCategory.set(category, (runningByCategory.get(category) || 0) + 1);
+        }
+
+        executeFn(nodeId).then(() => {
+          running--;
+          if (counted) {
+            limited--;
+          }
+          finished++;
+          if (category !== undefined) {
+            runningByCategory.set(category, runningByCategory.get(category)! - 1);
+          }
+
+          for (const dependent of dependents.get(nodeId) || []) {
+            const remaining = pendingDependencies.get(dependent)! - 1;
+            pendingDependencies.set(dependent, remaining);
+            if (remaining === 0) {
+              ready.push(dependent);
+            }
+          }
+
+          pump();
+        }, error => {
+          failed = true;
+          reject(error);
+        });
+      };
+
+      pump();
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import { BaseNode } from './BaseNode';
+import { ExecutionContext, NodeConfig, PortId } from '../types';
+import { isAsyncIterable, toAsyncIterable } from './streams';
+
+/**
+ * Returned from processItem to drop an item from the output stream
+ */
+export const SKIP_ITEM = Symbol('skipItem');
+
+/**
+ * Base class for nodes that process a stream one item at a time
+ * The node returns immediately with a lazy output stream; each item is processed
+ * only when a downstream consumer pulls it, so items are pipelined through the graph
+ */
+export abstract class StreamingNode extends BaseNode {
+  protected readonly streamInput: PortId;
+  protected readonly streamOutput: PortId;
+
+  constructor(config: NodeConfig, streamInput: PortId = 'stream', streamOutput: PortId = 'result') {
+    super(config);
+    this.streamInput = streamInput;
+    this.streamOutput = streamOutput;
+  }
+
+  /**
+   * Process one item; return SKIP_ITEM to leave it out of the output stream
+   */
+  protected abstract processItem(item: any, index: number, context: ExecutionContext): any | Promise<any>;
+
+  /**
+   * Check the node's other inputs before streaming starts, so bad inputs fail this node
+   * rather than the consumer pulling the stream
+   */
+  protected beforeStream(context: ExecutionContext): void {}
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    const outputs = new Map<PortId, any>();
+
+    const source = this.getStreamInput(context, this.streamInput);
+    this.beforeStream(context);
+
+    this.setOutput(outputs, this.streamOutput, this.processStream(source, context));
+
+    return outputs;
+  }
+
+  /**
+   * Helper method to read an input as a stream, accepting arrays and other iterables
+   */
+  protected getStreamInput(context: ExecutionContext, portId: PortId): AsyncIterable<any> {
+    const value = context.inputs.get(portId);
+
+    if (isAsyncIterable(value)) {
+      return value;
+    }
+
+    if (value !== null && value !== undefined && typeof value[Symbol.iterator] === 'function' && typeof value !== 'string') {
+      return toAsyncIterable(value);
+    }
+
+    throw new Error(`Input '${portId}' must be a stream or an array`);
+  }
+
+  private async *processStream(source: AsyncIterable<any>, context: ExecutionContext): AsyncGenerator<any> {
+    let index = 0;
+    for await (const item of source) {
+      const result = await this.processItem(item, index++, context);
+      if (result !== SKIP_ITEM) {
+        yield result;
+      }
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  INode,
+  NodeId,
+  ExecutionId,
+  ExecutionResult,
+  ExecutionStatus,
+  Connection,
+  NodeError,
+  NodeEvent,
+  NodeEventType
+} from '../types';
+import { RunStatus } from './ExecutionRun';
+import { PausedState, BreakpointPhase, DebugResumeAction } from './DebugSession';
+import { RunMode } from '../history/HistoryStore';
+
+/**
+ * Summary of a finished run, sent with RUN_COMPLETED
+ */
+export interface RunSummary {
+  executionId: ExecutionId;
+  graphName?: string;
+  mode: RunMode;
+  status: RunStatus;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  /** Number of nodes per final status */
+  nodeCounts: Record<ExecutionStatus, number>;
+  /** Nodes whose outputs were reused (output cache or incremental run) */
+  cacheHits: number;
+  /** Why the run failed, was cancelled or timed out */
+  error?: Error;
+}
+
+/**
+ * Data carried by each executor event type
+ */
+export interface NodeEventMap {
+  [NodeEventType.RUN_STARTED]: {
+    executionId: ExecutionId;
+    graphName?: string;
+    mode: RunMode;
+    /** Execution being replayed */
+    replayOf?: ExecutionId;
+  };
+  [NodeEventType.RUN_COMPLETED]: RunSummary;
+  [NodeEventType.EXECUTION_STARTED]: { nodeId: NodeId; executionId: ExecutionId };
+  [NodeEventType.EXECUTION_COMPLETED]: { nodeId: NodeId; executionId: ExecutionId; result: ExecutionResult };
+  /** A node failed, was cancelled or timed out */
+  [NodeEventType.EXECUTION_FAILED]: {
+    nodeId: NodeId;
+    executionId: ExecutionId;
+    error?: NodeError;
+    result: ExecutionResult;
+  };
+  /** A node did not run because an upstream node failed (SKIPPED) or its branch was not taken (INACTIVE) */
+  [NodeEventType.NODE_SKIPPED]: {
+    nodeId: NodeId;
+    executionId: ExecutionId;
+    status: ExecutionStatus.SKIPPED | ExecutionStatus.INACTIVE;
+    causedBy?: NodeId;
+    result: ExecutionResult;
+  };
+  [NodeEventType.NODE_RETRYING]: {
+    nodeId: NodeId;
+    executionId: ExecutionId;
+    /** Number of the retry about to start (1 for the first retry) */
+    attempt: number;
+    error: Error;
+    /** Delay in ms before the retry */
+    delay: number;
+  };
+  [NodeEventType.NODE_ADDED]: { node: INode };
+  [NodeEventType.NODE_REMOVED]: { nodeId: NodeId };
+  [NodeEventType.CONNECTION_ADDED]: { connection: Connection };
+  [NodeEventType.CONNECTION_REMOVED]: { connectionId: string };
+  [NodeEventType.DEBUG_PAUSED]: PausedState;
+  [NodeEventType.DEBUG_RESUMED]: {
+    executionId: ExecutionId;
+    nodeId: NodeId;
+    phase: BreakpointPhase;
+    action: DebugResumeAction;
+  };
+}
+
+/**
+ * An event type, as the enum member or its string value
+ */
+export type NodeEventName = NodeEventType | `${NodeEventType}`;
+
+/**
+ * Event of a given type
+ */
+export interface TypedNodeEvent<K extends NodeEventName> extends NodeEvent<NodeEventMap[Extract<NodeEventType, K>]> {
+  type: Extract<NodeEventType, K>;
+}
+
+/**
+ * Listener for events of a given type
+ */
+export type NodeEventListener<K extends NodeEventName> = (event: TypedNodeEvent<K>) => void;
@@ -0,0 +1,51 @@
+import { stableHash, stableSerialize } from './hash';
+
+describe('stableSerialize', () => {
+  it('ignores object key order', () => {
+    expect(stableSerialize({ a: 1, b: [2, 3] })).toBe(stableSerialize({ b: [2, 3], a: 1 }));
+  });
+
+  it('serializes Maps and Sets by content', () => {
+    expect(stableSerialize(new Map([['a', 1], ['b', 2]]))).toBe(stableSerialize(new Map([['b', 2], ['a', 1]])));
+    expect(stableSerialize(new Set([1, 2]))).not.toBe(stableSerialize(new Set([1, 3])));
+  });
+
+  it('distinguishes regular expressions', () => {
+    expect(stableHash(/a/)).not.toBe(stableHash(/b/));
+    expect(stableHash(/a/g)).not.toBe(stableHash(/a/));
+    expect(stableHash(/a/)).not.toBe(stableHash({}));
+  });
+
+  it('distinguishes binary data by content', () => {
+    expect(stableHash(Buffer.from('ab'))).not.toBe(stableHash(Buffer.from('ac')));
+    expect(stableHash(new Uint8Array([1, 2]))).toBe(stableHash(new Uint8Array([1, 2])));
+    expect(stableHash(new Uint8Array([1, 2]))).not.toBe(stableHash(new Int8Array([1, 2])));
+  });
+
+  it('tags class instances with their constructor', () => {
+    class Point {
+      constructor(public x: number, public y: number) {}
+    }
+    expect(stableSerialize(new Point(1, 2))).toBe(stableSerialize(new Point(1, 2)));
+    expect(stableSerialize(new Point(1, 2))).not.toBe(stableSerialize({ x: 1, y: 2 }));
+  });
+
+  it('cannot serialize instances whose state is hidden', () => {
+    class Counter {
+      #count = 0;
+      increment(): number {
+        return ++this.#count;
+      }
+    }
+    expect(stableSerialize(new Counter())).toBeUndefined();
+    expect(stableSerialize(new WeakMap())).toBeUndefined();
+    expect(stableHash({ counter: new Counter() })).toBeUndefined();
+  });
+
+  it('cannot serialize promises or circular values', () => {
+    const circular: any = { a: 1 };
+    circular.self = circular;
+    expect(stableSerialize(Promise.resolve(1))).toBeUndefined();
+    expect(stableSerialize(circular)).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+
+/**
+ * Deterministic hashing of values, used to detect repeated or changed inputs
+ */
+
+// Functions cannot be compared by value, so each function object gets a stable identity
+const functionIds = new WeakMap<Function, number>();
+let nextFunctionId = 1;
+
+/**
+ * Serialize a value deterministically (object keys sorted, Maps/Sets by content)
+ * Class instances are tagged with their constructor name; returns undefined for values whose
+ * content cannot be captured, including instances without enumerable own properties
+ */
+export function stableSerialize(value: any, seen: Set<any> = new Set()): string | undefined {
+  if (value === undefined) {
+    return 'undefined';
+  }
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'number') {
+    return Number.isNaN(value) ? 'NaN' : String(value);
+  }
+  if (typeof value === 'bigint') {
+    return `${value}n`;
+  }
+  if (typeof value === 'function') {
+    if (!functionIds.has(value)) {
+      functionIds.set(value, nextFunctionId++);
+    }
+    return `fn#${functionIds.get(value)}`;
+  }
+  if (typeof value !== 'object') {
+    return undefined;
+  }
+
+  // Promises and streams only yield their content later
+  if (typeof value.then === 'function' || typeof value[Symbol.asyncIterator] === 'function') {
+    return undefined;
+  }
+  if (seen.has(value)) {
+    return undefined;
+  }
+  if (value instanceof Date) {
+    return `date:${value.toISOString()}`;
+  }
+  if (value instanceof RegExp) {
+    return `regexp:${String(value)}`;
+  }
+  if (value instanceof ArrayBuffer) {
+    return `ArrayBuffer:${Buffer.from(value).toString('base64')}`;
+  }
+  if (ArrayBuffer.isView(value)) {
+    const bytes = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    return `${value.constructor.name}:${bytes.toString('base64')}`;
+  }
+
+  seen.add(value);
+  try {
+    const serializeAll = (items: any[]): string[] | undefined => {
+      const parts: string[] = [];
+      for (const item of items) {
+        const part = stableSerialize(item, seen);
+        if (part === undefined) {
+          return undefined;
+        }
+        parts.push(part);
+      }
+      return parts;
+    };
+
+    if (Array.isArray(value)) {
+      const parts = serializeAll(value);
+      return parts && `[${parts.join(',')}]`;
+    }
+
+    if (value instanceof Map) {
+      const parts = serializeAll(Array.from(value.entries()));
+      return parts && `map{${parts.sort().join(',')}}`;
+    }
+
+    if (value instanceof Set) {
+      const parts = serializeAll(Array.from(value.values()));
+      return parts && `set{${parts.sort().join(',')}}`;
+    }
+
+    const keys = Object.keys(value).sort();
+    const prototype = Object.getPrototypeOf(value);
+    const isPlain = prototype === Object.prototype || prototype === null;
+    // The state of such instances lives in private fields or closures, out of reach
+    if (!isPlain && keys.length === 0) {
+      return undefined;
+    }
+
+    const parts = serializeAll(keys.map(key => value[key]));
+    const tag = isPlain ? '' : value.constructor?.name ?? 'Object';
+    return parts && `${tag}{${keys.map((key, i) => `${JSON.stringify(key)}:${parts[i]}`).join(',')}}`;
+  } finally {
+    seen.delete(value);
+  }
+}
+
+/**
+ * Hash a value by content (see stableSerialize); undefined when it cannot be hashed
+ */
+export function stableHash(value: any): string | undefined {
+  const serialized = stableSerialize(value);
+  return serialized === undefined
+    ? undefined
+    : createHash('sha256').update(serialized).digest('hex');
+}
@@ -0,0 +1,68 @@
+import { collectStream, teeStream, toAsyncIterable } from './streams';
+import { NodeExecutor } from './NodeExecutor';
+import { StreamFilterNode, StreamMapNode, StreamReduceNode } from '../nodes/functional/FunctionalNodes';
+import { NodeId, PortId } from '../types';
+
+describe('teeStream', () => {
+  it('gives every branch every item', async () => {
+    const [first, second] = teeStream(toAsyncIterable([1, 2, 3]), 2);
+
+    const [a, b] = await Promise.all([collectStream(first), collectStream(second)]);
+
+    expect(a).toEqual([1, 2, 3]);
+    expect(b).toEqual([1, 2, 3]);
+  });
+
+  it('pulls the source once per item and holds a fast branch at the buffer size', async () => {
+    let pulled = 0;
+    const source = async function* () {
+      for (let i = 0; i < 10; i++) {
+        pulled++;
+        yield i;
+      }
+    };
+    const [fast, slow] = teeStream(source(), 2, 3);
+
+    const fastItems: number[] = [];
+    const fastRun = (async () => {
+      for await (const item of fast) {
+        fastItems.push(item);
+      }
+    })();
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(fastItems).toEqual([0, 1, 2]);
+
+    expect(await collectStream(slow)).toHaveLength(10);
+    await fastRun;
+    expect(fastItems).toHaveLength(10);
+    expect(pulled).toBe(10);
+  });
+
+  it('stops buffering for a released branch', async () => {
+    const [released, kept] = teeStream(toAsyncIterable([1, 2, 3, 4, 5]), 2, 1);
+    released.release();
+
+    expect(await collectStream(kept)).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe('streaming execution', () => {
+  it('pipelines items through map, filter and reduce', async () => {
+    const map = new StreamMapNode();
+    const filter = new StreamFilterNode();
+    const reduce = new StreamReduceNode();
+    const executor = new NodeExecutor();
+    [map, filter, reduce].forEach(node => executor.addNode(node));
+    executor.addConnection({ id: 'c1', fromNode: map.id, fromPort: 'result', toNode: filter.id, toPort: 'stream' });
+    executor.addConnection({ id: 'c2', fromNode: filter.id, fromPort: 'result', toNode: reduce.id, toPort: 'stream' });
+
+    const results = await executor.executeParallel(new Map<NodeId, Map<PortId, any>>([
+      [map.id, new Map<PortId, any>([['stream', [1, 2, 3, 4]], ['function', (x: number) => x * 10]])],
+      [filter.id, new Map<PortId, any>([['predicate', (x: number) => x > 15]])],
+      [reduce.id, new Map<PortId, any>([['reducer', (sum: number, x: number) => sum + x], ['initial', 0]])]
+    ]));
+
+    expect(results.get(reduce.id)!.outputs!.get('result')).toBe(90);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Helpers for stream ports
+ * A stream is any AsyncIterable; items are pulled one at a time, so a slow consumer
+ * naturally holds back its producer (backpressure)
+ */
+
+/**
+ * Default number of items a tee buffers ahead of its slowest branch
+ */
+export const DEFAULT_STREAM_BUFFER_SIZE = 16;
+
+/**
+ * One consumer's view of a tee'd stream
+ */
+export interface StreamBranch<T> extends AsyncIterable<T> {
+  /** Give up on the branch so it no longer holds back the other branches */
+  release(): void;
+}
+
+/**
+ * Check whether a value is an async iterable
+ */
+export function isAsyncIterable(value: unknown): value is AsyncIterable<any> {
+  return value !== null &&
+    value !== undefined &&
+    typeof (value as any)[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Check whether a value is a stream branch
+ */
+export function isStreamBranch(value: unknown): value is StreamBranch<any> {
+  return isAsyncIterable(value) && typeof (value as any).release === 'function';
+}
+
+/**
+ * Turn an array or other iterable into a stream; streams are returned unchanged
+ */
+export function toAsyncIterable<T>(source: Iterable<T> | AsyncIterable<T>): AsyncIterable<T> {
+  if (isAsyncIterable(source)) {
+    return source;
+  }
+
+  return (async function* () {
+    yield* source as Iterable<T>;
+  })();
+}
+
+/**
+ * Wrap a stream so that pulling from it fails once the signal is aborted
+ */
+export function abortableStream<T>(source: AsyncIterable<T>, signal: AbortSignal): AsyncIterable<T> {
+  return (async function* () {
+    for await (const item of source) {
+      if (signal.aborted) {
+        throw signal.reason;
+      }
+      yield item;
+    }
+    if (signal.aborted) {
+      throw signal.reason;
+    }
+  })();
+}
+
+/**
+ * Read a whole stream into an array
+ */
+export async function collectStream<T>(source: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of source) {
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Split one stream into several independent branches
+ * The source is pulled once per item; a branch may run at most `bufferSize` items
+ * ahead of the slowest unreleased branch before it waits
+ */
+export function teeStream<T>(
+  source: AsyncIterable<T>,
+  count: number,
+  bufferSize: number = DEFAULT_STREAM_BUFFER_SIZE
+): StreamBranch<T>[] {
+  const iterator = source[Symbol.asyncIterator]();
+  // Items pulled from the source that some branch has not read yet; buffer[0] has index `base`
+  const buffer: IteratorResult<T>[] = [];
+  let base = 0;
+  const positions: number[] = new Array(count).fill(0);
+  const active: boolean[] = new Array(count).fill(true);
+  let pending: Promise<void> | undefined;
+  let failure: { error: unknown } | undefined;
+  let waiters: Array<() => void> = [];
+
+  const notify = () => {
+    const ready = waiters;
+    waiters = [];
+    ready.forEach(resolve => resolve());
+  };
+
+  // Drop items every active branch has read
+  const trim = () => {
+    const live = positions.filter((_, i) => active[i]);
+    const slowest = live.length > 0 ? Math.min(...live) : base + buffer.length;
+    buffer.splice(0, slowest - base);
+    base = Math.max(base, slowest);
+    notify();
+  };
+
+  const pull = (): Promise<void> => {
+    if (!pending) {
+      pending = iterator.next()
+        .then(result => { buffer.push(result); }, error => { failure = { error }; })
+        .finally(() => {
+          pending = undefined;
+          notify();
+        });
+    }
+    return pending;
+  };
+
+  const release = (index: number) => {
+    if (!active[index]) {
+      return;
+    }
+    active[index] = false;
+    trim();
+    if (active.every(isActive => !isActive)) {
+      iterator.return?.();
+    }
+  };
+
+  const read = async function* (index: number): AsyncGenerator<T> {
+    try {
+      while (active[index]) {
+        const position = positions[index];
+        if (position < base + buffer.length) {
+          const result = buffer[position - base];
+          if (result.done) {
+            return;
+          }
+          positions[index]++;
+          trim();
+          yield result.value;
+          continue;
+        }
+
+        if (failure) {
+          throw failure.error;
+        }
+
+        if (buffer.length >= bufferSize) {
+          // A slower branch still needs the buffered items
+          await new Promise<void>(resolve => waiters.push(resolve));
+          continue;
+        }
+
+        await pull();
+      }
+    } finally {
+      release(index);
+    }
+  };
+
+  return positions.map((_, index) => ({
+    [Symbol.asyncIterator]: () => read(index),
+    release: () => release(index)
+  }));
+}
@@ -0,0 +1,57 @@
+import { ErrorBoundaryNode } from './ErrorHandlingNode';
+import { NodeExecutor } from '../core/NodeExecutor';
+import { BaseNode } from '../core/BaseNode';
+import { FailurePolicy } from '../core/ExecutionRun';
+import { DataTypes, ExecutionStatus, NodeConfig, PortId } from '../types';
+
+class FailingNode extends BaseNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Failing',
+      inputs: [],
+      outputs: [{ id: 'out', name: 'Out', dataType: DataTypes.NUMBER }]
+    });
+  }
+
+  protected async executeInternal(): Promise<Map<PortId, any>> {
+    throw new Error('boom');
+  }
+}
+
+describe('ErrorBoundaryNode', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('catches the failure of the connected upstream node', async () => {
+    const executor = new NodeExecutor({ failurePolicy: FailurePolicy.SKIP_DEPENDENTS });
+    executor.addNode(new FailingNode({ id: 'failing' }));
+    executor.addNode(new ErrorBoundaryNode({ id: 'boundary' }));
+    executor.addConnection({ id: 'c1', fromNode: 'failing', fromPort: 'out', toNode: 'boundary', toPort: 'value' });
+
+    const results = await executor.execute(new Map([['boundary', new Map([['defaultValue', 42]])]]));
+    const outputs = results.get('boundary')!.outputs!;
+
+    expect(results.get('boundary')!.status).toBe(ExecutionStatus.SUCCESS);
+    expect(outputs.get('hasError')).toBe(true);
+    expect(outputs.get('result')).toBe(42);
+    expect(outputs.get('error')).toMatchObject({ message: 'boom', nodeId: 'failing' });
+  });
+
+  it('passes the value through when upstream succeeds', async () => {
+    const executor = new NodeExecutor();
+    executor.addNode(new ErrorBoundaryNode({ id: 'boundary' }));
+
+    const results = await executor.execute(new Map([['boundary', new Map<PortId, any>([['value', 'ok'], ['defaultValue', 'fallback']])]]));
+    const outputs = results.get('boundary')!.outputs!;
+
+    expect(outputs.get('hasError')).toBe(false);
+    expect(outputs.get('result')).toBe('ok');
+  });
+});
@@ -4,6 +4,16 @@ import { RetryPolicy } from './RetryPolicy';
 import { CircuitBreaker } from './CircuitBreaker';
 import { DeadLetterQueue } from './DeadLetterQueue';
 
+/**
+ * ExecutionContext.metadata key holding how many attempts the retry policy made
+ */
+export const RETRY_ATTEMPTS_METADATA_KEY = 'retryAttempts';
+
+/**
+ * ExecutionContext.metadata key holding the circuit breaker state after execution
+ */
+export const CIRCUIT_STATE_METADATA_KEY = 'circuitState';
+
 /**
  * Error handling configuration for nodes
  */
@@ -79,7 +89,8 @@ export abstract class ErrorHandlingNode extends BaseNode {
             success: false,
             error: nodeError,
             executionTime
-          }
+          },
+          retryAttempts: context.metadata.get(RETRY_ATTEMPTS_METADATA_KEY)
         });
       }
       
@@ -110,7 +121,9 @@ export abstract class ErrorHandlingNode extends BaseNode {
    * Execute with retry, circuit breaker, and fallback support
    */
   private async executeWithErrorHandling(context: ExecutionContext): Promise<Map<PortId, any>> {
+    let attempts = 0;
     const executeFn = async () => {
+      attempts++;
       // Use circuit breaker if provided
       if (this.errorConfig.circuitBreaker) {
         return await this.errorConfig.circuitBreaker.execute(async () => {
@@ -126,7 +139,12 @@ export abstract class ErrorHandlingNode extends BaseNode {
       if (this.errorConfig.retryPolicy) {
         return await this.errorConfig.retryPolicy.execute(
           executeFn,
-          { nodeId: this.id, nodeName: this.name }
+          {
+            nodeId: this.id,
+            nodeName: this.name,
+            signal: context.signal,
+            onRetry: (error, attempt, delay) => context.onRetry?.(attempt, error, delay)
+          }
         );
       } else {
         return await executeFn();
@@ -140,6 +158,14 @@ export abstract class ErrorHandlingNode extends BaseNode {
       }
       
       throw error;
+    } finally {
+      // Reported to the executor's tracer on the node's span
+      if (this.errorConfig.retryPolicy) {
+        context.metadata.set(RETRY_ATTEMPTS_METADATA_KEY, attempts);
+      }
+      if (this.errorConfig.circuitBreaker) {
+        context.metadata.set(CIRCUIT_STATE_METADATA_KEY, this.errorConfig.circuitBreaker.getState());
+      }
     }
   }
 
@@ -162,6 +188,7 @@ export abstract class ErrorHandlingNode extends BaseNode {
  * Error Boundary Node - catches errors from connected nodes
  */
 export class ErrorBoundaryNode extends BaseNode {
+  public readonly isErrorBoundary = true;
   private caughtErrors: Map<string, Error> = new Map();
 
   constructor(config?: Partial<NodeConfig>) {
@@ -211,32 +238,33 @@ export class ErrorBoundaryNode extends BaseNode {
   protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
     const outputs = new Map<PortId, any>();
     
-    try {
-      const value = this.getInput<any>(context, 'value');
-      
-      // If we got a value, no error occurred upstream
-      this.setOutput(outputs, 'result', value);
+    // Upstream failures arrive through the error channel, not as input values
+    const upstreamError = this.getInputError(context, 'value');
+    
+    if (!upstreamError) {
+      // No error occurred upstream - pass the value through
+      this.setOutput(outputs, 'result', this.getInput<any>(context, 'value'));
       this.setOutput(outputs, 'hasError', false);
       this.setOutput(outputs, 'error', null);
-      
-    } catch (error) {
-      // Error occurred - use default value
-      const defaultValue = this.getInput<any>(context, 'defaultValue');
-      const errorObj = error instanceof Error ? error : new Error(String(error));
-      
-      this.caughtErrors.set(context.executionId, errorObj);
-      
-      this.setOutput(outputs, 'result', defaultValue);
-      this.setOutput(outputs, 'hasError', true);
-      this.setOutput(outputs, 'error', {
-        message: errorObj.message,
-        name: errorObj.name,
-        stack: errorObj.stack
-      });
-      
-      console.warn(`🛡️  Error Boundary caught error: ${errorObj.message}`);
+      return outputs;
     }
     
+    // Error occurred - use default value
+    const defaultValue = this.getInput<any>(context, 'defaultValue');
+    
+    this.caughtErrors.set(context.executionId, upstreamError);
+    
+    this.setOutput(outputs, 'result', defaultValue);
+    this.setOutput(outputs, 'hasError', true);
+    this.setOutput(outputs, 'error', {
+      message: upstreamError.message,
+      name: upstreamError.name,
+      nodeId: upstreamError.nodeId,
+      stack: upstreamError.stack
+    });
+    
+    console.warn(`🛡️  Error Boundary caught error: ${upstreamError.message}`);
+    
     return outputs;
   }
 
@@ -259,6 +287,8 @@ export class ErrorBoundaryNode extends BaseNode {
  * Fallback Node - provides alternative execution path
  */
 export class FallbackNode extends BaseNode {
+  public readonly isErrorBoundary = true;
+
   constructor(config?: Partial<NodeConfig>) {
     super({
       ...config,
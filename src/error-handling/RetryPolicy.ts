@@ -1,4 +1,5 @@
 import { NodeId, ExecutionContext, ExecutionResult } from '../types';
+import { abortableDelay } from '../core/abort';
 
 /**
  * Retry strategy configuration
@@ -46,11 +47,22 @@ export class RetryPolicy {
    */
   async execute<T>(
     fn: () => Promise<T>,
-    context?: { nodeId?: NodeId; nodeName?: string }
+    context?: {
+      nodeId?: NodeId;
+      nodeName?: string;
+      signal?: AbortSignal;
+      /** Called before each retry, in addition to the configured onRetry */
+      onRetry?: (error: Error, attempt: number, delay: number) => void;
+    }
   ): Promise<T> {
     let lastError: Error | undefined;
     
     for (let attempt = 0; attempt < this.config.maxAttempts; attempt++) {
+      // Never start another attempt once the execution is aborted
+      if (context?.signal?.aborted) {
+        throw context.signal.reason;
+      }
+      
       try {
         // Execute the function
         const result = await fn();
@@ -76,6 +88,7 @@ export class RetryPolicy {
         
         // Calculate delay for next attempt
         const delay = this.calculateDelay(attempt);
+        context?.onRetry?.(lastError, attempt + 1, delay);
         
         // Call retry callback if provided
         if (this.config.onRetry) {
@@ -88,7 +101,7 @@ export class RetryPolicy {
         }
         
         // Wait before retrying
-        await this.delay(delay);
+        await this.delay(delay, context?.signal);
       }
     }
     
@@ -137,8 +150,8 @@ export class RetryPolicy {
   /**
    * Delay helper
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return abortableDelay(ms, signal);
   }
 
   /**
@@ -28,5 +28,7 @@ export {
   ErrorHandlingNode,
   ErrorBoundaryNode,
   FallbackNode,
+  RETRY_ATTEMPTS_METADATA_KEY,
+  CIRCUIT_STATE_METADATA_KEY,
   type ErrorHandlingConfig
 } from './ErrorHandlingNode';
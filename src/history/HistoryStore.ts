@@ -0,0 +1,102 @@
+import { NodeId, PortId, ExecutionId, ExecutionStatus } from '../types';
+import { RunStatus } from '../core/ExecutionRun';
+
+/**
+ * How a recorded run traversed the graph
+ */
+export type RunMode = 'sequential' | 'parallel' | 'incremental';
+
+/**
+ * Serializable form of an error
+ */
+export interface RecordedError {
+  name: string;
+  message: string;
+  nodeId?: NodeId;
+  portId?: PortId;
+  stack?: string;
+}
+
+/**
+ * Recorded result of one node in a run
+ */
+export interface NodeRunRecord {
+  nodeId: NodeId;
+  nodeName?: string;
+  status: ExecutionStatus;
+  executionTime?: number;
+  outputs?: Map<PortId, any>;
+  error?: RecordedError;
+  causedBy?: NodeId;
+  cacheHit?: boolean;
+}
+
+/**
+ * Recorded run of a graph
+ */
+export interface RunRecord {
+  executionId: ExecutionId;
+  graphName?: string;
+  mode: RunMode;
+  status: RunStatus;
+  startTime: number;
+  endTime?: number;
+  duration: number;
+  /** Initial inputs exactly as given to the run */
+  initialInputs: Map<NodeId, Map<PortId, any>>;
+  nodes: NodeRunRecord[];
+  error?: RecordedError;
+  /** Execution the run replayed, if it was a replay */
+  replayOf?: ExecutionId;
+}
+
+/**
+ * Filter for querying recorded runs
+ */
+export interface HistoryQuery {
+  graphName?: string;
+  status?: RunStatus | RunStatus[];
+  /** Runs started at or after this time */
+  from?: Date | number;
+  /** Runs started at or before this time */
+  to?: Date | number;
+  /** Return at most this many runs (most recent first) */
+  limit?: number;
+}
+
+/**
+ * Storage for execution history
+ * Give one to a NodeExecutor (config.history) to record every run
+ */
+export interface HistoryStore {
+  /** Store a run record (replacing one with the same execution id) */
+  save(record: RunRecord): Promise<void>;
+  /** Get a run by execution id */
+  get(executionId: ExecutionId): Promise<RunRecord | undefined>;
+  /** Find runs matching a filter, most recent first */
+  query(query?: HistoryQuery): Promise<RunRecord[]>;
+  /** Remove a run */
+  delete(executionId: ExecutionId): Promise<boolean>;
+  /** Remove all runs */
+  clear(): Promise<void>;
+}
+
+/**
+ * Apply a history query to a list of records
+ */
+export function filterRunRecords(records: Iterable<RunRecord>, query: HistoryQuery = {}): RunRecord[] {
+  const statuses = query.status === undefined
+    ? undefined
+    : Array.isArray(query.status) ? query.status : [query.status];
+  const from = query.from === undefined ? undefined : new Date(query.from).getTime();
+  const to = query.to === undefined ? undefined : new Date(query.to).getTime();
+
+  const matches = Array.from(records)
+    .filter(record => query.graphName === undefined || record.graphName === query.graphName)
+    .filter(record => !statuses || statuses.includes(record.status))
+    .filter(record => from === undefined || record.startTime >= from)
+    .filter(record => to === undefined || record.startTime <= to)
+    .sort((a, b) => b.startTime - a.startTime);
+
+  return query.limit === undefined ? matches : matches.slice(0, query.limit);
+}
@@ -0,0 +1,117 @@
+import { InMemoryHistoryStore } from './InMemoryHistoryStore';
+import { RunRecord } from './HistoryStore';
+import { NodeExecutor } from '../core/NodeExecutor';
+import { RunStatus } from '../core/ExecutionRun';
+import { BaseNode } from '../core/BaseNode';
+import { DataTypes, ExecutionContext, ExecutionStatus, NodeConfig, NodeId, PortId } from '../types';
+
+class IncrementNode extends BaseNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Increment',
+      inputs: [{ id: 'in', name: 'In', dataType: DataTypes.NUMBER, required: true }],
+      outputs: [{ id: 'out', name: 'Out', dataType: DataTypes.NUMBER }]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    return new Map([['out', this.getInput<number>(context, 'in')! + 1]]);
+  }
+}
+
+const makeRecord = (executionId: string, startTime: number): RunRecord => ({
+  executionId,
+  graphName: 'graph',
+  mode: 'parallel',
+  status: RunStatus.COMPLETED,
+  startTime,
+  endTime: startTime + 1,
+  duration: 1,
+  initialInputs: new Map([['node', new Map([['in', 1]])]]),
+  nodes: [{ nodeId: 'node', status: ExecutionStatus.SUCCESS, outputs: new Map([['out', 2]]) }]
+});
+
+describe('InMemoryHistoryStore', () => {
+  it('evicts the oldest runs beyond maxRuns', async () => {
+    const store = new InMemoryHistoryStore({ maxRuns: 2 });
+    await store.save(makeRecord('a', 1));
+    await store.save(makeRecord('b', 2));
+    await store.save(makeRecord('c', 3));
+
+    expect(await store.get('a')).toBeUndefined();
+    expect((await store.query()).map(record => record.executionId)).toEqual(['c', 'b']);
+  });
+
+  it('filters runs by status and time, most recent first', async () => {
+    const store = new InMemoryHistoryStore();
+    await store.save(makeRecord('a', 1));
+    await store.save({ ...makeRecord('b', 2), status: RunStatus.FAILED });
+    await store.save(makeRecord('c', 3));
+
+    expect((await store.query({ status: RunStatus.COMPLETED })).map(record => record.executionId)).toEqual(['c', 'a']);
+    expect((await store.query({ from: 2, limit: 1 })).map(record => record.executionId)).toEqual(['c']);
+  });
+
+  it('replays a recorded run with its initial inputs', async () => {
+    const history = new InMemoryHistoryStore();
+    const executor = new NodeExecutor({ history });
+    executor.addNode(new IncrementNode({ id: 'node' }));
+
+    await executor.executeParallel(new Map([['node', new Map([['in', 1]])]]), { executionId: 'first' });
+
+    const first = (await history.get('first'))!;
+    expect(first.initialInputs.get('node')!.get('in')).toBe(1);
+    expect(first.nodes[0].outputs!.get('out')).toBe(2);
+
+    const replayed = await executor.replay('first', { executionId: 'again' });
+    expect(replayed.get('node')!.outputs!.get('out')).toBe(2);
+    expect((await history.get('again'))!.replayOf).toBe('first');
+  });
+
+  it('stores a copy of the saved record', async () => {
+    const store = new InMemoryHistoryStore();
+    const record = makeRecord('a', 1);
+    await store.save(record);
+
+    record.initialInputs.get('node')!.set('in', 10);
+    record.nodes[0].outputs!.set('out', 11);
+    record.nodes.push({ nodeId: 'other', status: ExecutionStatus.FAILED });
+
+    const stored = (await store.get('a'))!;
+    expect(stored.initialInputs.get('node')!.get('in')).toBe(1);
+    expect(stored.nodes).toHaveLength(1);
+    expect(stored.nodes[0].outputs!.get('out')).toBe(2);
+  });
+
+  it('returns copies that do not change the stored record', async () => {
+    const store = new InMemoryHistoryStore();
+    await store.save(makeRecord('a', 1));
+
+    const read = (await store.get('a'))!;
+    read.initialInputs.get('node')!.set('in', 10);
+    (await store.query())[0].nodes[0].outputs!.set('out', 11);
+
+    const stored = (await store.get('a'))!;
+    expect(stored.initialInputs.get('node')!.get('in')).toBe(1);
+    expect(stored.nodes[0].outputs!.get('out')).toBe(2);
+  });
+
+  it('keeps the inputs a run started with when the caller reuses its Map', async () => {
+    const history = new InMemoryHistoryStore();
+    const executor = new NodeExecutor({ history });
+    executor.addNode(new IncrementNode({ id: 'node' }));
+
+    const inputs = new Map<NodeId, Map<PortId, any>>([['node', new Map([['in', 1]])]]);
+    await executor.executeParallel(inputs, { executionId: 'first' });
+    inputs.get('node')!.set('in', 10);
+    await executor.executeParallel(inputs, { executionId: 'second' });
+
+    const first = (await history.get('first'))!;
+    expect(first.initialInputs.get('node')!.get('in')).toBe(1);
+    expect(first.nodes[0].outputs!.get('out')).toBe(2);
+
+    const replayed = await executor.replay('first');
+    expect(replayed.get('node')!.outputs!.get('out')).toBe(2);
+  });
+});
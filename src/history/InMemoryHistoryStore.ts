@@ -0,0 +1,76 @@
+import { ExecutionId, NodeId, PortId } from '../types';
+import { HistoryStore, HistoryQuery, RunRecord, filterRunRecords } from './HistoryStore';
+
+/**
+ * In-memory history store configuration
+ */
+export interface InMemoryHistoryConfig {
+  /** Maximum number of runs kept (oldest are evicted first) */
+  maxRuns: number;
+}
+
+/**
+ * Default in-memory history store configuration
+ */
+export const DEFAULT_IN_MEMORY_HISTORY_CONFIG: InMemoryHistoryConfig = {
+  maxRuns: 1000
+};
+
+/**
+ * History store keeping runs in memory
+ * Records keep the original input values, so any run can be replayed exactly;
+ * the record's maps and lists are copied when saved and when read, the values in them are kept as they are
+ */
+export class InMemoryHistoryStore implements HistoryStore {
+  private config: InMemoryHistoryConfig;
+  private records: Map<ExecutionId, RunRecord> = new Map();
+
+  constructor(config: Partial<InMemoryHistoryConfig> = {}) {
+    this.config = { ...DEFAULT_IN_MEMORY_HISTORY_CONFIG, ...config };
+  }
+
+  async save(record: RunRecord): Promise<void> {
+    this.records.delete(record.executionId);
+    this.records.set(record.executionId, copyRecord(record));
+
+    // Maps iterate in insertion order, so the oldest runs come first
+    while (this.records.size > this.config.maxRuns) {
+      this.records.delete(this.records.keys().next().value as ExecutionId);
+    }
+  }
+
+  async get(executionId: ExecutionId): Promise<RunRecord | undefined> {
+    const record = this.records.get(executionId);
+    return record && copyRecord(record);
+  }
+
+  async query(query?: HistoryQuery): Promise<RunRecord[]> {
+    return filterRunRecords(this.records.values(), query).map(copyRecord);
+  }
+
+  async delete(executionId: ExecutionId): Promise<boolean> {
+    return this.records.delete(executionId);
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
+
+/**
+ * Copy a record's maps and lists, so changes to a saved or returned object don't rewrite history
+ */
+function copyRecord(record: RunRecord): RunRecord {
+  return {
+    ...record,
+    initialInputs: new Map(
+      Array.from(record.initialInputs, ([nodeId, inputs]) => [nodeId, new Map(inputs)] as [NodeId, Map<PortId, any>])
+    ),
+    nodes: record.nodes.map(node => ({
+      ...node,
+      outputs: node.outputs && new Map(node.outputs),
+      error: node.error && { ...node.error }
+    })),
+    error: record.error && { ...record.error }
+  };
+}
@@ -0,0 +1,84 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonLinesHistoryStore, UnserializableValue } from './JsonLinesHistoryStore';
+import { RunRecord } from './HistoryStore';
+import { RunStatus } from '../core/ExecutionRun';
+import { ExecutionStatus } from '../types';
+
+const makeRecord = (executionId: string, startTime: number, outputs: Map<string, any>): RunRecord => ({
+  executionId,
+  mode: 'sequential',
+  status: RunStatus.COMPLETED,
+  startTime,
+  duration: 1,
+  initialInputs: new Map([['node', new Map([['in', 1]])]]),
+  nodes: [{ nodeId: 'node', status: ExecutionStatus.SUCCESS, outputs }]
+});
+
+describe('JsonLinesHistoryStore', () => {
+  let dir: string;
+  let store: JsonLinesHistoryStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'history-'));
+    store = new JsonLinesHistoryStore(path.join(dir, 'runs.jsonl'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips values plain JSON cannot hold', async () => {
+    const outputs = new Map<string, any>([
+      ['map', new Map([['k', 1]])],
+      ['set', new Set([1, 2])],
+      ['date', new Date('2024-01-02T03:04:05.000Z')],
+      ['missing', undefined],
+      ['infinite', Infinity],
+      ['big', BigInt(10)]
+    ]);
+    await store.save(makeRecord('a', 1, outputs));
+
+    const stored = (await store.get('a'))!.nodes[0].outputs!;
+
+    expect(stored).toEqual(outputs);
+    expect(stored.has('missing')).toBe(true);
+  });
+
+  it('reads back objects that have a $type key of their own unchanged', async () => {
+    const outputs = new Map<string, any>([
+      ['date', { $type: 'date', value: 'not a date' }],
+      ['wrapped', { $type: 'object', value: { $type: 'map' } }],
+      ['nested', [{ $type: 'undefined', at: new Date(0) }]]
+    ]);
+    await store.save(makeRecord('a', 1, outputs));
+
+    expect((await store.get('a'))!.nodes[0].outputs).toEqual(outputs);
+  });
+
+  it('reads back values it cannot write as placeholders', async () => {
+    await store.save(makeRecord('a', 1, new Map([['fn', () => 1]])));
+
+    const stored = (await store.get('a'))!.nodes[0].outputs!.get('fn');
+
+    expect(stored).toBeInstanceOf(UnserializableValue);
+    expect(stored.description).toBe('function');
+  });
+
+  it('keeps the latest record per execution id until compacted', async () => {
+    await store.save(makeRecord('a', 1, new Map([['out', 1]])));
+    await store.save(makeRecord('a', 1, new Map([['out', 2]])));
+    await store.save(makeRecord('b', 2, new Map([['out', 3]])));
+
+    expect((await store.query()).map(record => record.executionId)).toEqual(['b', 'a']);
+    expect((await store.get('a'))!.nodes[0].outputs!.get('out')).toBe(2);
+
+    await store.compact();
+    const lines = (await fs.readFile(path.join(dir, 'runs.jsonl'), 'utf-8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+
+    expect(await store.delete('a')).toBe(true);
+    expect(await store.get('a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,234 @@
+import { promises as fs } from 'fs';
+import { ExecutionId } from '../types';
+import { HistoryStore, HistoryQuery, RunRecord, filterRunRecords } from './HistoryStore';
+
+/**
+ * Placeholder for a value that could not be written to the history file
+ * (functions, promises, streams, circular structures)
+ */
+export class UnserializableValue {
+  constructor(public readonly description: string) {}
+}
+
+/**
+ * History store appending one JSON document per run to a file
+ * Maps, Sets, Dates and undefined survive the round trip; values that cannot be written
+ * are read back as UnserializableValue, and runs holding them in their inputs cannot be replayed
+ */
+export class JsonLinesHistoryStore implements HistoryStore {
+  // Writes are chained so a rewrite never interleaves with an append
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async save(record: RunRecord): Promise<void> {
+    const line = JSON.stringify(encodeValue(record)) + '\n';
+    return this.enqueue(() => fs.appendFile(this.filePath, line, 'utf-8'));
+  }
+
+  async get(executionId: ExecutionId): Promise<RunRecord | undefined> {
+    const records = await this.readAll();
+    return records.get(executionId);
+  }
+
+  async query(query?: HistoryQuery): Promise<RunRecord[]> {
+    const records = await this.readAll();
+    return filterRunRecords(records.values(), query);
+  }
+
+  async delete(executionId: ExecutionId): Promise<boolean> {
+    let deleted = false;
+    await this.enqueue(async () => {
+      const records = await this.readAll();
+      deleted = records.delete(executionId);
+      if (deleted) {
+        await this.writeAll(records.values());
+      }
+    });
+    return deleted;
+  }
+
+  async clear(): Promise<void> {
+    return this.enqueue(() => fs.writeFile(this.filePath, '', 'utf-8'));
+  }
+
+  /**
+   * Rewrite the file with one line per run, dropping replaced records
+   */
+  async compact(): Promise<void> {
+    return this.enqueue(async () => {
+      const records = await this.readAll();
+      await this.writeAll(records.values());
+    });
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(write);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Read every run from the file; later lines replace earlier ones with the same execution id
+   */
+  private async readAll(): Promise<Map<ExecutionId, RunRecord>> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return new Map();
+      }
+      throw error;
+    }
+
+    const records = new Map<ExecutionId, RunRecord>();
+    content.split('\n').forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        const record = decodeValue(JSON.parse(line)) as RunRecord;
+        records.delete(record.executionId);
+        records.set(record.executionId, record);
+      } catch (error) {
+        console.warn(`Skipping malformed history line ${index + 1} in ${this.filePath}:`, error);
+      }
+    });
+    return records;
+  }
+
+  private async writeAll(records: Iterable<RunRecord>): Promise<void> {
+    const lines = Array.from(records).map(record => JSON.stringify(encodeValue(record)) + '\n');
+    await fs.writeFile(this.filePath, lines.join(''), 'utf-8');
+  }
+}
+
+/**
+ * Convert a value to plain JSON, tagging types JSON cannot represent
+ */
+function encodeValue(value: any, seen: Set<any> = new Set()): any {
+  if (value === undefined) {
+    return { $type: 'undefined' };
+  }
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : { $type: 'number', value: String(value) };
+  }
+  if (typeof value === 'bigint') {
+    return { $type: 'bigint', value: value.toString() };
+  }
+  if (typeof value !== 'object') {
+    return { $type: 'unserializable', description: typeof value };
+  }
+  if (value instanceof UnserializableValue) {
+    return { $type: 'unserializable', description: value.description };
+  }
+  if (typeof value.then === 'function') {
+    return { $type: 'unserializable', description: 'promise' };
+  }
+  if (typeof value[Symbol.asyncIterator] === 'function') {
+    return { $type: 'unserializable', description: 'stream' };
+  }
+  if (seen.has(value)) {
+    return { $type: 'unserializable', description: 'circular reference' };
+  }
+  if (value instanceof Date) {
+    return { $type: 'date', value: value.toISOString() };
+  }
+
+  seen.add(value);
+  try {
+    if (Array.isArray(value)) {
+      return value.map(item => encodeValue(item, seen));
+    }
+    if (value instanceof Map) {
+      return {
+        $type: 'map',
+        entries: Array.from(value.entries()).map(([k, v]) => [encodeValue(k, seen), encodeValue(v, seen)])
+      };
+    }
+    if (value instanceof Set) {
+      return { $type: 'set', values: Array.from(value.values()).map(item => encodeValue(item, seen)) };
+    }
+
+    const encoded: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      encoded[key] = encodeValue(item, seen);
+    }
+    // Objects with a $type key of their own are wrapped so they are not read back as tagged values
+    return '$type' in encoded ? { $type: 'object', value: encoded } : encoded;
+  } finally {
+    seen.delete(value);
+  }
+}
+
+/**
+ * Reverse encodeValue
+ */
+function decodeValue(value: any): any {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+
+  switch (value.$type) {
+    case 'undefined':
+      return undefined;
+    case 'number':
+      return Number(value.value);
+    case 'bigint':
+      return BigInt(value.value);
+    case 'date':
+      return new Date(value.value);
+    case 'map':
+      return new Map(value.entries.map(([k, v]: [any, any]) => [decodeValue(k), decodeValue(v)]));
+    case 'set':
+      return new Set(value.values.map(decodeValue));
+    case 'unserializable':
+      return new UnserializableValue(value.description);
+    case 'object':
+      return decodeEntries(value.value);
+  }
+
+  return decodeEntries(value);
+}
+
+function decodeEntries(value: Record<string, any>): Record<string, any> {
+  const decoded: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    decoded[key] = decodeValue(item);
+  }
+  return decoded;
+}
+
+/**
+ * Find a placeholder for an unrecorded value anywhere inside a value
+ */
+export function findUnserializable(value: any, seen: Set<any> = new Set()): UnserializableValue | undefined {
+  if (value instanceof UnserializableValue) {
+    return value;
+  }
+  if (value === null || typeof value !== 'object' || seen.has(value)) {
+    return undefined;
+  }
+
+  seen.add(value);
+  const children = value instanceof Map
+    ? [...value.keys(), ...value.values()]
+    : value instanceof Set || Array.isArray(value)
+      ? Array.from(value)
+      : Object.values(value);
+
+  for (const child of children) {
+    const found = findUnserializable(child, seen);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
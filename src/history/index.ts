@@ -0,0 +1,26 @@
+/**
+ * Execution History Module
+ * Records runs (inputs, per-node results, timings, errors) for querying and replay
+ */
+
+export {
+  filterRunRecords,
+  type HistoryStore,
+  type HistoryQuery,
+  type RunRecord,
+  type NodeRunRecord,
+  type RecordedError,
+  type RunMode
+} from './HistoryStore';
+
+export {
+  InMemoryHistoryStore,
+  type InMemoryHistoryConfig,
+  DEFAULT_IN_MEMORY_HISTORY_CONFIG
+} from './InMemoryHistoryStore';
+
+export {
+  JsonLinesHistoryStore,
+  UnserializableValue,
+  findUnserializable
+} from './JsonLinesHistoryStore';
@@ -5,10 +5,55 @@
 
 // Core types and interfaces
 export * from './types';
+export {
+  Types,
+  checkAssignable,
+  isAssignable,
+  checkValue,
+  createValidator,
+  substituteGenerics,
+  containsGeneric,
+  isStreamType
+} from './types/structural';
+export type { TypeBindings } from './types/structural';
+export {
+  fromJsonSchema,
+  toJsonSchema,
+  portToJsonSchema,
+  portsToJsonSchema,
+  checkJsonSchema,
+  JSON_SCHEMA_DIALECT
+} from './types/jsonSchema';
+export type { JsonSchema, JsonSchemaTypeName } from './types/jsonSchema';
 
 // Core classes
 export { BaseNode } from './core/BaseNode';
-export { NodeExecutor } from './core/NodeExecutor';
+export { NodeExecutor, DEFAULT_EXECUTOR_CONFIG } from './core/NodeExecutor';
+export type { NodeExecutorConfig, ExecutionOptions } from './core/NodeExecutor';
+export type { NodeEventMap, NodeEventName, TypedNodeEvent, NodeEventListener, RunSummary } from './core/events';
+export type { ExecutionPlan, PlannedPort, InvalidConnection } from './core/ExecutionPlan';
+export { OutputCache, DEFAULT_OUTPUT_CACHE_CONFIG } from './core/OutputCache';
+export type { OutputCacheConfig, OutputCacheStats, CachedOutputs } from './core/OutputCache';
+export { ExecutionRun, RunStatus, FailurePolicy } from './core/ExecutionRun';
+export { ReadyQueueScheduler, DEFAULT_SCHEDULER_CONFIG } from './core/Scheduler';
+export type { SchedulerConfig, SchedulableGraph } from './core/Scheduler';
+export { StreamingNode, SKIP_ITEM } from './core/StreamingNode';
+export {
+  DEFAULT_STREAM_BUFFER_SIZE,
+  isAsyncIterable,
+  toAsyncIterable,
+  collectStream,
+  teeStream
+} from './core/streams';
+export type { StreamBranch } from './core/streams';
+export { DebugSession, BreakpointPhase } from './core/DebugSession';
+export type {
+  Breakpoint,
+  BreakpointOptions,
+  BreakpointCondition,
+  PausedState,
+  DebugResumeAction
+} from './core/DebugSession';
 
 // Registry and Discovery
 export { NodeRegistry, RegisterNode, registerNode, createNode } from './registry/NodeRegistry';
@@ -18,6 +63,87 @@ export { registerBuiltInNodes } from './registry/registerBuiltInNodes';
 // Serialization
 export { GraphSerializer } from './serialization/GraphSerializer';
 export type { SerializedNode, SerializedConnection, GraphDefinition } from './serialization/GraphSerializer';
+export { parseYAML, stringifyYAML, YAMLParseError } from './serialization/yaml';
+export {
+  MigrationRegistry,
+  registerFormatMigration,
+  registerNodeMigration,
+  migrateGraph,
+  GRAPH_FORMAT_VERSION
+} from './serialization/migrations';
+export type {
+  GraphFormatMigration,
+  NodeMigration,
+  NodeMigrationContext,
+  MigrationStep,
+  MigrationReport,
+  MigrationResult
+} from './serialization/migrations';
+
+// Execution History
+export {
+  InMemoryHistoryStore,
+  JsonLinesHistoryStore,
+  UnserializableValue,
+  findUnserializable,
+  filterRunRecords,
+  DEFAULT_IN_MEMORY_HISTORY_CONFIG
+} from './history';
+export type {
+  HistoryStore,
+  HistoryQuery,
+  RunRecord,
+  NodeRunRecord,
+  RecordedError,
+  RunMode,
+  InMemoryHistoryConfig
+} from './history';
+
+// Tracing
+export {
+  Tracer,
+  Span,
+  SpanStatusCode,
+  InMemorySpanCollector,
+  FileSpanExporter,
+  toOtlpJson,
+  measureValue,
+  TRACE_ID_METADATA_KEY,
+  SPAN_ID_METADATA_KEY,
+  DEFAULT_TRACER_CONFIG
+} from './tracing';
+export type {
+  TracerConfig,
+  StartSpanOptions,
+  SpanExporter,
+  SpanContext,
+  SpanStatus,
+  SpanEvent,
+  SpanAttributes,
+  AttributeValue,
+  OtlpTraceExport
+} from './tracing';
+
+// Metrics
+export {
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  MetricType,
+  ExecutorMetrics,
+  renderPrometheus,
+  DEFAULT_LATENCY_BUCKETS,
+  DEFAULT_EXECUTOR_METRICS_CONFIG
+} from './metrics';
+export type {
+  MetricLabels,
+  MetricSample,
+  HistogramSample,
+  MetricSnapshot,
+  MetricsSnapshot,
+  ExecutorMetricsConfig
+} from './metrics';
 
 // Error Handling
 export {
@@ -29,7 +155,9 @@ export {
   DeadLetterQueue,
   ErrorHandlingNode,
   ErrorBoundaryNode,
-  FallbackNode
+  FallbackNode,
+  RETRY_ATTEMPTS_METADATA_KEY,
+  CIRCUIT_STATE_METADATA_KEY
 } from './error-handling';
 export type {
   RetryConfig,
@@ -40,10 +168,19 @@ export type {
 } from './error-handling';
 
 // Functional programming nodes
-export { MapNode, FilterNode, ReduceNode, ComposeNode } from './nodes/functional/FunctionalNodes';
+export {
+  MapNode,
+  FilterNode,
+  ReduceNode,
+  ComposeNode,
+  StreamMapNode,
+  StreamFilterNode,
+  StreamReduceNode
+} from './nodes/functional/FunctionalNodes';
 
 // Object-oriented programming nodes
 export { CalculatorNode, CounterNode, BankAccountNode } from './nodes/oop/ObjectOrientedNodes';
+export type { CounterNodeConfig } from './nodes/oop/ObjectOrientedNodes';
 
 // Async programming nodes
 export { DelayNode, HttpRequestNode, PromiseAllNode, PromiseRaceNode, RetryNode } from './nodes/async/AsyncNodes';
@@ -51,6 +188,16 @@ export { DelayNode, HttpRequestNode, PromiseAllNode, PromiseRaceNode, RetryNode
 // Utility nodes
 export { ConditionalNode, MathNode, StringNode, TransformNode, LoggerNode } from './nodes/utility/UtilityNodes';
 
+// Control flow nodes
+export { BranchNode, SwitchNode } from './nodes/control/ControlFlowNodes';
+export type { SwitchNodeConfig } from './nodes/control/ControlFlowNodes';
+export { ForEachNode, WhileNode, DEFAULT_MAX_ITERATIONS } from './nodes/control/LoopNodes';
+export type { PortRef, LoopNodeConfig, ForEachNodeConfig, WhileNodeConfig } from './nodes/control/LoopNodes';
+
+// Composite nodes
+export { SubgraphNode, registerSubgraphType } from './nodes/composite/SubgraphNode';
+export type { ExposedPort, SubgraphNodeConfig, SubgraphTypeOptions } from './nodes/composite/SubgraphNode';
+
 // Re-export commonly used types for convenience
 export type { 
   INode, 
@@ -0,0 +1,141 @@
+import { ExecutorMetrics } from './ExecutorMetrics';
+import { MetricsRegistry, Counter, Histogram } from './MetricsRegistry';
+import { renderPrometheus } from './prometheus';
+import { NodeExecutor } from '../core/NodeExecutor';
+import { BaseNode } from '../core/BaseNode';
+import { RunStatus } from '../core/ExecutionRun';
+import { RetryNode } from '../nodes/async/AsyncNodes';
+import { DataTypes, ExecutionContext, ExecutionStatus, NodeConfig, PortId } from '../types';
+
+class ParseNode extends BaseNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Parse',
+      inputs: [{ id: 'text', name: 'Text', dataType: DataTypes.STRING, required: true }],
+      outputs: [{ id: 'value', name: 'Value', dataType: DataTypes.NUMBER }]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    const value = Number(this.getInput<string>(context, 'text'));
+    if (Number.isNaN(value)) {
+      throw new Error('Not a number');
+    }
+    return new Map([['value', value]]);
+  }
+}
+
+describe('ExecutorMetrics', () => {
+  const registry = MetricsRegistry.getInstance();
+  let metrics: ExecutorMetrics;
+  let executor: NodeExecutor;
+
+  const run = (text: string) => executor.execute(new Map([['parse', new Map([['text', text]])]]));
+  const executions = () => registry.get('nodesystem_node_executions_total') as Counter;
+
+  beforeEach(() => {
+    registry.clear();
+    metrics = new ExecutorMetrics(registry);
+    executor = new NodeExecutor();
+    executor.addNode(new ParseNode({ id: 'parse' }));
+    metrics.attach(executor);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('counts node executions by type and status', async () => {
+    await run('1');
+    await run('2');
+    await run('x');
+
+    expect(executions().get({ node_type: 'ParseNode', status: ExecutionStatus.SUCCESS })).toBe(2);
+    expect(executions().get({ node_type: 'ParseNode', status: ExecutionStatus.FAILED })).toBe(1);
+    const [duration] = (registry.get('nodesystem_node_execution_duration_seconds') as Histogram).getSamples();
+    expect(duration.count).toBe(3);
+  });
+
+  it('counts runs by final status', async () => {
+    await run('1');
+    await run('x');
+
+    expect((registry.get('nodesystem_runs_total') as Counter).get({ status: RunStatus.COMPLETED })).toBe(2);
+  });
+
+  it('counts every retry a node reports, whether or not it finally succeeds', async () => {
+    executor.addNode(new RetryNode({ id: 'retry' }));
+    const failingTimes = (failures: number) => {
+      let calls = 0;
+      return async () => {
+        if (calls++ < failures) {
+          throw new Error('flaky');
+        }
+        return 'ok';
+      };
+    };
+    const retry = (operation: () => Promise<string>, maxRetries: number) => executor.execute(new Map([
+      ['parse', new Map([['text', '1']])],
+      ['retry', new Map<PortId, any>([['operation', operation], ['maxRetries', maxRetries], ['baseDelay', 0]])]
+    ]));
+
+    await retry(failingTimes(2), 3);
+    await retry(failingTimes(10), 1);
+
+    expect((registry.get('nodesystem_node_retries_total') as Counter).get({ node_type: 'RetryNode' })).toBe(3);
+  });
+
+  it('stops counting once detached', async () => {
+    await run('1');
+    metrics.detach(executor);
+    await run('2');
+
+    expect(executions().get({ node_type: 'ParseNode', status: ExecutionStatus.SUCCESS })).toBe(1);
+  });
+});
+
+describe('renderPrometheus', () => {
+  const registry = MetricsRegistry.getInstance();
+
+  beforeEach(() => {
+    registry.clear();
+  });
+
+  it('renders counters with escaped labels', () => {
+    registry.counter('jobs_total', 'Jobs run', ['name']).inc({ name: 'say "hi"' }, 2);
+
+    expect(renderPrometheus(registry.snapshot())).toBe(
+      '# HELP jobs_total Jobs run\n' +
+      '# TYPE jobs_total counter\n' +
+      'jobs_total{name="say \\"hi\\""} 2\n'
+    );
+  });
+
+  it('renders histograms as cumulative buckets with sum and count', () => {
+    const histogram = registry.histogram('latency_seconds', 'Latency', [], [0.1, 1]);
+    histogram.observe({}, 0.05);
+    histogram.observe({}, 0.5);
+
+    expect(renderPrometheus(registry.snapshot())).toBe(
+      '# HELP latency_seconds Latency\n' +
+      '# TYPE latency_seconds histogram\n' +
+      'latency_seconds_bucket{le="0.1"} 1\n' +
+      'latency_seconds_bucket{le="1"} 2\n' +
+      'latency_seconds_bucket{le="+Inf"} 2\n' +
+      'latency_seconds_sum 0.55\n' +
+      'latency_seconds_count 2\n'
+    );
+  });
+
+  it('runs collectors before taking the snapshot', () => {
+    const gauge = registry.gauge('queue_depth', 'Queue depth');
+    let depth = 3;
+    registry.addCollector(() => gauge.set({}, depth));
+
+    expect(renderPrometheus(registry.snapshot())).toContain('queue_depth 3\n');
+    depth = 5;
+    expect(renderPrometheus(registry.snapshot())).toContain('queue_depth 5\n');
+  });
+});
@@ -0,0 +1,207 @@
+import { INode, NodeEventType, NodeId, ExecutionResult, ExecutionStatus } from '../types';
+import { NodeExecutor } from '../core/NodeExecutor';
+import { NodeEventListener } from '../core/events';
+import { NodeRegistry } from '../registry/NodeRegistry';
+import { CircuitBreakerRegistry, CircuitState } from '../error-handling/CircuitBreaker';
+import { DeadLetterQueue } from '../error-handling/DeadLetterQueue';
+import { MetricsRegistry, Counter, Gauge, Histogram, DEFAULT_LATENCY_BUCKETS } from './MetricsRegistry';
+
+/**
+ * Executor metrics configuration
+ */
+export interface ExecutorMetricsConfig {
+  /** Prefix of every metric name */
+  prefix: string;
+  /** Node latency histogram buckets, in seconds */
+  latencyBuckets: number[];
+}
+
+/**
+ * Listeners attached to one executor
+ */
+interface ExecutorListeners {
+  completed: NodeEventListener<NodeEventType.EXECUTION_COMPLETED>;
+  failed: NodeEventListener<NodeEventType.EXECUTION_FAILED>;
+  skipped: NodeEventListener<NodeEventType.NODE_SKIPPED>;
+  retrying: NodeEventListener<NodeEventType.NODE_RETRYING>;
+  run: NodeEventListener<NodeEventType.RUN_COMPLETED>;
+}
+
+/**
+ * Default executor metrics configuration
+ */
+export const DEFAULT_EXECUTOR_METRICS_CONFIG: ExecutorMetricsConfig = {
+  prefix: 'nodesystem_',
+  latencyBuckets: DEFAULT_LATENCY_BUCKETS
+};
+
+/**
+ * Node system metrics, fed by executor events, circuit breakers and the dead letter queue
+ *
+ * - `<prefix>runs_total{status}`
+ * - `<prefix>run_duration_seconds`
+ * - `<prefix>node_executions_total{node_type,status}`
+ * - `<prefix>node_execution_duration_seconds{node_type}` (nodes that ran, cache hits excluded)
+ * - `<prefix>node_retries_total{node_type}` (NODE_RETRYING events)
+ * - `<prefix>node_cache_hits_total{node_type}`
+ * - `<prefix>circuit_breaker_state{node_id,state}` (1 for the current state, 0 otherwise)
+ * - `<prefix>circuit_breaker_failures{node_id}`
+ * - `<prefix>dead_letter_queue_depth` (unprocessed entries)
+ * - `<prefix>dead_letter_queue_entries{node_id}`
+ */
+export class ExecutorMetrics {
+  private config: ExecutorMetricsConfig;
+  private executions: Counter;
+  private duration: Histogram;
+  private retries: Counter;
+  private cacheHits: Counter;
+  private runs: Counter;
+  private runDuration: Histogram;
+  private listeners: Map<NodeExecutor, ExecutorListeners> = new Map();
+
+  constructor(
+    private readonly registry: MetricsRegistry = MetricsRegistry.getInstance(),
+    config: Partial<ExecutorMetricsConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_EXECUTOR_METRICS_CONFIG, ...config };
+    const prefix = this.config.prefix;
+
+    this.runs = registry.counter(
+      `${prefix}runs_total`, 'Graph runs by final status', ['status']
+    );
+    this.runDuration = registry.histogram(
+      `${prefix}run_duration_seconds`, 'Graph run duration in seconds', [], this.config.latencyBuckets
+    );
+    this.executions = registry.counter(
+      `${prefix}node_executions_total`, 'Node executions by node type and final status', ['node_type', 'status']
+    );
+    this.duration = registry.histogram(
+      `${prefix}node_execution_duration_seconds`, 'Node execution time in seconds', ['node_type'],
+      this.config.latencyBuckets
+    );
+    this.retries = registry.counter(
+      `${prefix}node_retries_total`, 'Retries made by node retry policies', ['node_type']
+    );
+    this.cacheHits = registry.counter(
+      `${prefix}node_cache_hits_total`, 'Node results served from the output cache', ['node_type']
+    );
+  }
+
+  /**
+   * Start recording the node results of an executor
+   */
+  attach(executor: NodeExecutor): void {
+    if (this.listeners.has(executor)) {
+      return;
+    }
+
+    const onResult = (event: { data: { nodeId: NodeId; result: ExecutionResult } }) => {
+      this.recordResult(executor, event.data.nodeId, event.data.result);
+    };
+    const listeners: ExecutorListeners = {
+      completed: onResult,
+      failed: onResult,
+      skipped: onResult,
+      retrying: event => {
+        const node = executor.getNode(event.data.nodeId);
+        if (node) {
+          this.retries.inc({ node_type: this.getNodeType(node) });
+        }
+      },
+      run: event => {
+        this.runs.inc({ status: event.data.status });
+        this.runDuration.observe({}, event.data.duration / 1000);
+      }
+    };
+
+    executor.on(NodeEventType.EXECUTION_COMPLETED, listeners.completed);
+    executor.on(NodeEventType.EXECUTION_FAILED, listeners.failed);
+    executor.on(NodeEventType.NODE_SKIPPED, listeners.skipped);
+    executor.on(NodeEventType.NODE_RETRYING, listeners.retrying);
+    executor.on(NodeEventType.RUN_COMPLETED, listeners.run);
+    this.listeners.set(executor, listeners);
+  }
+
+  /**
+   * Stop recording an executor
+   */
+  detach(executor: NodeExecutor): void {
+    const listeners = this.listeners.get(executor);
+    if (!listeners) {
+      return;
+    }
+
+    executor.off(NodeEventType.EXECUTION_COMPLETED, listeners.completed);
+    executor.off(NodeEventType.EXECUTION_FAILED, listeners.failed);
+    executor.off(NodeEventType.NODE_SKIPPED, listeners.skipped);
+    executor.off(NodeEventType.NODE_RETRYING, listeners.retrying);
+    executor.off(NodeEventType.RUN_COMPLETED, listeners.run);
+    this.listeners.delete(executor);
+  }
+
+  /**
+   * Report circuit breaker states and failure counts with every snapshot
+   */
+  collectCircuitBreakers(breakers: CircuitBreakerRegistry = CircuitBreakerRegistry.getInstance()): () => void {
+    const state: Gauge = this.registry.gauge(
+      `${this.config.prefix}circuit_breaker_state`, 'Circuit breaker state (1 for the current state)', ['node_id', 'state']
+    );
+    const failures: Gauge = this.registry.gauge(
+      `${this.config.prefix}circuit_breaker_failures`, 'Circuit breaker failures in the current window', ['node_id']
+    );
+
+    return this.registry.addCollector(() => {
+      // Reset first so removed breakers disappear
+      state.reset();
+      failures.reset();
+      breakers.getAllStats().forEach((stats, nodeId) => {
+        Object.values(CircuitState).forEach(circuitState => {
+          state.set({ node_id: nodeId, state: circuitState }, stats.state === circuitState ? 1 : 0);
+        });
+        failures.set({ node_id: nodeId }, stats.failures);
+      });
+    });
+  }
+
+  /**
+   * Report dead letter queue depth with every snapshot
+   */
+  collectDeadLetterQueue(dlq: DeadLetterQueue = DeadLetterQueue.getInstance()): () => void {
+    const depth: Gauge = this.registry.gauge(
+      `${this.config.prefix}dead_letter_queue_depth`, 'Unprocessed dead letter queue entries'
+    );
+    const entries: Gauge = this.registry.gauge(
+      `${this.config.prefix}dead_letter_queue_entries`, 'Dead letter queue entries by node', ['node_id']
+    );
+
+    return this.registry.addCollector(() => {
+      const stats = dlq.getStats();
+      depth.set({}, stats.unprocessed);
+      entries.reset();
+      stats.byNode.forEach((count, nodeId) => entries.set({ node_id: nodeId }, count));
+    });
+  }
+
+  private recordResult(executor: NodeExecutor, nodeId: NodeId, result: ExecutionResult): void {
+    const node = executor.getNode(nodeId);
+    if (!node) {
+      return;
+    }
+
+    const nodeType = this.getNodeType(node);
+    const status = result.status ?? (result.success ? ExecutionStatus.SUCCESS : ExecutionStatus.FAILED);
+
+    this.executions.inc({ node_type: nodeType, status });
+
+    if (result.cacheHit) {
+      this.cacheHits.inc({ node_type: nodeType });
+    } else if (status !== ExecutionStatus.SKIPPED && status !== ExecutionStatus.INACTIVE &&
+               result.executionTime !== undefined) {
+      this.duration.observe({ node_type: nodeType }, result.executionTime / 1000);
+    }
+  }
+
+  private getNodeType(node: INode): string {
+    return NodeRegistry.getInstance().findNodeType(node) ?? node.constructor.name;
+  }
+}
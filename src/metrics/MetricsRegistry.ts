@@ -0,0 +1,301 @@
+/**
+ * Kinds of metrics
+ */
+export enum MetricType {
+  COUNTER = 'counter',
+  GAUGE = 'gauge',
+  HISTOGRAM = 'histogram'
+}
+
+/**
+ * Label values keyed by label name
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Default histogram buckets, in seconds
+ */
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Value of a counter or gauge for one label set
+ */
+export interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+/**
+ * Observations of a histogram for one label set
+ */
+export interface HistogramSample {
+  labels: MetricLabels;
+  /** Cumulative count per upper bound, the last bound being Infinity */
+  buckets: Array<{ le: number; count: number }>;
+  sum: number;
+  count: number;
+}
+
+/**
+ * Point-in-time copy of one metric
+ */
+export interface MetricSnapshot {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: Array<MetricSample | HistogramSample>;
+}
+
+/**
+ * Point-in-time copy of every metric, keyed by name
+ */
+export type MetricsSnapshot = Map<string, MetricSnapshot>;
+
+/**
+ * Common behaviour of labelled metrics
+ */
+abstract class Metric<T> {
+  protected series: Map<string, { labels: MetricLabels; value: T }> = new Map();
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    public readonly labelNames: string[]
+  ) {}
+
+  abstract readonly type: MetricType;
+
+  /**
+   * Forget every label set
+   */
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected getSeries(labels: MetricLabels, create: () => T): { labels: MetricLabels; value: T } {
+    const unknown = Object.keys(labels).find(label => !this.labelNames.includes(label));
+    if (unknown) {
+      throw new Error(`Metric ${this.name} has no label "${unknown}"`);
+    }
+
+    const normalized: MetricLabels = {};
+    this.labelNames.forEach(label => {
+      normalized[label] = labels[label] ?? '';
+    });
+
+    const key = JSON.stringify(this.labelNames.map(label => normalized[label]));
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: normalized, value: create() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  abstract getSamples(): Array<MetricSample | HistogramSample>;
+}
+
+/**
+ * Monotonically increasing count
+ */
+export class Counter extends Metric<number> {
+  readonly type = MetricType.COUNTER;
+
+  inc(labels: MetricLabels = {}, amount: number = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} cannot be decreased`);
+    }
+    this.getSeries(labels, () => 0).value += amount;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.getSeries(labels, () => 0).value;
+  }
+
+  getSamples(): MetricSample[] {
+    return Array.from(this.series.values(), ({ labels, value }) => ({ labels: { ...labels }, value }));
+  }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends Metric<number> {
+  readonly type = MetricType.GAUGE;
+
+  set(labels: MetricLabels, value: number): void {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  inc(labels: MetricLabels = {}, amount: number = 1): void {
+    this.getSeries(labels, () => 0).value += amount;
+  }
+
+  dec(labels: MetricLabels = {}, amount: number = 1): void {
+    this.getSeries(labels, () => 0).value -= amount;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.getSeries(labels, () => 0).value;
+  }
+
+  getSamples(): MetricSample[] {
+    return Array.from(this.series.values(), ({ labels, value }) => ({ labels: { ...labels }, value }));
+  }
+}
+
+interface HistogramState {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values over fixed buckets
+ */
+export class Histogram extends Metric<HistogramState> {
+  readonly type = MetricType.HISTOGRAM;
+  public readonly buckets: number[];
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[] = DEFAULT_LATENCY_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const state = this.getSeries(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        state.counts[index]++;
+      }
+    });
+    state.sum += value;
+    state.count++;
+  }
+
+  getSamples(): HistogramSample[] {
+    return Array.from(this.series.values(), ({ labels, value }) => ({
+      labels: { ...labels },
+      buckets: [
+        ...this.buckets.map((le, index) => ({ le, count: value.counts[index] })),
+        { le: Infinity, count: value.count }
+      ],
+      sum: value.sum,
+      count: value.count
+    }));
+  }
+}
+
+/**
+ * Registry of named metrics
+ * Collectors registered with addCollector refresh gauges from other components right before
+ * each snapshot, so values like circuit states and queue depths are current when scraped
+ */
+export class MetricsRegistry {
+  private static instance: MetricsRegistry;
+  private metrics: Map<string, Counter | Gauge | Histogram> = new Map();
+  private collectors: Set<() => void> = new Set();
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get the singleton instance of the registry
+   */
+  static getInstance(): MetricsRegistry {
+    if (!MetricsRegistry.instance) {
+      MetricsRegistry.instance = new MetricsRegistry();
+    }
+    return MetricsRegistry.instance;
+  }
+
+  /**
+   * Get or create a counter
+   */
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.getOrCreate(name, MetricType.COUNTER, () => new Counter(name, help, labelNames));
+  }
+
+  /**
+   * Get or create a gauge
+   */
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.getOrCreate(name, MetricType.GAUGE, () => new Gauge(name, help, labelNames));
+  }
+
+  /**
+   * Get or create a histogram
+   */
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.getOrCreate(name, MetricType.HISTOGRAM, () => new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Get a metric by name
+   */
+  get(name: string): Counter | Gauge | Histogram | undefined {
+    return this.metrics.get(name);
+  }
+
+  /**
+   * Run a function before every snapshot; returns a function removing it
+   */
+  addCollector(collector: () => void): () => void {
+    this.collectors.add(collector);
+    return () => {
+      this.collectors.delete(collector);
+    };
+  }
+
+  /**
+   * Run the collectors and copy every metric
+   */
+  snapshot(): MetricsSnapshot {
+    this.collectors.forEach(collector => collector());
+
+    const snapshot: MetricsSnapshot = new Map();
+    this.metrics.forEach((metric, name) => {
+      snapshot.set(name, {
+        name,
+        help: metric.help,
+        type: metric.type,
+        samples: metric.getSamples()
+      });
+    });
+    return snapshot;
+  }
+
+  /**
+   * Reset the values of every metric, keeping the metrics and collectors
+   */
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  /**
+   * Remove every metric and collector
+   */
+  clear(): void {
+    this.metrics.clear();
+    this.collectors.clear();
+  }
+
+  private getOrCreate<T extends Counter | Gauge | Histogram>(name: string, type: MetricType, create: () => T): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing as T;
+    }
+
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(name)) {
+      throw new Error(`Invalid metric name "${name}"`);
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Metrics Module
+ * Metrics registry, node system metrics and Prometheus text exposition
+ */
+
+export {
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  MetricType,
+  DEFAULT_LATENCY_BUCKETS,
+  type MetricLabels,
+  type MetricSample,
+  type HistogramSample,
+  type MetricSnapshot,
+  type MetricsSnapshot
+} from './MetricsRegistry';
+
+export {
+  ExecutorMetrics,
+  DEFAULT_EXECUTOR_METRICS_CONFIG,
+  type ExecutorMetricsConfig
+} from './ExecutorMetrics';
+
+export { renderPrometheus } from './prometheus';
@@ -0,0 +1,55 @@
+import { MetricsSnapshot, MetricLabels, MetricType, HistogramSample, MetricSample } from './MetricsRegistry';
+
+/**
+ * Render a metrics snapshot in the Prometheus text exposition format (version 0.0.4)
+ */
+export function renderPrometheus(snapshot: MetricsSnapshot): string {
+  const lines: string[] = [];
+
+  snapshot.forEach(metric => {
+    lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+    if (metric.type === MetricType.HISTOGRAM) {
+      (metric.samples as HistogramSample[]).forEach(sample => {
+        sample.buckets.forEach(bucket => {
+          lines.push(`${metric.name}_bucket${formatLabels({ ...sample.labels, le: formatValue(bucket.le) })} ${bucket.count}`);
+        });
+        lines.push(`${metric.name}_sum${formatLabels(sample.labels)} ${formatValue(sample.sum)}`);
+        lines.push(`${metric.name}_count${formatLabels(sample.labels)} ${sample.count}`);
+      });
+    } else {
+      (metric.samples as MetricSample[]).forEach(sample => {
+        lines.push(`${metric.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+      });
+    }
+  });
+
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return '+Inf';
+  }
+  if (value === -Infinity) {
+    return '-Inf';
+  }
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,113 @@
+import { HttpRequestNode, RetryNode } from './AsyncNodes';
+import { NodeExecutor } from '../../core/NodeExecutor';
+import { ExecutionContext, NodeId, PortId } from '../../types';
+
+const contextWith = (inputs: Map<PortId, any>): ExecutionContext => ({
+  executionId: 'test',
+  inputs,
+  outputs: new Map(),
+  metadata: new Map()
+});
+
+const failingTimes = (failures: number) => {
+  let calls = 0;
+  return jest.fn(async () => {
+    if (++calls <= failures) {
+      throw new Error(`failure ${calls}`);
+    }
+    return 'done';
+  });
+};
+
+describe('RetryNode', () => {
+  it('retries up to maxRetries times', async () => {
+    const operation = failingTimes(2);
+    const result = await new RetryNode().execute(contextWith(new Map<PortId, any>([
+      ['operation', operation],
+      ['maxRetries', 2],
+      ['baseDelay', 0]
+    ])));
+
+    expect(result.success).toBe(true);
+    expect(result.outputs!.get('attempts')).toBe(3);
+  });
+
+  it('uses the default maxRetries when the input is not set', async () => {
+    const operation = failingTimes(10);
+    const result = await new RetryNode().execute(contextWith(new Map<PortId, any>([
+      ['operation', operation],
+      ['baseDelay', 0]
+    ])));
+
+    expect(result.success).toBe(false);
+    expect(result.error!.message).toContain('after 4 attempts');
+    expect(operation).toHaveBeenCalledTimes(4);
+  });
+
+  it('uses the default maxRetries when the input is undefined or null', async () => {
+    for (const maxRetries of [undefined, null]) {
+      const operation = failingTimes(10);
+      const result = await new RetryNode().execute(contextWith(new Map<PortId, any>([
+        ['operation', operation],
+        ['maxRetries', maxRetries],
+        ['baseDelay', 0]
+      ])));
+
+      expect(result.success).toBe(false);
+      expect(result.error!.message).toContain('after 4 attempts');
+      expect(operation).toHaveBeenCalledTimes(4);
+    }
+  });
+
+  it('uses port defaults for undefined inputs given to the executor', async () => {
+    const executor = new NodeExecutor();
+    executor.addNode(new RetryNode({ id: 'retry' }));
+
+    const results = await executor.executeParallel(new Map<NodeId, Map<PortId, any>>([
+      ['retry', new Map<PortId, any>([['operation', failingTimes(0)], ['maxRetries', undefined]])]
+    ]));
+
+    expect(results.get('retry')!.success).toBe(true);
+  });
+
+  it('rejects an invalid maxRetries', async () => {
+    const result = await new RetryNode().execute(contextWith(new Map<PortId, any>([
+      ['operation', failingTimes(0)],
+      ['maxRetries', -1]
+    ])));
+
+    expect(result.success).toBe(false);
+    expect(result.error!.message).toBe('Max retries must be a non-negative integer');
+  });
+});
+
+describe('HttpRequestNode', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends a GET request when no method is given', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('{"ok":true}', { status: 200 }));
+
+    const result = await new HttpRequestNode().execute(contextWith(new Map<PortId, any>([
+      ['url', 'https://api.example.com/users']
+    ])));
+
+    expect(result.success).toBe(true);
+    expect(result.outputs!.get('data')).toEqual({ ok: true });
+    expect(fetchMock.mock.calls[0][1]!.method).toBe('GET');
+  });
+
+  it('sends a GET request when the method is null', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('{"ok":true}', { status: 200 }));
+
+    const result = await new HttpRequestNode().execute(contextWith(new Map<PortId, any>([
+      ['url', 'https://api.example.com/users'],
+      ['method', null]
+    ])));
+
+    expect(result.success).toBe(true);
+    expect(result.outputs!.get('data')).toEqual({ ok: true });
+    expect(fetchMock.mock.calls[0][1]!.method).toBe('GET');
+  });
+});
@@ -1,5 +1,5 @@
 import { BaseNode } from '../../core/BaseNode';
-import { ExecutionContext, PortId, DataTypes } from '../../types';
+import { ExecutionContext, NodeConfig, PortId, DataTypes } from '../../types';
 
 /**
  * Async Programming Paradigm Examples
@@ -9,10 +9,11 @@ import { ExecutionContext, PortId, DataTypes } from '../../types';
  * Delay node - demonstrates async execution with delays
  */
 export class DelayNode extends BaseNode {
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'Delay',
-      description: 'Delays execution for a specified amount of time',
+      ...config,
+      name: config?.name || 'Delay',
+      description: config?.description || 'Delays execution for a specified amount of time',
       inputs: [
         {
           id: 'value',
@@ -50,8 +51,8 @@ export class DelayNode extends BaseNode {
       throw new Error('Delay must be a non-negative number');
     }
     
-    // Async delay using Promise
-    await new Promise(resolve => setTimeout(resolve, delay));
+    // Async delay using Promise, cut short if the execution is aborted
+    await this.wait(context, delay);
     
     this.setOutput(outputs, 'result', value);
     return outputs;
@@ -62,10 +63,11 @@ export class DelayNode extends BaseNode {
  * HTTP Request node - demonstrates async HTTP operations
  */
 export class HttpRequestNode extends BaseNode {
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'HTTP Request',
-      description: 'Makes asynchronous HTTP requests',
+      ...config,
+      name: config?.name || 'HTTP Request',
+      description: config?.description || 'Makes asynchronous HTTP requests',
       inputs: [
         {
           id: 'url',
@@ -79,7 +81,8 @@ export class HttpRequestNode extends BaseNode {
           name: 'Method',
           dataType: DataTypes.STRING,
           required: false,
-          description: 'HTTP method (GET, POST, PUT, DELETE)'
+          description: 'HTTP method (GET, POST, PUT, DELETE)',
+          defaultValue: 'GET'
         },
         {
           id: 'headers',
@@ -123,7 +126,7 @@ export class HttpRequestNode extends BaseNode {
     const outputs = new Map<PortId, any>();
     
     const url = this.getInput<string>(context, 'url');
-    const method = this.getInput<string>(context, 'method') || 'GET';
+    const method = this.getInput<string>(context, 'method');
     const headers = this.getInput<Record<string, string>>(context, 'headers') || {};
     const body = this.getInput<any>(context, 'body');
     
@@ -139,7 +142,8 @@ export class HttpRequestNode extends BaseNode {
           'Content-Type': 'application/json',
           ...headers
         },
-        body: body ? JSON.stringify(body) : undefined
+        body: body ? JSON.stringify(body) : undefined,
+        signal: context.signal
       });
       
       const data = await response.json();
@@ -164,10 +168,11 @@ export class HttpRequestNode extends BaseNode {
  * Promise All node - demonstrates Promise.all for parallel async operations
  */
 export class PromiseAllNode extends BaseNode {
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'Promise All',
-      description: 'Executes multiple promises in parallel and waits for all to complete',
+      ...config,
+      name: config?.name || 'Promise All',
+      description: config?.description || 'Executes multiple promises in parallel and waits for all to complete',
       inputs: [
         {
           id: 'promises',
@@ -221,10 +226,11 @@ export class PromiseAllNode extends BaseNode {
  * Promise Race node - demonstrates Promise.race for async competition
  */
 export class PromiseRaceNode extends BaseNode {
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'Promise Race',
-      description: 'Executes multiple promises and returns the first one to complete',
+      ...config,
+      name: config?.name || 'Promise Race',
+      description: config?.description || 'Executes multiple promises and returns the first one to complete',
       inputs: [
         {
           id: 'promises',
@@ -282,10 +288,11 @@ export class PromiseRaceNode extends BaseNode {
  * Retry node - demonstrates async retry logic with exponential backoff
  */
 export class RetryNode extends BaseNode {
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'Retry',
-      description: 'Retries an operation with exponential backoff',
+      ...config,
+      name: config?.name || 'Retry',
+      description: config?.description || 'Retries an operation with exponential backoff',
       inputs: [
         {
           id: 'operation',
@@ -299,14 +306,16 @@ export class RetryNode extends BaseNode {
           name: 'Max Retries',
           dataType: DataTypes.NUMBER,
           required: false,
-          description: 'Maximum number of retries (default: 3)'
+          description: 'Maximum number of retries',
+          defaultValue: 3
         },
         {
           id: 'baseDelay',
           name: 'Base Delay (ms)',
           dataType: DataTypes.NUMBER,
           required: false,
-          description: 'Base delay in milliseconds (default: 1000)'
+          description: 'Base delay in milliseconds',
+          defaultValue: 1000
         }
       ],
       outputs: [
@@ -330,16 +339,24 @@ export class RetryNode extends BaseNode {
     const outputs = new Map<PortId, any>();
     
     const operation = this.getInput<Function>(context, 'operation');
-    const maxRetries = this.getInput<number>(context, 'maxRetries') || 3;
-    const baseDelay = this.getInput<number>(context, 'baseDelay') || 1000;
+    const maxRetries = this.getInput<number>(context, 'maxRetries');
+    const baseDelay = this.getInput<number>(context, 'baseDelay');
     
     if (typeof operation !== 'function') {
       throw new Error('Operation must be a function');
     }
+    if (typeof maxRetries !== 'number' || !Number.isInteger(maxRetries) || maxRetries < 0) {
+      throw new Error('Max retries must be a non-negative integer');
+    }
+    if (typeof baseDelay !== 'number' || !Number.isFinite(baseDelay) || baseDelay < 0) {
+      throw new Error('Base delay must be a non-negative number');
+    }
     
     let lastError: Error | undefined;
     
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      this.throwIfAborted(context);
+      
       try {
         const result = await operation();
         this.setOutput(outputs, 'result', result);
@@ -351,7 +368,8 @@ export class RetryNode extends BaseNode {
         if (attempt < maxRetries) {
           // Exponential backoff
           const delay = baseDelay * Math.pow(2, attempt);
-          await new Promise(resolve => setTimeout(resolve, delay));
+          context.onRetry?.(attempt + 1, lastError, delay);
+          await this.wait(context, delay);
         }
       }
     }
@@ -0,0 +1,185 @@
+import { SubgraphNode, ExposedPort, registerSubgraphType } from './SubgraphNode';
+import { NodeExecutor } from '../../core/NodeExecutor';
+import { BaseNode } from '../../core/BaseNode';
+import { NodeRegistry } from '../../registry/NodeRegistry';
+import { GraphDefinition } from '../../serialization/GraphSerializer';
+import { DataTypes, ExecutionContext, ExecutionStatus, NodeConfig, NodeError, PortId } from '../../types';
+
+class DoubleNode extends BaseNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Double',
+      inputs: [{ id: 'in', name: 'In', dataType: DataTypes.NUMBER, required: true }],
+      outputs: [{ id: 'out', name: 'Out', dataType: DataTypes.NUMBER }]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    const value = this.getInput<number>(context, 'in')!;
+    if (value < 0) {
+      throw new Error('Negative input');
+    }
+    return new Map([['out', value * 2]]);
+  }
+}
+
+class ApplyNode extends BaseNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Apply',
+      inputs: [
+        { id: 'fn', name: 'Function', dataType: DataTypes.FUNCTION, required: true },
+        { id: 'value', name: 'Value', dataType: DataTypes.NUMBER, required: true }
+      ],
+      outputs: [{ id: 'result', name: 'Result', dataType: DataTypes.NUMBER }]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    const fn = this.getInput<(value: number) => number>(context, 'fn')!;
+    return new Map([['result', fn(this.getInput<number>(context, 'value')!)]]);
+  }
+}
+
+/** in * 4 */
+const definition: GraphDefinition = {
+  version: '1.0.0',
+  name: 'Quadruple',
+  nodes: [
+    { id: 'first', type: 'test.double', name: 'First' },
+    { id: 'second', type: 'test.double', name: 'Second' }
+  ],
+  connections: [
+    { id: 'c1', from: { nodeId: 'first', portId: 'out' }, to: { nodeId: 'second', portId: 'in' } }
+  ]
+};
+
+const exposedInputs: ExposedPort[] = [{ id: 'value', nodeId: 'first', portId: 'in' }];
+const exposedOutputs: ExposedPort[] = [{ id: 'result', name: 'Quadrupled', nodeId: 'second', portId: 'out' }];
+
+const run = (node: SubgraphNode, value: number) => {
+  const executor = new NodeExecutor();
+  executor.addNode(node);
+  return executor.execute(new Map([[node.id, new Map([['value', value]])]]));
+};
+
+describe('SubgraphNode', () => {
+  beforeAll(() => {
+    const registry = NodeRegistry.getInstance();
+    registry.register(DoubleNode, {
+      type: 'test.double',
+      displayName: 'Double',
+      description: 'Doubles a number',
+      category: 'Test',
+      version: '1.0.0',
+      tags: [],
+      inputs: [],
+      outputs: []
+    });
+    registry.register(ApplyNode, {
+      type: 'test.apply',
+      displayName: 'Apply',
+      description: 'Applies a function to a number',
+      category: 'Test',
+      version: '1.0.0',
+      tags: [],
+      inputs: [],
+      outputs: []
+    });
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('runs the inner graph through its exposed ports', async () => {
+    const node = new SubgraphNode({ id: 'subgraph', definition, exposedInputs, exposedOutputs });
+
+    const results = await run(node, 3);
+
+    expect(results.get('subgraph')!.outputs!.get('result')).toBe(12);
+  });
+
+  it('keeps function constants of the inner graph', async () => {
+    const node = new SubgraphNode({
+      id: 'subgraph',
+      definition: {
+        version: '1.0.0',
+        name: 'Increment',
+        nodes: [{ id: 'apply', type: 'test.apply', name: 'Apply', constants: { fn: (value: number) => value + 1 } }],
+        connections: []
+      },
+      exposedInputs: [{ id: 'value', nodeId: 'apply', portId: 'value' }],
+      exposedOutputs: [{ id: 'result', nodeId: 'apply', portId: 'result' }]
+    });
+
+    const results = await run(node, 3);
+
+    expect(results.get('subgraph')!.outputs!.get('result')).toBe(4);
+  });
+
+  it('takes its port definitions from the exposed inner ports', () => {
+    const node = new SubgraphNode({ definition, exposedInputs, exposedOutputs });
+
+    expect(node.name).toBe('Quadruple');
+    expect(node.inputs[0]).toMatchObject({ id: 'value', name: 'In', dataType: DataTypes.NUMBER });
+    expect(node.outputs[0]).toMatchObject({ id: 'result', name: 'Quadrupled' });
+  });
+
+  it('rejects exposed ports that do not exist on the inner graph', () => {
+    expect(() => new SubgraphNode({
+      definition,
+      exposedInputs: [{ id: 'x', nodeId: 'first', portId: 'missing' }]
+    })).toThrow('port missing not found on inner node first');
+  });
+
+  it('fails with the inner node error when an exposed output node fails', async () => {
+    const node = new SubgraphNode({ id: 'subgraph', definition, exposedInputs, exposedOutputs });
+
+    const results = await run(node, -1);
+    const result = results.get('subgraph')!;
+
+    expect(result.status).toBe(ExecutionStatus.FAILED);
+    expect(result.error).toBeInstanceOf(NodeError);
+    expect(result.error!.message).toContain('Inner node second of Quadruple failed');
+  });
+
+  it('registers a definition as its own node type', () => {
+    registerSubgraphType({
+      definition,
+      exposedInputs,
+      exposedOutputs,
+      metadata: { type: 'test.quadruple', version: '1.0.0' }
+    });
+
+    const registry = NodeRegistry.getInstance();
+    const node = registry.create('test.quadruple', { id: 'created' });
+
+    expect(node).toBeInstanceOf(SubgraphNode);
+    expect(node.id).toBe('created');
+    expect(registry.getMetadata('test.quadruple')).toMatchObject({ category: 'Subgraph', displayName: 'Quadruple' });
+    expect(registry.getMetadata('test.quadruple')!.inputs.map(port => port.id)).toEqual(['value']);
+  });
+
+  it('versions a registered type independently of the definition format', () => {
+    const registry = NodeRegistry.getInstance();
+    const older = { ...definition, version: '0.9.0' };
+
+    registerSubgraphType({ definition: older, exposedInputs, exposedOutputs, metadata: { type: 'test.quadruple.default' } });
+    registerSubgraphType({
+      definition: older,
+      exposedInputs,
+      exposedOutputs,
+      metadata: { type: 'test.quadruple.versioned', version: '2.1.0' }
+    });
+
+    expect(registry.getMetadata('test.quadruple.default')!.version).toBe('1.0.0');
+    expect(registry.getMetadata('test.quadruple.versioned')!.version).toBe('2.1.0');
+  });
+});
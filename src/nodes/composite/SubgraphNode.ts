@@ -0,0 +1,210 @@
+import { BaseNode } from '../../core/BaseNode';
+import { NodeExecutor } from '../../core/NodeExecutor';
+import { NodeRegistry, NodeMetadata } from '../../registry/NodeRegistry';
+import { GraphSerializer, GraphDefinition } from '../../serialization/GraphSerializer';
+import { ExecutionContext, NodeConfig, NodeId, PortId, Port, NodeError } from '../../types';
+
+/**
+ * An inner port exposed as a port of the composite node
+ */
+export interface ExposedPort {
+  /** Port id on the composite node */
+  id: PortId;
+  /** Display name (defaults to the inner port's name) */
+  name?: string;
+  /** Description (defaults to the inner port's description) */
+  description?: string;
+  /** Inner node owning the port */
+  nodeId: NodeId;
+  /** Port id on the inner node */
+  portId: PortId;
+}
+
+/**
+ * Subgraph node configuration
+ */
+export interface SubgraphNodeConfig extends Partial<NodeConfig> {
+  /** Graph run by the node */
+  definition?: GraphDefinition;
+  /** Inner input ports exposed as the node's inputs */
+  exposedInputs?: ExposedPort[];
+  /** Inner output ports exposed as the node's outputs */
+  exposedOutputs?: ExposedPort[];
+}
+
+/**
+ * Subgraph node - wraps a whole graph definition as a single reusable node
+ * The inner graph runs with a child NodeExecutor on every execution
+ */
+export class SubgraphNode extends BaseNode {
+  private readonly definition: GraphDefinition;
+  private readonly inner: NodeExecutor;
+  private readonly exposedInputs: ExposedPort[];
+  private readonly exposedOutputs: ExposedPort[];
+
+  constructor(config?: SubgraphNodeConfig) {
+    if (!config?.definition) {
+      throw new Error('Subgraph node requires a graph definition');
+    }
+
+    const definition = config.definition;
+    const inner = new GraphSerializer().deserializeToExecutor(definition);
+    const exposedInputs = config.exposedInputs || [];
+    const exposedOutputs = config.exposedOutputs || [];
+
+    super({
+      ...config,
+      name: config.name || definition.name,
+      description: config.description || definition.description,
+      inputs: exposedInputs.map(exposed => SubgraphNode.resolvePort(inner, exposed, 'input')),
+      outputs: exposedOutputs.map(exposed => SubgraphNode.resolvePort(inner, exposed, 'output'))
+    });
+
+    this.definition = definition;
+    this.inner = inner;
+    this.exposedInputs = exposedInputs;
+    this.exposedOutputs = exposedOutputs;
+  }
+
+  /**
+   * Config that recreates this node, including the inner graph and exposed ports
+   */
+  getConfig(): SubgraphNodeConfig {
+    return {
+      ...super.getConfig(),
+      definition: this.definition,
+      exposedInputs: this.exposedInputs,
+      exposedOutputs: this.exposedOutputs
+    };
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    const outputs = new Map<PortId, any>();
+
+    // Route the node's inputs to the inner ports they expose
+    const initialInputs = new Map<NodeId, Map<PortId, any>>();
+    for (const exposed of this.exposedInputs) {
+      if (!context.inputs.has(exposed.id)) {
+        continue;
+      }
+      const inputs = initialInputs.get(exposed.nodeId) || new Map<PortId, any>();
+      inputs.set(exposed.portId, context.inputs.get(exposed.id));
+      initialInputs.set(exposed.nodeId, inputs);
+    }
+
+    const results = await this.inner.executeParallel(initialInputs, {
+      executionId: `${context.executionId}/${this.id}`,
+      signal: context.signal
+    });
+
+    for (const exposed of this.exposedOutputs) {
+      const result = results.get(exposed.nodeId);
+      if (!result?.success) {
+        throw new NodeError(
+          `Inner node ${exposed.nodeId} of ${this.name} failed: ${result?.error?.message || result?.status || 'not run'}`,
+          this.id,
+          exposed.id,
+          result?.error
+        );
+      }
+      this.setOutput(outputs, exposed.id, result.outputs?.get(exposed.portId));
+    }
+
+    return outputs;
+  }
+
+  /**
+   * Get the wrapped graph definition
+   */
+  getDefinition(): GraphDefinition {
+    return this.definition;
+  }
+
+  /**
+   * Get the child executor running the inner graph
+   */
+  getInnerExecutor(): NodeExecutor {
+    return this.inner;
+  }
+
+  /**
+   * Build the composite port for an exposed inner port
+   */
+  private static resolvePort(inner: NodeExecutor, exposed: ExposedPort, direction: 'input' | 'output'): Port {
+    const node = inner.getNodes().find(n => n.id === exposed.nodeId);
+    if (!node) {
+      throw new Error(`Exposed ${direction} '${exposed.id}' refers to unknown inner node ${exposed.nodeId}`);
+    }
+
+    const ports = direction === 'input' ? node.inputs : node.outputs;
+    const port = ports.find(p => p.id === exposed.portId);
+    if (!port) {
+      throw new Error(`Exposed ${direction} '${exposed.id}': port ${exposed.portId} not found on inner node ${exposed.nodeId}`);
+    }
+
+    return {
+      ...port,
+      id: exposed.id,
+      name: exposed.name || port.name,
+      description: exposed.description || port.description
+    };
+  }
+}
+
+/**
+ * Options for registering a graph definition as a node type
+ */
+export interface SubgraphTypeOptions {
+  /** Graph run by the node type */
+  definition: GraphDefinition;
+  /** Inner input ports exposed as the node's inputs */
+  exposedInputs: ExposedPort[];
+  /** Inner output ports exposed as the node's outputs */
+  exposedOutputs: ExposedPort[];
+  /**
+   * Registry metadata; ports are derived from the exposed inner ports
+   * The version is that of the node type, not the definition's format version, and defaults to 1.0.0
+   */
+  metadata: Omit<NodeMetadata, 'inputs' | 'outputs' | 'displayName' | 'description' | 'category' | 'version' | 'tags'> &
+    Partial<Pick<NodeMetadata, 'displayName' | 'description' | 'category' | 'version' | 'tags'>>;
+}
+
+/**
+ * Register a graph definition as its own node type
+ * The type then appears in registry search and can be serialized like any built-in node
+ */
+export function registerSubgraphType(options: SubgraphTypeOptions): void {
+  const { definition, exposedInputs, exposedOutputs } = options;
+
+  const nodeClass = class extends SubgraphNode {
+    constructor(config?: Partial<NodeConfig>) {
+      super({
+        name: options.metadata.displayName,
+        ...config,
+        definition,
+        exposedInputs,
+        exposedOutputs
+      });
+    }
+
+    // The graph belongs to the type, so only the node's own settings are recorded
+    getConfig(): Partial<NodeConfig> {
+      const { definition: _definition, exposedInputs: _inputs, exposedOutputs: _outputs, ...config } = super.getConfig();
+      return config;
+    }
+  };
+
+  // Build one instance to derive the port definitions
+  const prototype = new nodeClass();
+
+  NodeRegistry.getInstance().register(nodeClass, {
+    displayName: definition.name,
+    description: definition.description || `Subgraph: ${definition.name}`,
+    category: 'Subgraph',
+    version: '1.0.0',
+    tags: ['subgraph'],
+    ...options.metadata,
+    inputs: prototype.inputs,
+    outputs: prototype.outputs
+  });
+}
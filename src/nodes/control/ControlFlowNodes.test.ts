@@ -0,0 +1,68 @@
+import { BranchNode, SwitchNode } from './ControlFlowNodes';
+import { NodeExecutor } from '../../core/NodeExecutor';
+import { BaseNode } from '../../core/BaseNode';
+import { DataTypes, ExecutionContext, ExecutionStatus, NodeConfig, NodeId, PortId } from '../../types';
+
+class EchoNode extends BaseNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Echo',
+      inputs: [{ id: 'in', name: 'In', dataType: DataTypes.ANY, required: true }],
+      outputs: [{ id: 'out', name: 'Out', dataType: DataTypes.ANY }]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    return new Map([['out', this.getInput(context, 'in')]]);
+  }
+}
+
+const connect = (executor: NodeExecutor, fromNode: NodeId, fromPort: PortId, toNode: NodeId): void => {
+  executor.addConnection({ id: `${fromNode}.${fromPort}->${toNode}`, fromNode, fromPort, toNode, toPort: 'in' });
+};
+
+describe('BranchNode', () => {
+  let executor: NodeExecutor;
+
+  beforeEach(() => {
+    executor = new NodeExecutor();
+    executor.addNode(new BranchNode({ id: 'branch' }));
+    executor.addNode(new EchoNode({ id: 'onTrue' }));
+    executor.addNode(new EchoNode({ id: 'onFalse' }));
+    executor.addNode(new EchoNode({ id: 'afterFalse' }));
+    connect(executor, 'branch', 'true', 'onTrue');
+    connect(executor, 'branch', 'false', 'onFalse');
+    connect(executor, 'onFalse', 'out', 'afterFalse');
+  });
+
+  it('runs only the taken branch and everything reachable only from the other is inactive', async () => {
+    const results = await executor.executeParallel(
+      new Map([['branch', new Map<PortId, any>([['condition', true], ['value', 'payload']])]])
+    );
+
+    expect(results.get('onTrue')!.outputs!.get('out')).toBe('payload');
+    expect(results.get('onFalse')!.status).toBe(ExecutionStatus.INACTIVE);
+    expect(results.get('afterFalse')!.status).toBe(ExecutionStatus.INACTIVE);
+    expect(results.get('branch')!.inactiveOutputs).toEqual(['false']);
+  });
+});
+
+describe('SwitchNode', () => {
+  it('routes to the matching case, or to default', async () => {
+    const executor = new NodeExecutor();
+    executor.addNode(new SwitchNode({ id: 'switch', cases: ['a', 'b'] }));
+    executor.addNode(new EchoNode({ id: 'onA' }));
+    executor.addNode(new EchoNode({ id: 'onDefault' }));
+    connect(executor, 'switch', 'a', 'onA');
+    connect(executor, 'switch', 'default', 'onDefault');
+
+    const matched = await executor.execute(new Map([['switch', new Map([['key', 'a']])]]));
+    expect(matched.get('onA')!.outputs!.get('out')).toBe('a');
+    expect(matched.get('onDefault')!.status).toBe(ExecutionStatus.INACTIVE);
+
+    const unmatched = await executor.execute(new Map([['switch', new Map([['key', 'z']])]]));
+    expect(unmatched.get('onA')!.status).toBe(ExecutionStatus.INACTIVE);
+    expect(unmatched.get('onDefault')!.outputs!.get('out')).toBe('z');
+  });
+});
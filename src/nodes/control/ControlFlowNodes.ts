@@ -0,0 +1,161 @@
+import { BaseNode } from '../../core/BaseNode';
+import { ExecutionContext, NodeConfig, PortId, Port, DataTypes } from '../../types';
+
+/**
+ * Control Flow Examples
+ * Nodes here route values to one output and mark the others inactive,
+ * so the executor skips every node reachable only through the inactive ports
+ */
+
+/**
+ * Branch node - if/else routing where only the taken branch runs
+ */
+export class BranchNode extends BaseNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Branch',
+      description: config?.description || 'Routes a value to the true or false branch; the other branch does not run',
+      inputs: [
+        {
+          id: 'condition',
+          name: 'Condition',
+          dataType: DataTypes.BOOLEAN,
+          required: true,
+          description: 'Boolean condition to evaluate'
+        },
+        {
+          id: 'value',
+          name: 'Value',
+          dataType: DataTypes.ANY,
+          required: false,
+          description: 'Value passed to the taken branch (defaults to the condition)'
+        }
+      ],
+      outputs: [
+        {
+          id: 'true',
+          name: 'True',
+          dataType: DataTypes.ANY,
+          description: 'Receives the value when the condition is true'
+        },
+        {
+          id: 'false',
+          name: 'False',
+          dataType: DataTypes.ANY,
+          description: 'Receives the value when the condition is false'
+        }
+      ]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    const outputs = new Map<PortId, any>();
+
+    const condition = this.getInput<boolean>(context, 'condition');
+    const value = context.inputs.has('value') ? this.getInput<any>(context, 'value') : condition;
+
+    const taken = condition ? 'true' : 'false';
+    const notTaken = condition ? 'false' : 'true';
+
+    this.setOutput(outputs, taken, value);
+    this.deactivateOutput(context, notTaken);
+
+    return outputs;
+  }
+}
+
+/**
+ * Switch node configuration
+ */
+export interface SwitchNodeConfig extends Partial<NodeConfig> {
+  /** Case values; each becomes an output port with the same id */
+  cases?: string[];
+}
+
+/**
+ * Switch node - routes a value to the output matching a key
+ */
+export class SwitchNode extends BaseNode {
+  private readonly cases: string[];
+
+  constructor(config?: SwitchNodeConfig) {
+    const cases = config?.cases || [];
+    if (cases.includes('default')) {
+      throw new Error(`Switch case 'default' is reserved`);
+    }
+
+    const caseOutputs: Port[] = cases.map(caseValue => ({
+      id: caseValue,
+      name: caseValue,
+      dataType: DataTypes.ANY,
+      description: `Receives the value when key is '${caseValue}'`
+    }));
+
+    super({
+      ...config,
+      name: config?.name || 'Switch',
+      description: config?.description || 'Routes a value to the output matching the key; other outputs do not run',
+      inputs: [
+        {
+          id: 'key',
+          name: 'Key',
+          dataType: DataTypes.ANY,
+          required: true,
+          description: 'Key compared against the case values'
+        },
+        {
+          id: 'value',
+          name: 'Value',
+          dataType: DataTypes.ANY,
+          required: false,
+          description: 'Value passed to the matching output (defaults to the key)'
+        }
+      ],
+      outputs: [
+        ...caseOutputs,
+        {
+          id: 'default',
+          name: 'Default',
+          dataType: DataTypes.ANY,
+          description: 'Receives the value when no case matches'
+        }
+      ]
+    });
+
+    this.cases = cases;
+  }
+
+  /**
+   * Config that recreates this node, including its cases
+   */
+  getConfig(): SwitchNodeConfig {
+    return { ...super.getConfig(), cases: [...this.cases] };
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    const outputs = new Map<PortId, any>();
+
+    const key = this.getInput<any>(context, 'key');
+    const value = context.inputs.has('value') ? this.getInput<any>(context, 'value') : key;
+
+    const matched = this.cases.find(caseValue => caseValue === String(key)) ?? 'default';
+
+    for (const output of this.outputs) {
+      if (output.id === matched) {
+        this.setOutput(outputs, output.id, value);
+      } else {
+        this.deactivateOutput(context, output.id);
+      }
+    }
+
+    return outputs;
+  }
+
+  /**
+   * Get the configured case values
+   */
+  getCases(): string[] {
+    return [...this.cases];
+  }
+}
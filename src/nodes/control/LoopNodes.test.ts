@@ -0,0 +1,216 @@
+import { ForEachNode, WhileNode } from './LoopNodes';
+import { NodeExecutor } from '../../core/NodeExecutor';
+import { BaseNode } from '../../core/BaseNode';
+import { NodeRegistry } from '../../registry/NodeRegistry';
+import { registerBuiltInNodes } from '../../registry/registerBuiltInNodes';
+import { GraphSerializer } from '../../serialization/GraphSerializer';
+import { DataTypes, ExecutionContext, ExecutionStatus, NodeConfig, NodeId, PortId } from '../../types';
+
+/**
+ * Doubles its input, taking longer for smaller values so iterations finish out of order
+ */
+class SlowDoubleNode extends BaseNode {
+  public executionIds: string[] = [];
+
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Slow Double',
+      inputs: [{ id: 'in', name: 'In', dataType: DataTypes.NUMBER, required: true }],
+      outputs: [{ id: 'out', name: 'Out', dataType: DataTypes.NUMBER }]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    this.executionIds.push(context.executionId);
+    const value = this.getInput<number>(context, 'in')!;
+    await new Promise(resolve => setTimeout(resolve, Math.max(0, 20 - value * 5)));
+    return new Map([['out', value * 2]]);
+  }
+}
+
+/**
+ * Decrements its state and reports whether it is still positive
+ */
+class CountdownNode extends BaseNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Countdown',
+      inputs: [{ id: 'state', name: 'State', dataType: DataTypes.NUMBER, required: true }],
+      outputs: [
+        { id: 'next', name: 'Next', dataType: DataTypes.NUMBER },
+        { id: 'continue', name: 'Continue', dataType: DataTypes.BOOLEAN }
+      ]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    const next = this.getInput<number>(context, 'state')! - 1;
+    return new Map<PortId, any>([['next', next], ['continue', next > 0]]);
+  }
+}
+
+const bodyOf = (node: BaseNode): NodeExecutor => {
+  const body = new NodeExecutor();
+  body.addNode(node);
+  return body;
+};
+
+const run = (node: BaseNode, inputs: Map<PortId, any>): Promise<Map<NodeId, any>> => {
+  const executor = new NodeExecutor();
+  executor.addNode(node);
+  return executor.execute(new Map([[node.id, inputs]]), { executionId: 'outer' });
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('ForEachNode', () => {
+  const ref = (portId: PortId) => ({ nodeId: 'double', portId });
+
+  it('collects results in item order when iterations finish out of order', async () => {
+    const loop = new ForEachNode({
+      id: 'loop',
+      body: bodyOf(new SlowDoubleNode({ id: 'double' })),
+      itemInput: ref('in'),
+      resultOutput: ref('out'),
+      concurrency: 4
+    });
+
+    const results = await run(loop, new Map([['items', [1, 2, 3, 4]]]));
+
+    expect(results.get('loop')!.outputs!.get('results')).toEqual([2, 4, 6, 8]);
+    expect(results.get('loop')!.outputs!.get('count')).toBe(4);
+  });
+
+  it('runs each iteration under its own execution id', async () => {
+    const double = new SlowDoubleNode({ id: 'double' });
+    const loop = new ForEachNode({ id: 'loop', body: bodyOf(double), itemInput: ref('in') });
+
+    await run(loop, new Map([['items', [3, 4]]]));
+
+    expect(double.executionIds).toEqual(['outer/loop/0', 'outer/loop/1']);
+  });
+
+  it('fails when the items exceed the iteration limit', async () => {
+    const double = new SlowDoubleNode({ id: 'double' });
+    const loop = new ForEachNode({ id: 'loop', body: bodyOf(double), itemInput: ref('in'), maxIterations: 2 });
+
+    const results = await run(loop, new Map([['items', [1, 2, 3]]]));
+
+    expect(results.get('loop')!.status).toBe(ExecutionStatus.FAILED);
+    expect(results.get('loop')!.error!.message).toContain('iteration limit of 2');
+    expect(double.executionIds).toEqual([]);
+  });
+});
+
+describe('WhileNode', () => {
+  const ref = (portId: PortId) => ({ nodeId: 'countdown', portId });
+
+  it('feeds each iteration the previous state until the condition is false', async () => {
+    const loop = new WhileNode({
+      id: 'loop',
+      body: bodyOf(new CountdownNode({ id: 'countdown' })),
+      stateInput: ref('state'),
+      stateOutput: ref('next'),
+      conditionOutput: ref('continue')
+    });
+
+    const results = await run(loop, new Map([['initial', 3]]));
+
+    expect(results.get('loop')!.outputs!.get('result')).toBe(0);
+    expect(results.get('loop')!.outputs!.get('count')).toBe(3);
+  });
+
+  it('fails when the condition stays true past the iteration limit', async () => {
+    const loop = new WhileNode({
+      id: 'loop',
+      body: bodyOf(new CountdownNode({ id: 'countdown' })),
+      stateInput: ref('state'),
+      stateOutput: ref('next'),
+      conditionOutput: ref('continue'),
+      maxIterations: 5
+    });
+
+    const results = await run(loop, new Map([['initial', 100]]));
+
+    expect(results.get('loop')!.status).toBe(ExecutionStatus.FAILED);
+    expect(results.get('loop')!.error!.message).toContain('iteration limit of 5');
+  });
+});
+
+describe('loop serialization', () => {
+  const registry = NodeRegistry.getInstance();
+  const serializer = new GraphSerializer();
+
+  const roundTrip = (node: BaseNode): NodeExecutor => {
+    const executor = new NodeExecutor();
+    executor.addNode(node);
+    return serializer.deserializeToExecutor(serializer.fromJSON(serializer.toJSON(serializer.serializeExecutor(executor))));
+  };
+
+  beforeAll(() => {
+    registerBuiltInNodes();
+    for (const [nodeClass, type] of [[SlowDoubleNode, 'test.slow-double'], [CountdownNode, 'test.countdown']] as const) {
+      registry.register(nodeClass, {
+        type,
+        displayName: type,
+        description: 'Loop body node',
+        category: 'Test',
+        version: '1.0.0',
+        tags: [],
+        inputs: [],
+        outputs: []
+      });
+    }
+  });
+
+  it('registers the loops as built-in control flow nodes', () => {
+    expect(registry.getMetadata('control.for-each')).toMatchObject({ category: 'Control Flow', displayName: 'For Each' });
+    expect(registry.getMetadata('control.while')).toMatchObject({ category: 'Control Flow', displayName: 'While' });
+  });
+
+  it('saves the body as a graph definition and recreates the loop from it', async () => {
+    const loop = new ForEachNode({
+      id: 'loop',
+      body: bodyOf(new SlowDoubleNode({ id: 'double' })),
+      itemInput: { nodeId: 'double', portId: 'in' },
+      resultOutput: { nodeId: 'double', portId: 'out' },
+      concurrency: 2,
+      maxIterations: 10
+    });
+
+    const config = loop.getConfig();
+    expect(config.body).toMatchObject({ nodes: [{ id: 'double', type: 'test.slow-double' }] });
+
+    const executor = roundTrip(loop);
+    const restored = executor.getNode('loop') as ForEachNode;
+    expect(restored).toBeInstanceOf(ForEachNode);
+    expect(restored.getConfig()).toMatchObject({ concurrency: 2, maxIterations: 10, itemInput: { nodeId: 'double', portId: 'in' } });
+
+    const results = await executor.execute(new Map([['loop', new Map([['items', [1, 2, 3]]])]]));
+    expect(results.get('loop')!.outputs!.get('results')).toEqual([2, 4, 6]);
+  });
+
+  it('keeps constant body inputs as constants of the saved body', async () => {
+    const loop = new WhileNode({
+      id: 'loop',
+      body: bodyOf(new CountdownNode({ id: 'countdown' })),
+      bodyInputs: new Map([['countdown', new Map([['state', 1]])]]),
+      stateOutput: { nodeId: 'countdown', portId: 'next' },
+      conditionOutput: { nodeId: 'countdown', portId: 'continue' }
+    });
+
+    expect(loop.getConfig().body).toMatchObject({ nodes: [{ id: 'countdown', constants: { state: 1 } }] });
+
+    const results = await roundTrip(loop).execute();
+    expect(results.get('loop')!.outputs!.get('result')).toBe(0);
+    expect(results.get('loop')!.outputs!.get('count')).toBe(1);
+  });
+});
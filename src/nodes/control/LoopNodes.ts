@@ -0,0 +1,377 @@
+import { BaseNode } from '../../core/BaseNode';
+import { NodeExecutor } from '../../core/NodeExecutor';
+import { GraphSerializer, GraphDefinition } from '../../serialization/GraphSerializer';
+import {
+  ExecutionContext,
+  ExecutionResult,
+  NodeConfig,
+  NodeId,
+  PortId,
+  NodeError,
+  DataTypes
+} from '../../types';
+
+/**
+ * Loop Examples
+ * Loops run a nested graph (the body) with its own NodeExecutor; the outer graph stays a DAG
+ */
+
+/**
+ * Reference to a port of a node inside a loop body
+ */
+export interface PortRef {
+  nodeId: NodeId;
+  portId: PortId;
+}
+
+/**
+ * Configuration shared by loop nodes
+ */
+export interface LoopNodeConfig extends Partial<NodeConfig> {
+  /** Executor holding the body graph, or a definition to build it from (as returned by getConfig) */
+  body?: NodeExecutor | GraphDefinition;
+  /** Constant inputs for body nodes, applied on every iteration */
+  bodyInputs?: Map<NodeId, Map<PortId, any>>;
+  /** Maximum number of iterations before the loop fails (default: 1000) */
+  maxIterations?: number;
+}
+
+/**
+ * Default iteration limit for loop nodes
+ */
+export const DEFAULT_MAX_ITERATIONS = 1000;
+
+/**
+ * Base class for loop nodes
+ */
+abstract class LoopNode extends BaseNode {
+  protected body?: NodeExecutor;
+  protected bodyInputs: Map<NodeId, Map<PortId, any>>;
+  protected maxIterations: number;
+
+  constructor(nodeConfig: NodeConfig, config?: LoopNodeConfig) {
+    super(nodeConfig);
+    this.body = config?.body instanceof NodeExecutor || config?.body === undefined
+      ? config?.body
+      : new GraphSerializer().deserializeToExecutor(config.body);
+    this.bodyInputs = config?.bodyInputs || new Map();
+    this.maxIterations = config?.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  }
+
+  /**
+   * Config that recreates this node; the body is saved as a graph definition
+   * with the constant body inputs folded into its nodes' constants
+   */
+  getConfig(): LoopNodeConfig {
+    const config: LoopNodeConfig = { ...super.getConfig(), maxIterations: this.maxIterations };
+    if (this.body) {
+      const definition = new GraphSerializer().serializeExecutor(this.body, { name: `${this.name} body` });
+      for (const node of definition.nodes) {
+        const inputs = this.bodyInputs.get(node.id);
+        if (inputs && inputs.size > 0) {
+          node.constants = { ...node.constants, ...Object.fromEntries(inputs) };
+        }
+      }
+      config.body = definition;
+    }
+    return config;
+  }
+
+  /**
+   * Replace the body graph
+   */
+  setBody(body: NodeExecutor): void {
+    this.body = body;
+  }
+
+  /**
+   * Get the body graph
+   */
+  getBody(): NodeExecutor | undefined {
+    return this.body;
+  }
+
+  /**
+   * Run the body once with the given port values on top of the constant body inputs
+   */
+  protected async runIteration(
+    context: ExecutionContext,
+    index: number,
+    values: Array<[PortRef | undefined, any]>
+  ): Promise<Map<NodeId, ExecutionResult>> {
+    if (!this.body) {
+      throw new Error(`${this.name} has no body graph`);
+    }
+
+    const initialInputs = new Map<NodeId, Map<PortId, any>>();
+    this.bodyInputs.forEach((inputs, nodeId) => initialInputs.set(nodeId, new Map(inputs)));
+
+    for (const [ref, value] of values) {
+      if (!ref) {
+        continue;
+      }
+      const inputs = initialInputs.get(ref.nodeId) || new Map<PortId, any>();
+      inputs.set(ref.portId, value);
+      initialInputs.set(ref.nodeId, inputs);
+    }
+
+    return this.body.executeParallel(initialInputs, {
+      executionId: `${context.executionId}/${this.id}/${index}`,
+      signal: context.signal
+    });
+  }
+
+  /**
+   * Read a port value from an iteration's results, failing if the producing node failed
+   */
+  protected readPort(results: Map<NodeId, ExecutionResult>, ref: PortRef, index: number): any {
+    const result = results.get(ref.nodeId);
+    if (!result) {
+      throw new NodeError(`Iteration ${index}: body node ${ref.nodeId} did not run`, this.id);
+    }
+    if (!result.success) {
+      throw new NodeError(
+        `Iteration ${index}: body node ${ref.nodeId} failed: ${result.error?.message || result.status}`,
+        this.id,
+        undefined,
+        result.error
+      );
+    }
+    return result.outputs?.get(ref.portId);
+  }
+}
+
+/**
+ * ForEach node configuration
+ */
+export interface ForEachNodeConfig extends LoopNodeConfig {
+  /** Body port that receives the current item */
+  itemInput?: PortRef;
+  /** Body port that receives the current index */
+  indexInput?: PortRef;
+  /** Body port whose value is collected as the item's result */
+  resultOutput?: PortRef;
+  /** Number of iterations run at once (default: 1) */
+  concurrency?: number;
+}
+
+/**
+ * ForEach node - runs the body once per array item
+ */
+export class ForEachNode extends LoopNode {
+  private itemInput?: PortRef;
+  private indexInput?: PortRef;
+  private resultOutput?: PortRef;
+  private concurrency: number;
+
+  constructor(config?: ForEachNodeConfig) {
+    super({
+      ...config,
+      name: config?.name || 'For Each',
+      description: config?.description || 'Runs a body graph once for each item of an array',
+      inputs: [
+        {
+          id: 'items',
+          name: 'Items',
+          dataType: DataTypes.ARRAY,
+          required: true,
+          description: 'Items to iterate over'
+        }
+      ],
+      outputs: [
+        {
+          id: 'results',
+          name: 'Results',
+          dataType: DataTypes.ARRAY,
+          description: 'Body result for each item, in item order'
+        },
+        {
+          id: 'count',
+          name: 'Count',
+          dataType: DataTypes.NUMBER,
+          description: 'Number of iterations run'
+        },
+        {
+          id: 'iterations',
+          name: 'Iterations',
+          dataType: DataTypes.ARRAY,
+          description: 'Body execution results for each iteration'
+        }
+      ]
+    }, config);
+
+    this.itemInput = config?.itemInput;
+    this.indexInput = config?.indexInput;
+    this.resultOutput = config?.resultOutput;
+    this.concurrency = Math.max(1, config?.concurrency ?? 1);
+  }
+
+  /**
+   * Config that recreates this node, including its body ports and concurrency
+   */
+  getConfig(): ForEachNodeConfig {
+    return {
+      ...super.getConfig(),
+      itemInput: this.itemInput,
+      indexInput: this.indexInput,
+      resultOutput: this.resultOutput,
+      concurrency: this.concurrency
+    };
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    const outputs = new Map<PortId, any>();
+
+    const items = this.getInput<any[]>(context, 'items');
+
+    if (!Array.isArray(items)) {
+      throw new Error('Items must be an array');
+    }
+
+    if (items.length > this.maxIterations) {
+      throw new Error(`${items.length} items exceed the iteration limit of ${this.maxIterations}`);
+    }
+
+    const results: any[] = new Array(items.length);
+    const iterations: Map<NodeId, ExecutionResult>[] = new Array(items.length);
+
+    // Worker pool: each worker takes the next item until none are left
+    let next = 0;
+    const worker = async () => {
+      while (next < items.length) {
+        this.throwIfAborted(context);
+
+        const index = next++;
+        const iteration = await this.runIteration(context, index, [
+          [this.itemInput, items[index]],
+          [this.indexInput, index]
+        ]);
+
+        iterations[index] = iteration;
+        results[index] = this.resultOutput
+          ? this.readPort(iteration, this.resultOutput, index)
+          : undefined;
+      }
+    };
+
+    const workers = Array.from({ length: Math.min(this.concurrency, items.length) }, () => worker());
+    await Promise.all(workers);
+
+    this.setOutput(outputs, 'results', results);
+    this.setOutput(outputs, 'count', items.length);
+    this.setOutput(outputs, 'iterations', iterations);
+
+    return outputs;
+  }
+}
+
+/**
+ * While node configuration
+ */
+export interface WhileNodeConfig extends LoopNodeConfig {
+  /** Body port that receives the current state */
+  stateInput?: PortRef;
+  /** Body port producing the next state */
+  stateOutput?: PortRef;
+  /** Body port producing whether to run another iteration */
+  conditionOutput?: PortRef;
+}
+
+/**
+ * While node - runs the body repeatedly, feeding each iteration's state into the next,
+ * until the condition port is false (the body always runs at least once)
+ */
+export class WhileNode extends LoopNode {
+  private stateInput?: PortRef;
+  private stateOutput?: PortRef;
+  private conditionOutput?: PortRef;
+
+  constructor(config?: WhileNodeConfig) {
+    super({
+      ...config,
+      name: config?.name || 'While',
+      description: config?.description || 'Runs a body graph repeatedly until its condition port is false',
+      inputs: [
+        {
+          id: 'initial',
+          name: 'Initial State',
+          dataType: DataTypes.ANY,
+          required: false,
+          description: 'State fed to the first iteration'
+        }
+      ],
+      outputs: [
+        {
+          id: 'result',
+          name: 'Result',
+          dataType: DataTypes.ANY,
+          description: 'State produced by the last iteration'
+        },
+        {
+          id: 'count',
+          name: 'Count',
+          dataType: DataTypes.NUMBER,
+          description: 'Number of iterations run'
+        },
+        {
+          id: 'iterations',
+          name: 'Iterations',
+          dataType: DataTypes.ARRAY,
+          description: 'Body execution results for each iteration'
+        }
+      ]
+    }, config);
+
+    this.stateInput = config?.stateInput;
+    this.stateOutput = config?.stateOutput;
+    this.conditionOutput = config?.conditionOutput;
+  }
+
+  /**
+   * Config that recreates this node, including its body ports
+   */
+  getConfig(): WhileNodeConfig {
+    return {
+      ...super.getConfig(),
+      stateInput: this.stateInput,
+      stateOutput: this.stateOutput,
+      conditionOutput: this.conditionOutput
+    };
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    const outputs = new Map<PortId, any>();
+
+    if (!this.conditionOutput) {
+      throw new Error(`${this.name} has no condition output configured`);
+    }
+
+    let state = this.getInput<any>(context, 'initial');
+    const iterations: Map<NodeId, ExecutionResult>[] = [];
+
+    for (let index = 0; ; index++) {
+      if (index >= this.maxIterations) {
+        throw new Error(`Loop did not finish within the iteration limit of ${this.maxIterations}`);
+      }
+
+      this.throwIfAborted(context);
+
+      const iteration = await this.runIteration(context, index, [[this.stateInput, state]]);
+      iterations.push(iteration);
+
+      if (this.stateOutput) {
+        state = this.readPort(iteration, this.stateOutput, index);
+      }
+
+      if (!this.readPort(iteration, this.conditionOutput, index)) {
+        break;
+      }
+    }
+
+    this.setOutput(outputs, 'result', state);
+    this.setOutput(outputs, 'count', iterations.length);
+    this.setOutput(outputs, 'iterations', iterations);
+
+    return outputs;
+  }
+}
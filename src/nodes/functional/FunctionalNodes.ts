@@ -1,5 +1,7 @@
 import { BaseNode } from '../../core/BaseNode';
-import { ExecutionContext, PortId, DataTypes } from '../../types';
+import { StreamingNode, SKIP_ITEM } from '../../core/StreamingNode';
+import { isAsyncIterable } from '../../core/streams';
+import { ExecutionContext, NodeConfig, PortId, DataTypes } from '../../types';
 
 /**
  * Functional Programming Paradigm Examples
@@ -9,10 +11,11 @@ import { ExecutionContext, PortId, DataTypes } from '../../types';
  * Map node - applies a function to each element in an array (functional)
  */
 export class MapNode extends BaseNode {
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'Map',
-      description: 'Applies a function to each element in an array',
+      ...config,
+      name: config?.name || 'Map',
+      description: config?.description || 'Applies a function to each element in an array',
       inputs: [
         {
           id: 'array',
@@ -66,10 +69,11 @@ export class MapNode extends BaseNode {
  * Filter node - filters array elements based on a predicate (functional)
  */
 export class FilterNode extends BaseNode {
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'Filter',
-      description: 'Filters array elements based on a predicate function',
+      ...config,
+      name: config?.name || 'Filter',
+      description: config?.description || 'Filters array elements based on a predicate function',
       inputs: [
         {
           id: 'array',
@@ -123,10 +127,11 @@ export class FilterNode extends BaseNode {
  * Reduce node - reduces array to a single value (functional)
  */
 export class ReduceNode extends BaseNode {
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'Reduce',
-      description: 'Reduces array to a single value using a reducer function',
+      ...config,
+      name: config?.name || 'Reduce',
+      description: config?.description || 'Reduces array to a single value using a reducer function',
       inputs: [
         {
           id: 'array',
@@ -188,10 +193,11 @@ export class ReduceNode extends BaseNode {
  * Compose node - composes multiple functions (functional)
  */
 export class ComposeNode extends BaseNode {
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'Compose',
-      description: 'Composes multiple functions into a single function',
+      ...config,
+      name: config?.name || 'Compose',
+      description: config?.description || 'Composes multiple functions into a single function',
       inputs: [
         {
           id: 'functions',
@@ -239,4 +245,176 @@ export class ComposeNode extends BaseNode {
     
     return outputs;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Streaming Variants
+ * These process one item at a time as downstream nodes pull them, so large inputs
+ * never have to be held in memory at once
+ */
+
+/**
+ * Stream map node - applies a function to each item of a stream (functional)
+ */
+export class StreamMapNode extends StreamingNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Stream Map',
+      description: config?.description || 'Applies a function to each item of a stream',
+      inputs: [
+        {
+          id: 'stream',
+          name: 'Stream',
+          dataType: DataTypes.STREAM,
+          required: true,
+          description: 'Input stream (or array) to map over'
+        },
+        {
+          id: 'function',
+          name: 'Function',
+          dataType: DataTypes.FUNCTION,
+          required: true,
+          description: 'Function to apply to each item (may be async)'
+        }
+      ],
+      outputs: [
+        {
+          id: 'result',
+          name: 'Result',
+          dataType: DataTypes.STREAM,
+          description: 'Stream of mapped items'
+        }
+      ]
+    });
+  }
+
+  protected beforeStream(context: ExecutionContext): void {
+    if (typeof this.getInput(context, 'function') !== 'function') {
+      throw new Error('Input must be a function');
+    }
+  }
+
+  protected processItem(item: any, index: number, context: ExecutionContext): any {
+    const fn = this.getInput<(x: any, index: number) => any>(context, 'function')!;
+    return fn(item, index);
+  }
+}
+
+/**
+ * Stream filter node - keeps the stream items matching a predicate (functional)
+ */
+export class StreamFilterNode extends StreamingNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Stream Filter',
+      description: config?.description || 'Keeps the stream items matching a predicate function',
+      inputs: [
+        {
+          id: 'stream',
+          name: 'Stream',
+          dataType: DataTypes.STREAM,
+          required: true,
+          description: 'Input stream (or array) to filter'
+        },
+        {
+          id: 'predicate',
+          name: 'Predicate',
+          dataType: DataTypes.FUNCTION,
+          required: true,
+          description: 'Predicate function to test each item (may be async)'
+        }
+      ],
+      outputs: [
+        {
+          id: 'result',
+          name: 'Result',
+          dataType: DataTypes.STREAM,
+          description: 'Stream of matching items'
+        }
+      ]
+    });
+  }
+
+  protected beforeStream(context: ExecutionContext): void {
+    if (typeof this.getInput(context, 'predicate') !== 'function') {
+      throw new Error('Input must be a function');
+    }
+  }
+
+  protected async processItem(item: any, index: number, context: ExecutionContext): Promise<any> {
+    const predicate = this.getInput<(x: any, index: number) => boolean | Promise<boolean>>(context, 'predicate')!;
+    return (await predicate(item, index)) ? item : SKIP_ITEM;
+  }
+}
+
+/**
+ * Stream reduce node - reduces a stream to a single value as items arrive (functional)
+ */
+export class StreamReduceNode extends BaseNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Stream Reduce',
+      description: config?.description || 'Reduces a stream to a single value using a reducer function',
+      inputs: [
+        {
+          id: 'stream',
+          name: 'Stream',
+          dataType: DataTypes.STREAM,
+          required: true,
+          description: 'Input stream (or array) to reduce'
+        },
+        {
+          id: 'reducer',
+          name: 'Reducer',
+          dataType: DataTypes.FUNCTION,
+          required: true,
+          description: 'Reducer function (may be async)'
+        },
+        {
+          id: 'initial',
+          name: 'Initial Value',
+          dataType: DataTypes.ANY,
+          required: false,
+          description: 'Initial value for reduction'
+        }
+      ],
+      outputs: [
+        {
+          id: 'result',
+          name: 'Result',
+          dataType: DataTypes.ANY,
+          description: 'Reduced result'
+        }
+      ]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    const outputs = new Map<PortId, any>();
+    
+    const stream = this.getInput<AsyncIterable<any>>(context, 'stream');
+    const reducer = this.getInput<(acc: any, val: any) => any>(context, 'reducer');
+    
+    if (!isAsyncIterable(stream)) {
+      throw new Error('Input must be a stream');
+    }
+    
+    if (typeof reducer !== 'function') {
+      throw new Error('Input must be a function');
+    }
+    
+    // Pull items one at a time; the accumulator is the only state kept
+    let accumulator = this.getInput<any>(context, 'initial');
+    for await (const item of stream) {
+      this.throwIfAborted(context);
+      accumulator = await reducer(accumulator, item);
+    }
+
+    this.setOutput(outputs, 'result', accumulator);
+    
+    return outputs;
+  }
+}
@@ -1,5 +1,5 @@
 import { BaseNode } from '../../core/BaseNode';
-import { ExecutionContext, PortId, DataTypes } from '../../types';
+import { ExecutionContext, NodeConfig, PortId, DataTypes } from '../../types';
 
 /**
  * Object-Oriented Programming Paradigm Examples
@@ -11,10 +11,11 @@ import { ExecutionContext, PortId, DataTypes } from '../../types';
 export class CalculatorNode extends BaseNode {
   private state: Map<string, number> = new Map();
 
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'Calculator',
-      description: 'Object-oriented calculator with state management',
+      ...config,
+      name: config?.name || 'Calculator',
+      description: config?.description || 'Object-oriented calculator with state management',
       inputs: [
         {
           id: 'operation',
@@ -146,17 +147,26 @@ export class CalculatorNode extends BaseNode {
   }
 }
 
+/**
+ * Counter node configuration
+ */
+export interface CounterNodeConfig extends Partial<NodeConfig> {
+  /** Amount added or removed per increment/decrement (default: 1) */
+  step?: number;
+}
+
 /**
  * Counter class node - demonstrates OOP with encapsulation
  */
 export class CounterNode extends BaseNode {
   private count: number = 0;
-  private step: number = 1;
+  private step: number;
 
-  constructor() {
+  constructor(config?: CounterNodeConfig) {
     super({
-      name: 'Counter',
-      description: 'Object-oriented counter with encapsulation',
+      ...config,
+      name: config?.name || 'Counter',
+      description: config?.description || 'Object-oriented counter with encapsulation',
       inputs: [
         {
           id: 'action',
@@ -188,6 +198,15 @@ export class CounterNode extends BaseNode {
         }
       ]
     });
+
+    this.step = config?.step ?? 1;
+  }
+
+  /**
+   * Config that recreates this node with its current step; the count is runtime state and starts at 0
+   */
+  getConfig(): CounterNodeConfig {
+    return { ...super.getConfig(), step: this.step };
   }
 
   protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
@@ -245,10 +264,11 @@ export class BankAccountNode extends BaseNode {
   private balance: number = 0;
   private transactions: Array<{type: string, amount: number, timestamp: Date}> = [];
 
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'Bank Account',
-      description: 'Object-oriented bank account with transaction history',
+      ...config,
+      name: config?.name || 'Bank Account',
+      description: config?.description || 'Object-oriented bank account with transaction history',
       inputs: [
         {
           id: 'action',
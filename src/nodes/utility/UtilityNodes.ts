@@ -1,5 +1,5 @@
 import { BaseNode } from '../../core/BaseNode';
-import { ExecutionContext, PortId, DataTypes } from '../../types';
+import { ExecutionContext, NodeConfig, PortId, DataTypes } from '../../types';
 
 /**
  * Utility and Mixed Paradigm Examples
@@ -9,10 +9,11 @@ import { ExecutionContext, PortId, DataTypes } from '../../types';
  * Conditional node - demonstrates control flow
  */
 export class ConditionalNode extends BaseNode {
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'Conditional',
-      description: 'Executes different logic based on a condition',
+      ...config,
+      name: config?.name || 'Conditional',
+      description: config?.description || 'Executes different logic based on a condition',
       inputs: [
         {
           id: 'condition',
@@ -65,10 +66,11 @@ export class ConditionalNode extends BaseNode {
  * Math operations node - demonstrates functional operations
  */
 export class MathNode extends BaseNode {
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'Math',
-      description: 'Performs mathematical operations',
+      ...config,
+      name: config?.name || 'Math',
+      description: config?.description || 'Performs mathematical operations',
       inputs: [
         {
           id: 'operation',
@@ -155,10 +157,11 @@ export class MathNode extends BaseNode {
  * String operations node - demonstrates string manipulation
  */
 export class StringNode extends BaseNode {
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'String',
-      description: 'Performs string operations',
+      ...config,
+      name: config?.name || 'String',
+      description: config?.description || 'Performs string operations',
       inputs: [
         {
           id: 'operation',
@@ -243,10 +246,11 @@ export class StringNode extends BaseNode {
  * Data transformation node - demonstrates functional data processing
  */
 export class TransformNode extends BaseNode {
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'Transform',
-      description: 'Transforms data using a transformation function',
+      ...config,
+      name: config?.name || 'Transform',
+      description: config?.description || 'Transforms data using a transformation function',
       inputs: [
         {
           id: 'data',
@@ -299,10 +303,11 @@ export class TransformNode extends BaseNode {
  * Logger node - demonstrates side effects and logging
  */
 export class LoggerNode extends BaseNode {
-  constructor() {
+  constructor(config?: Partial<NodeConfig>) {
     super({
-      name: 'Logger',
-      description: 'Logs data to console with different levels',
+      ...config,
+      name: config?.name || 'Logger',
+      description: config?.description || 'Logs data to console with different levels',
       inputs: [
         {
           id: 'level',
@@ -0,0 +1,42 @@
+import { NodeRegistry } from './NodeRegistry';
+import { registerBuiltInNodes } from './registerBuiltInNodes';
+import { BaseNode } from '../core/BaseNode';
+import { MathNode } from '../nodes/utility/UtilityNodes';
+import { PortId } from '../types';
+
+class UnregisteredNode extends BaseNode {
+  constructor() {
+    super({ name: 'Unregistered', inputs: [], outputs: [] });
+  }
+
+  protected async executeInternal(): Promise<Map<PortId, any>> {
+    return new Map();
+  }
+}
+
+describe('NodeRegistry', () => {
+  const registry = NodeRegistry.getInstance();
+
+  beforeAll(() => {
+    registerBuiltInNodes();
+  });
+
+  it('stamps created nodes with their registered type and version', () => {
+    const node = registry.create('utility.math', { name: 'Renamed' });
+
+    expect(node.type).toBe('utility.math');
+    expect(node.typeVersion).toBe(registry.getMetadata('utility.math')!.version);
+    expect(registry.getNodeType(node)).toBe('utility.math');
+  });
+
+  it('finds the type of a node constructed directly by its class', () => {
+    expect(registry.findNodeType(new MathNode({ name: 'Renamed' }))).toBe('utility.math');
+  });
+
+  it('fails for nodes of unregistered types instead of guessing', () => {
+    const node = new UnregisteredNode();
+
+    expect(registry.findNodeType(node)).toBeUndefined();
+    expect(() => registry.getNodeType(node)).toThrow('is not of a registered node type');
+  });
+});
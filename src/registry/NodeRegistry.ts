@@ -1,5 +1,6 @@
-import { INode, NodeConfig, Port, DataType } from '../types';
+import { INode, NodeConfig, Port, PortId, DataType } from '../types';
 import { BaseNode } from '../core/BaseNode';
+import { JsonSchema, portToJsonSchema, portsToJsonSchema } from '../types/jsonSchema';
 
 /**
  * Metadata for a registered node type
@@ -13,7 +14,7 @@ export interface NodeMetadata {
   category: string;
   /** Detailed description */
   description: string;
-  /** Version of the node implementation */
+  /** Version of the node implementation; saved nodes of older versions are migrated to it (see registerNodeMigration) */
   version: string;
   /** Author/creator information */
   author?: string;
@@ -33,6 +34,13 @@ export interface NodeMetadata {
   examples?: string[];
   /** Documentation URL */
   docsUrl?: string;
+  /**
+   * Whether outputs can be reused when the inputs are identical (pure nodes);
+   * a function decides per set of inputs
+   */
+  cacheable?: boolean | ((inputs: Map<PortId, any>) => boolean);
+  /** JSON Schema of the node's own settings in its config (see INode.getConfig), besides id, name and description */
+  configSchema?: JsonSchema;
 }
 
 /**
@@ -120,7 +128,10 @@ export class NodeRegistry {
       throw new Error(`Node type '${type}' is not registered`);
     }
 
-    return registered.factory(config);
+    const node = registered.factory(config);
+    node.type = type;
+    node.typeVersion = registered.metadata.version;
+    return node;
   }
 
   /**
@@ -130,6 +141,40 @@ export class NodeRegistry {
     return this.nodes.get(type)?.metadata;
   }
 
+  /**
+   * Get metadata for the registered type a node instance was created from
+   */
+  public getMetadataForNode(node: INode): NodeMetadata | undefined {
+    const type = this.findNodeType(node);
+    return type !== undefined ? this.nodes.get(type)?.metadata : undefined;
+  }
+
+  /**
+   * Get the registered type of a node: the type it was created as, or the type registered for its class
+   */
+  public findNodeType(node: INode): string | undefined {
+    if (node.type !== undefined) {
+      return node.type;
+    }
+    for (const registered of this.nodes.values()) {
+      if (node.constructor === registered.nodeClass) {
+        return registered.metadata.type;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the registered type of a node, failing for nodes of unregistered types
+   */
+  public getNodeType(node: INode): string {
+    const type = this.findNodeType(node);
+    if (type === undefined) {
+      throw new Error(`Node ${node.id} (${node.name}) is not of a registered node type`);
+    }
+    return type;
+  }
+
   /**
    * Get all registered node types
    */
@@ -212,12 +257,25 @@ export class NodeRegistry {
 
   /**
    * Export registry metadata as JSON
+   * Every port carries the JSON Schema of its values, and every node the schemas of its inputs and outputs
    */
   public exportMetadata(): string {
+    const exportPort = (port: Port) => ({
+      ...port,
+      dataType: { name: port.dataType.name, description: port.dataType.description },
+      schema: portToJsonSchema(port)
+    });
+
     const data = {
-      version: '1.0.0',
+      version: '1.1.0',
       timestamp: new Date().toISOString(),
-      nodes: this.getAllNodes(),
+      nodes: this.getAllNodes().map(metadata => ({
+        ...metadata,
+        inputs: metadata.inputs.map(exportPort),
+        outputs: metadata.outputs.map(exportPort),
+        inputSchema: portsToJsonSchema(metadata.inputs),
+        outputSchema: portsToJsonSchema(metadata.outputs)
+      })),
       categories: this.getCategories(),
       tags: this.getTags()
     };
@@ -2,10 +2,20 @@ import { NodeRegistry } from './NodeRegistry';
 import { DataTypes } from '../types';
 
 // Import all built-in nodes
-import { MapNode, FilterNode, ReduceNode, ComposeNode } from '../nodes/functional/FunctionalNodes';
+import {
+  MapNode,
+  FilterNode,
+  ReduceNode,
+  ComposeNode,
+  StreamMapNode,
+  StreamFilterNode,
+  StreamReduceNode
+} from '../nodes/functional/FunctionalNodes';
 import { CalculatorNode, CounterNode, BankAccountNode } from '../nodes/oop/ObjectOrientedNodes';
 import { DelayNode, HttpRequestNode, PromiseAllNode, PromiseRaceNode, RetryNode } from '../nodes/async/AsyncNodes';
 import { ConditionalNode, MathNode, StringNode, TransformNode, LoggerNode } from '../nodes/utility/UtilityNodes';
+import { BranchNode, SwitchNode } from '../nodes/control/ControlFlowNodes';
+import { ForEachNode, WhileNode } from '../nodes/control/LoopNodes';
 
 /**
  * Register all built-in nodes with the registry
@@ -24,6 +34,7 @@ export function registerBuiltInNodes(): void {
     tags: ['functional', 'array', 'transform'],
     icon: '🔄',
     color: '#4A90E2',
+    cacheable: true,
     inputs: [
       {
         id: 'array',
@@ -64,6 +75,7 @@ export function registerBuiltInNodes(): void {
     tags: ['functional', 'array', 'filter'],
     icon: '🔍',
     color: '#4A90E2',
+    cacheable: true,
     inputs: [
       {
         id: 'array',
@@ -104,6 +116,7 @@ export function registerBuiltInNodes(): void {
     tags: ['functional', 'array', 'aggregate'],
     icon: '📊',
     color: '#4A90E2',
+    cacheable: true,
     inputs: [
       {
         id: 'array',
@@ -151,6 +164,7 @@ export function registerBuiltInNodes(): void {
     tags: ['functional', 'composition'],
     icon: '⚡',
     color: '#4A90E2',
+    cacheable: true,
     inputs: [
       {
         id: 'functions',
@@ -177,6 +191,127 @@ export function registerBuiltInNodes(): void {
     ]
   });
 
+  registry.register(StreamMapNode, {
+    type: 'functional.stream-map',
+    displayName: 'Stream Map',
+    category: 'Functional',
+    description: 'Applies a function to each item of a stream',
+    version: '1.0.0',
+    author: 'VZ Programming',
+    tags: ['functional', 'stream', 'transform'],
+    icon: '🔄',
+    color: '#4A90E2',
+    inputs: [
+      {
+        id: 'stream',
+        name: 'Stream',
+        dataType: DataTypes.STREAM,
+        required: true,
+        description: 'Input stream (or array) to map over'
+      },
+      {
+        id: 'function',
+        name: 'Function',
+        dataType: DataTypes.FUNCTION,
+        required: true,
+        description: 'Function to apply to each item (may be async)'
+      }
+    ],
+    outputs: [
+      {
+        id: 'result',
+        name: 'Result',
+        dataType: DataTypes.STREAM,
+        description: 'Stream of mapped items'
+      }
+    ],
+    examples: [
+      'Parse each line of a large file as it is read'
+    ]
+  });
+
+  registry.register(StreamFilterNode, {
+    type: 'functional.stream-filter',
+    displayName: 'Stream Filter',
+    category: 'Functional',
+    description: 'Keeps the stream items matching a predicate function',
+    version: '1.0.0',
+    author: 'VZ Programming',
+    tags: ['functional', 'stream', 'filter'],
+    icon: '🔍',
+    color: '#4A90E2',
+    inputs: [
+      {
+        id: 'stream',
+        name: 'Stream',
+        dataType: DataTypes.STREAM,
+        required: true,
+        description: 'Input stream (or array) to filter'
+      },
+      {
+        id: 'predicate',
+        name: 'Predicate',
+        dataType: DataTypes.FUNCTION,
+        required: true,
+        description: 'Predicate function to test each item (may be async)'
+      }
+    ],
+    outputs: [
+      {
+        id: 'result',
+        name: 'Result',
+        dataType: DataTypes.STREAM,
+        description: 'Stream of matching items'
+      }
+    ]
+  });
+
+  registry.register(StreamReduceNode, {
+    type: 'functional.stream-reduce',
+    displayName: 'Stream Reduce',
+    category: 'Functional',
+    description: 'Reduces a stream to a single value using a reducer function',
+    version: '1.0.0',
+    author: 'VZ Programming',
+    tags: ['functional', 'stream', 'aggregate'],
+    icon: '📊',
+    color: '#4A90E2',
+    inputs: [
+      {
+        id: 'stream',
+        name: 'Stream',
+        dataType: DataTypes.STREAM,
+        required: true,
+        description: 'Input stream (or array) to reduce'
+      },
+      {
+        id: 'reducer',
+        name: 'Reducer',
+        dataType: DataTypes.FUNCTION,
+        required: true,
+        description: 'Reducer function (may be async)'
+      },
+      {
+        id: 'initial',
+        name: 'Initial Value',
+        dataType: DataTypes.ANY,
+        required: false,
+        description: 'Initial value for reduction'
+      }
+    ],
+    outputs: [
+      {
+        id: 'result',
+        name: 'Result',
+        dataType: DataTypes.ANY,
+        description: 'Reduced result'
+      }
+    ],
+    examples: [
+      'Sum a stream of numbers without holding them in memory'
+    ]
+  });
+
   // Object-Oriented Programming Nodes
   registry.register(CalculatorNode, {
     type: 'oop.calculator',
@@ -241,6 +376,12 @@ export function registerBuiltInNodes(): void {
     tags: ['oop', 'stateful', 'counter'],
     icon: '🔢',
     color: '#E94B3C',
+    configSchema: {
+      type: 'object',
+      properties: {
+        step: { type: 'number', description: 'Amount added or removed per increment/decrement', default: 1 }
+      }
+    },
     inputs: [
       {
         id: 'action',
@@ -372,6 +513,8 @@ export function registerBuiltInNodes(): void {
     tags: ['async', 'http', 'api', 'network'],
     icon: '🌐',
     color: '#6C5CE7',
+    // Only GET requests are safe to repeat from cache
+    cacheable: (inputs) => String(inputs.get('method') ?? 'GET').toUpperCase() === 'GET',
     inputs: [
       {
         id: 'url',
@@ -385,7 +528,8 @@ export function registerBuiltInNodes(): void {
         name: 'Method',
         dataType: DataTypes.STRING,
         required: false,
-        description: 'HTTP method (GET, POST, PUT, DELETE)'
+        description: 'HTTP method (GET, POST, PUT, DELETE)',
+        defaultValue: 'GET'
       },
       {
         id: 'headers',
@@ -521,14 +665,16 @@ export function registerBuiltInNodes(): void {
         name: 'Max Retries',
         dataType: DataTypes.NUMBER,
         required: false,
-        description: 'Maximum number of retries (default: 3)'
+        description: 'Maximum number of retries',
+        defaultValue: 3
       },
       {
         id: 'baseDelay',
         name: 'Base Delay (ms)',
         dataType: DataTypes.NUMBER,
         required: false,
-        description: 'Base delay in milliseconds (default: 1000)'
+        description: 'Base delay in milliseconds',
+        defaultValue: 1000
       }
     ],
     outputs: [
@@ -558,6 +704,7 @@ export function registerBuiltInNodes(): void {
     tags: ['utility', 'control-flow', 'conditional'],
     icon: '🔀',
     color: '#00B894',
+    cacheable: true,
     inputs: [
       {
         id: 'condition',
@@ -605,6 +752,7 @@ export function registerBuiltInNodes(): void {
     tags: ['utility', 'math', 'calculation'],
     icon: '➗',
     color: '#00B894',
+    cacheable: true,
     inputs: [
       {
         id: 'operation',
@@ -652,6 +800,7 @@ export function registerBuiltInNodes(): void {
     tags: ['utility', 'string', 'text'],
     icon: '📝',
     color: '#00B894',
+    cacheable: true,
     inputs: [
       {
         id: 'operation',
@@ -695,6 +844,7 @@ export function registerBuiltInNodes(): void {
     tags: ['utility', 'transform', 'data'],
     icon: '🔧',
     color: '#00B894',
+    cacheable: true,
     inputs: [
       {
         id: 'data',
@@ -767,4 +917,241 @@ export function registerBuiltInNodes(): void {
       }
     ]
   });
+
+  // Control Flow Nodes
+  registry.register(BranchNode, {
+    type: 'control.branch',
+    displayName: 'Branch',
+    category: 'Control Flow',
+    description: 'Routes a value to the true or false branch; the other branch does not run',
+    version: '1.0.0',
+    author: 'VZ Programming',
+    tags: ['control-flow', 'conditional', 'branch', 'if-else'],
+    icon: '🔀',
+    color: '#FDCB6E',
+    cacheable: true,
+    inputs: [
+      {
+        id: 'condition',
+        name: 'Condition',
+        dataType: DataTypes.BOOLEAN,
+        required: true,
+        description: 'Boolean condition to evaluate'
+      },
+      {
+        id: 'value',
+        name: 'Value',
+        dataType: DataTypes.ANY,
+        required: false,
+        description: 'Value passed to the taken branch (defaults to the condition)'
+      }
+    ],
+    outputs: [
+      {
+        id: 'true',
+        name: 'True',
+        dataType: DataTypes.ANY,
+        description: 'Receives the value when the condition is true'
+      },
+      {
+        id: 'false',
+        name: 'False',
+        dataType: DataTypes.ANY,
+        description: 'Receives the value when the condition is false'
+      }
+    ],
+    examples: [
+      'Only call the API when the cache missed',
+      'If-else without running both sides'
+    ]
+  });
+
+  registry.register(SwitchNode, {
+    type: 'control.switch',
+    displayName: 'Switch',
+    category: 'Control Flow',
+    description: 'Routes a value to the output matching the key; other outputs do not run',
+    version: '1.0.0',
+    author: 'VZ Programming',
+    tags: ['control-flow', 'switch', 'routing'],
+    icon: '🚦',
+    color: '#FDCB6E',
+    cacheable: true,
+    configSchema: {
+      type: 'object',
+      properties: {
+        cases: {
+          type: 'array',
+          items: { type: 'string', not: { const: 'default' } },
+          description: 'Case values; each becomes an output port with the same id'
+        }
+      }
+    },
+    inputs: [
+      {
+        id: 'key',
+        name: 'Key',
+        dataType: DataTypes.ANY,
+        required: true,
+        description: 'Key compared against the case values'
+      },
+      {
+        id: 'value',
+        name: 'Value',
+        dataType: DataTypes.ANY,
+        required: false,
+        description: 'Value passed to the matching output (defaults to the key)'
+      }
+    ],
+    outputs: [
+      {
+        id: 'default',
+        name: 'Default',
+        dataType: DataTypes.ANY,
+        description: 'Receives the value when no case matches (one extra output per configured case)'
+      }
+    ],
+    examples: [
+      "Route by status: new SwitchNode({ cases: ['active', 'suspended'] })"
+    ]
+  });
+
+  registry.register(ForEachNode, {
+    type: 'control.for-each',
+    displayName: 'For Each',
+    category: 'Control Flow',
+    description: 'Runs a body graph once for each item of an array',
+    version: '1.0.0',
+    author: 'VZ Programming',
+    tags: ['control-flow', 'loop', 'iteration', 'array'],
+    icon: '🔁',
+    color: '#FDCB6E',
+    configSchema: {
+      type: 'object',
+      properties: {
+        body: { type: 'object', description: 'Graph definition run for each item' },
+        maxIterations: { type: 'integer', minimum: 0, description: 'Most items accepted', default: 1000 },
+        itemInput: {
+          type: 'object',
+          properties: { nodeId: { type: 'string' }, portId: { type: 'string' } },
+          required: ['nodeId', 'portId'],
+          description: 'Body port receiving the current item'
+        },
+        indexInput: {
+          type: 'object',
+          properties: { nodeId: { type: 'string' }, portId: { type: 'string' } },
+          required: ['nodeId', 'portId'],
+          description: 'Body port receiving the current index'
+        },
+        resultOutput: {
+          type: 'object',
+          properties: { nodeId: { type: 'string' }, portId: { type: 'string' } },
+          required: ['nodeId', 'portId'],
+          description: 'Body port whose value is collected per item'
+        },
+        concurrency: { type: 'integer', minimum: 1, description: 'Iterations run at once', default: 1 }
+      }
+    },
+    inputs: [
+      {
+        id: 'items',
+        name: 'Items',
+        dataType: DataTypes.ARRAY,
+        required: true,
+        description: 'Items to iterate over'
+      }
+    ],
+    outputs: [
+      {
+        id: 'results',
+        name: 'Results',
+        dataType: DataTypes.ARRAY,
+        description: 'Body result for each item, in item order'
+      },
+      {
+        id: 'count',
+        name: 'Count',
+        dataType: DataTypes.NUMBER,
+        description: 'Number of iterations run'
+      },
+      {
+        id: 'iterations',
+        name: 'Iterations',
+        dataType: DataTypes.ARRAY,
+        description: 'Body execution results for each iteration'
+      }
+    ],
+    examples: [
+      'Fetch every URL of a list, four at a time'
+    ]
+  });
+
+  registry.register(WhileNode, {
+    type: 'control.while',
+    displayName: 'While',
+    category: 'Control Flow',
+    description: 'Runs a body graph repeatedly until its condition port is false',
+    version: '1.0.0',
+    author: 'VZ Programming',
+    tags: ['control-flow', 'loop', 'iteration'],
+    icon: '🔃',
+    color: '#FDCB6E',
+    configSchema: {
+      type: 'object',
+      properties: {
+        body: { type: 'object', description: 'Graph definition run on each iteration' },
+        maxIterations: { type: 'integer', minimum: 0, description: 'Most iterations run', default: 1000 },
+        stateInput: {
+          type: 'object',
+          properties: { nodeId: { type: 'string' }, portId: { type: 'string' } },
+          required: ['nodeId', 'portId'],
+          description: 'Body port receiving the current state'
+        },
+        stateOutput: {
+          type: 'object',
+          properties: { nodeId: { type: 'string' }, portId: { type: 'string' } },
+          required: ['nodeId', 'portId'],
+          description: 'Body port producing the next state'
+        },
+        conditionOutput: {
+          type: 'object',
+          properties: { nodeId: { type: 'string' }, portId: { type: 'string' } },
+          required: ['nodeId', 'portId'],
+          description: 'Body port producing whether to run another iteration'
+        }
+      }
+    },
+    inputs: [
+      {
+        id: 'initial',
+        name: 'Initial State',
+        dataType: DataTypes.ANY,
+        required: false,
+        description: 'State fed to the first iteration'
+      }
+    ],
+    outputs: [
+      {
+        id: 'result',
+        name: 'Result',
+        dataType: DataTypes.ANY,
+        description: 'State produced by the last iteration'
+      },
+      {
+        id: 'count',
+        name: 'Count',
+        dataType: DataTypes.NUMBER,
+        description: 'Number of iterations run'
+      },
+      {
+        id: 'iterations',
+        name: 'Iterations',
+        dataType: DataTypes.ARRAY,
+        description: 'Body execution results for each iteration'
+      }
+    ],
+    examples: [
+      'Page through an API until there is no next page'
+    ]
+  });
 }
@@ -0,0 +1,79 @@
+import { GraphSerializer, GraphDefinition } from './GraphSerializer';
+import { NodeExecutor } from '../core/NodeExecutor';
+import { registerBuiltInNodes } from '../registry/registerBuiltInNodes';
+import { SwitchNode } from '../nodes/control/ControlFlowNodes';
+import { CounterNode } from '../nodes/oop/ObjectOrientedNodes';
+import { MathNode } from '../nodes/utility/UtilityNodes';
+
+describe('GraphSerializer', () => {
+  const serializer = new GraphSerializer();
+
+  beforeAll(() => {
+    registerBuiltInNodes();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('round-trips node ids, settings, connections and constants', () => {
+    const executor = new NodeExecutor();
+    executor.addNode(new MathNode({ id: 'math', name: 'Add', description: 'Adds two numbers' }));
+    executor.addNode(new SwitchNode({ id: 'switch', cases: ['small', 'large'] }));
+    executor.addNode(new CounterNode({ id: 'counter', step: 5 }));
+    executor.addConnection({ id: 'c1', fromNode: 'math', fromPort: 'result', toNode: 'switch', toPort: 'value' });
+    executor.setConstantInput('math', 'operation', 'add');
+
+    const definition = serializer.serializeExecutor(executor, { name: 'Round trip' });
+    const restored = serializer.deserializeToExecutor(serializer.fromJSON(serializer.toJSON(definition)));
+
+    expect(restored.getNodes().map(node => node.id)).toEqual(['math', 'switch', 'counter']);
+    expect(restored.getNode('math')!.description).toBe('Adds two numbers');
+    expect(restored.getNode('switch')!.outputs.map(port => port.id)).toEqual(['small', 'large', 'default']);
+    expect((restored.getNode('counter') as CounterNode).getConfig().step).toBe(5);
+    expect(restored.getConnections()).toEqual(executor.getConnections());
+    expect(restored.getConstantInputs('math')).toEqual(new Map([['operation', 'add']]));
+    expect(serializer.serializeExecutor(restored, { name: 'Round trip' }).nodes).toEqual(definition.nodes);
+  });
+
+  it('skips nodes whose config does not match the type config schema', () => {
+    const definition: GraphDefinition = {
+      version: '1.0.0',
+      name: 'Invalid',
+      nodes: [{ id: 'switch', type: 'control.switch', name: 'Switch', config: { cases: ['default'] } }],
+      connections: []
+    };
+
+    const restored = serializer.deserializeToExecutor(definition);
+
+    expect(restored.getNodes()).toEqual([]);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Failed to create node switch'),
+      expect.objectContaining({ message: expect.stringContaining('Invalid config') })
+    );
+  });
+
+  it('serializes nodes by their registered type and version, whatever their name', () => {
+    const executor = new NodeExecutor();
+    executor.addNode(new MathNode({ id: 'math', name: 'Renamed' }));
+
+    const [node] = serializer.serializeExecutor(executor).nodes;
+
+    expect(node.type).toBe('utility.math');
+    expect(node.typeVersion).toBe('1.0.0');
+  });
+
+  it('reads back the YAML it writes', () => {
+    const executor = new NodeExecutor();
+    executor.addNode(new SwitchNode({ id: 'switch', name: 'Route: by size', cases: ['true', '0'] }));
+    executor.setConstantInput('switch', 'key', 'multi\nline');
+
+    const definition = serializer.serializeExecutor(executor, { name: 'YAML graph' });
+
+    expect(serializer.fromYAML(serializer.toYAML(definition))).toEqual(definition);
+  });
+});
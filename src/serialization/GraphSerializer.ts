@@ -1,6 +1,9 @@
 import { INode, NodeId, Connection, PortId } from '../types';
 import { NodeRegistry } from '../registry/NodeRegistry';
 import { NodeExecutor } from '../core/NodeExecutor';
+import { checkJsonSchema } from '../types/jsonSchema';
+import { parseYAML, stringifyYAML } from './yaml';
+import { GRAPH_FORMAT_VERSION, MigrationResult, migrateGraph } from './migrations';
 
 /**
  * Serialized node representation
@@ -8,8 +11,13 @@ import { NodeExecutor } from '../core/NodeExecutor';
 export interface SerializedNode {
   id: NodeId;
   type: string;
+  /** Version of the node type the node was saved with */
+  typeVersion?: string;
   name: string;
+  /** Node config besides id and name (see INode.getConfig) */
   config?: Record<string, any>;
+  /** Constant values of input ports, by port id */
+  constants?: Record<PortId, any>;
   position?: { x: number; y: number };
   metadata?: Record<string, any>;
 }
@@ -33,6 +41,7 @@ export interface SerializedConnection {
  * Complete graph definition
  */
 export interface GraphDefinition {
+  /** Version of the definition format (see GRAPH_FORMAT_VERSION) */
   version: string;
   name: string;
   description?: string;
@@ -64,12 +73,14 @@ export class GraphSerializer {
   }): GraphDefinition {
     const nodes = executor.getNodes();
     const connections = executor.getConnections();
+    const constants = new Map(nodes.map(node => [node.id, executor.getConstantInputs(node.id)]));
 
-    return this.serializeGraph(nodes, connections, metadata);
+    return this.serializeGraph(nodes, connections, metadata, constants);
   }
 
   /**
    * Serialize nodes and connections to a graph definition
+   * Every node must be of a registered type (see NodeRegistry.getNodeType)
    */
   public serializeGraph(
     nodes: INode[],
@@ -78,18 +89,22 @@ export class GraphSerializer {
       name?: string;
       description?: string;
       author?: string;
-    }
+    },
+    constantInputs: Map<NodeId, Map<PortId, any>> = new Map()
   ): GraphDefinition {
     const serializedNodes: SerializedNode[] = nodes.map(node => {
-      const nodeMetadata = this.registry.getMetadata(this.getNodeType(node));
+      const type = this.registry.getNodeType(node);
+      const nodeMetadata = this.registry.getMetadata(type);
+      const constants = constantInputs.get(node.id) ?? new Map<PortId, any>();
+      const { id: _id, name: _name, ...config } = node.getConfig?.() ?? { description: node.description };
       
       return {
         id: node.id,
-        type: this.getNodeType(node),
+        type,
+        typeVersion: node.typeVersion ?? nodeMetadata?.version,
         name: node.name,
-        config: {
-          description: node.description
-        },
+        config,
+        constants: constants.size > 0 ? Object.fromEntries(constants) : undefined,
         position: { x: 0, y: 0 }, // Default position, can be updated by UI
         metadata: nodeMetadata ? {
           category: nodeMetadata.category,
@@ -112,7 +127,7 @@ export class GraphSerializer {
     }));
 
     return {
-      version: '1.0.0',
+      version: GRAPH_FORMAT_VERSION,
       name: metadata?.name || 'Untitled Graph',
       description: metadata?.description,
       author: metadata?.author,
@@ -135,9 +150,7 @@ export class GraphSerializer {
    * Export graph definition to YAML string
    */
   public toYAML(definition: GraphDefinition): string {
-    // Simple YAML serialization
-    // For production, consider using a library like 'js-yaml'
-    return this.simpleYAMLStringify(definition);
+    return stringifyYAML(definition);
   }
 
   /**
@@ -154,10 +167,37 @@ export class GraphSerializer {
   }
 
   /**
-   * Deserialize graph definition into executor
+   * Parse graph definition from YAML string
+   * Comments in the YAML are kept when the same definition is written back with toYAML
+   */
+  public fromYAML(yaml: string): GraphDefinition {
+    try {
+      const definition = parseYAML(yaml) as GraphDefinition;
+      this.validateGraphDefinition(definition);
+      return definition;
+    } catch (error) {
+      throw new Error(`Failed to parse graph YAML: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Migrate a definition saved with an older format or older node type versions
+   * Returns the migrated definition (the given one when nothing applies) and a report of the migrations that ran (see registerNodeMigration)
    */
-  public deserializeToExecutor(definition: GraphDefinition): NodeExecutor {
+  public migrate(definition: GraphDefinition): MigrationResult {
     this.validateGraphDefinition(definition);
+    return migrateGraph(definition);
+  }
+
+  /**
+   * Deserialize graph definition into executor
+   * Older definitions are migrated first; use migrate() beforehand to inspect what changes
+   */
+  public deserializeToExecutor(graph: GraphDefinition): NodeExecutor {
+    const { definition, report } = this.migrate(graph);
+    for (const warning of report.warnings) {
+      console.warn(`Migration: ${warning}`);
+    }
 
     const executor = new NodeExecutor();
     const nodeMap = new Map<NodeId, INode>();
@@ -165,16 +205,31 @@ export class GraphSerializer {
     // Create nodes
     for (const serializedNode of definition.nodes) {
       try {
+        const configSchema = this.registry.getMetadata(serializedNode.type)?.configSchema;
+        const problem = configSchema && checkJsonSchema(configSchema, serializedNode.config ?? {}, configSchema, 'config');
+        if (problem) {
+          throw new Error(`Invalid config: ${problem}`);
+        }
+
         const node = this.registry.create(serializedNode.type, {
+          ...serializedNode.config,
           id: serializedNode.id,
-          name: serializedNode.name,
-          description: serializedNode.config?.description
+          name: serializedNode.name
         });
 
         executor.addNode(node);
         nodeMap.set(serializedNode.id, node);
       } catch (error) {
         console.warn(`Failed to create node ${serializedNode.id} of type ${serializedNode.type}:`, error);
+        continue;
+      }
+
+      for (const [portId, value] of Object.entries(serializedNode.constants ?? {})) {
+        try {
+          executor.setConstantInput(serializedNode.id, portId, value);
+        } catch (error) {
+          console.warn(`Failed to set constant ${serializedNode.id}.${portId}:`, error);
+        }
       }
     }
 
@@ -263,74 +318,4 @@ export class GraphSerializer {
       }
     }
   }
-
-  /**
-   * Get node type from node instance
-   * This tries to match the node to a registered type
-   */
-  private getNodeType(node: INode): string {
-    // Try to find matching type in registry
-    const allTypes = this.registry.getAllTypes();
-    
-    for (const type of allTypes) {
-      const metadata = this.registry.getMetadata(type);
-      if (metadata && metadata.displayName === node.name) {
-        return type;
-      }
-    }
-
-    // Fallback: use node name as type
-    return node.name.toLowerCase().replace(/\s+/g, '-');
-  }
-
-  /**
-   * Simple YAML serialization (basic implementation)
-   * For production, use a proper YAML library
-   */
-  private simpleYAMLStringify(obj: any, indent: number = 0): string {
-    const spaces = ' '.repeat(indent);
-    const lines: string[] = [];
-
-    if (Array.isArray(obj)) {
-      obj.forEach(item => {
-        if (typeof item === 'object' && item !== null) {
-          lines.push(`${spaces}-`);
-          lines.push(this.simpleYAMLStringify(item, indent + 2));
-        } else {
-          lines.push(`${spaces}- ${this.yamlValue(item)}`);
-        }
-      });
-    } else if (typeof obj === 'object' && obj !== null) {
-      Object.entries(obj).forEach(([key, value]) => {
-        if (Array.isArray(value)) {
-          lines.push(`${spaces}${key}:`);
-          lines.push(this.simpleYAMLStringify(value, indent + 2));
-        } else if (typeof value === 'object' && value !== null) {
-          lines.push(`${spaces}${key}:`);
-          lines.push(this.simpleYAMLStringify(value, indent + 2));
-        } else {
-          lines.push(`${spaces}${key}: ${this.yamlValue(value)}`);
-        }
-      });
-    }
-
-    return lines.join('\n');
-  }
-
-  /**
-   * Format value for YAML
-   */
-  private yamlValue(value: any): string {
-    if (value === null || value === undefined) {
-      return 'null';
-    }
-    if (typeof value === 'string') {
-      // Escape strings if needed
-      if (value.includes(':') || value.includes('#') || value.includes('\n')) {
-        return `"${value.replace(/"/g, '\\"')}"`;
-      }
-      return value;
-    }
-    return String(value);
-  }
 }
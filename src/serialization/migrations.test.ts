@@ -0,0 +1,231 @@
+import { MigrationRegistry, migrateGraph, registerNodeMigration, GRAPH_FORMAT_VERSION } from './migrations';
+import { GraphDefinition, GraphSerializer } from './GraphSerializer';
+import { NodeRegistry, NodeMetadata } from '../registry/NodeRegistry';
+import { BaseNode } from '../core/BaseNode';
+import { NodeExecutor } from '../core/NodeExecutor';
+import { DataTypes, ExecutionContext, NodeConfig, PortId } from '../types';
+
+class GreeterNode extends BaseNode {
+  private readonly prefix: string;
+
+  constructor(config?: Partial<NodeConfig> & { prefix?: string }) {
+    super({
+      ...config,
+      name: config?.name || 'Greeter',
+      inputs: [{ id: 'who', name: 'Who', dataType: DataTypes.STRING, required: true }],
+      outputs: [{ id: 'greeting', name: 'Greeting', dataType: DataTypes.STRING }]
+    });
+    this.prefix = config?.prefix ?? 'Hello';
+  }
+
+  getConfig() {
+    return { ...super.getConfig(), prefix: this.prefix };
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    return new Map([['greeting', `${this.prefix} ${this.getInput<string>(context, 'who')}`]]);
+  }
+}
+
+class UpperNode extends BaseNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Upper',
+      inputs: [{ id: 'text', name: 'Text', dataType: DataTypes.STRING, required: true }],
+      outputs: [{ id: 'result', name: 'Result', dataType: DataTypes.STRING }]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    return new Map([['result', this.getInput<string>(context, 'text')!.toUpperCase()]]);
+  }
+}
+
+class ApplyNode extends BaseNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Apply',
+      inputs: [
+        { id: 'fn', name: 'Function', dataType: DataTypes.FUNCTION, required: true },
+        { id: 'value', name: 'Value', dataType: DataTypes.NUMBER, required: true }
+      ],
+      outputs: [{ id: 'result', name: 'Result', dataType: DataTypes.NUMBER }]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    const fn = this.getInput<(value: number) => number>(context, 'fn')!;
+    return new Map([['result', fn(this.getInput<number>(context, 'value')!)]]);
+  }
+}
+
+const metadata = (type: string, version: string): NodeMetadata => ({
+  type,
+  displayName: type,
+  category: 'Test',
+  description: 'Test node',
+  version,
+  tags: [],
+  inputs: [],
+  outputs: []
+});
+
+const graph = (nodes: GraphDefinition['nodes'], connections: GraphDefinition['connections'] = []): GraphDefinition => ({
+  version: '1.0.0',
+  name: 'Saved graph',
+  nodes,
+  connections
+});
+
+describe('migrateGraph', () => {
+  const registry = NodeRegistry.getInstance();
+  const migrations = MigrationRegistry.getInstance();
+
+  beforeEach(() => {
+    registry.register(GreeterNode, metadata('test.greeter', '3.0.0'));
+    registry.register(UpperNode, metadata('test.upper', '1.0.0'));
+
+    // 1.0.0 read 'name' and wrote 'out'; its prefix setting was called 'greeting'
+    registerNodeMigration({
+      type: 'test.greeter',
+      from: '1.0.0',
+      to: '2.0.0',
+      description: 'Rename ports',
+      migrate(node, context) {
+        context.renameInput('name', 'who');
+        context.renameOutput('out', 'greeting');
+        node.config = { prefix: node.config?.greeting };
+      }
+    });
+
+    // 2.5.0 had a 'shout' setting, now a separate upper-case node
+    registerNodeMigration({
+      type: 'test.greeter',
+      from: '2.5.0',
+      to: '3.0.0',
+      description: 'Split shouting',
+      migrate(node, context) {
+        if (!node.config?.shout) {
+          return;
+        }
+        delete node.config.shout;
+        const upper = { id: `${node.id}-upper`, type: 'test.upper', name: 'Upper', config: {} };
+        context.moveOutput('greeting', upper.id, 'result');
+        context.connect(node.id, 'greeting', upper.id, 'text');
+        return [node, upper];
+      }
+    });
+  });
+
+  afterEach(() => {
+    registry.clear();
+    migrations.clear();
+  });
+
+  it('runs the migrations between the saved and the registered version in order', () => {
+    const saved = graph([
+      { id: 'g', type: 'test.greeter', typeVersion: '1.0.0', name: 'G', config: { greeting: 'Hi' }, constants: { name: 'bob' } },
+      { id: 'u', type: 'test.upper', typeVersion: '1.0.0', name: 'U' }
+    ], [{ id: 'c1', from: { nodeId: 'g', portId: 'out' }, to: { nodeId: 'u', portId: 'text' } }]);
+
+    const { definition, report } = migrateGraph(saved);
+
+    expect(report.steps.map(step => [step.nodeId, step.from, step.to])).toEqual([
+      ['g', '1.0.0', '2.0.0'],
+      ['g', '2.0.0', '3.0.0']
+    ]);
+    expect(report.migrated).toBe(true);
+    expect(definition.nodes[0]).toMatchObject({ typeVersion: '3.0.0', config: { prefix: 'Hi' }, constants: { who: 'bob' } });
+    expect(definition.connections[0].from).toEqual({ nodeId: 'g', portId: 'greeting' });
+    expect(saved.nodes[0].typeVersion).toBe('1.0.0');
+  });
+
+  it('splits nodes and rewires their connections', async () => {
+    const saved = graph([
+      { id: 'g', type: 'test.greeter', typeVersion: '2.6.0', name: 'G', config: { prefix: 'Hi', shout: true }, constants: { who: 'bob' } },
+      { id: 'u', type: 'test.upper', typeVersion: '1.0.0', name: 'U' }
+    ], [{ id: 'c1', from: { nodeId: 'g', portId: 'greeting' }, to: { nodeId: 'u', portId: 'text' } }]);
+
+    const { definition, report } = migrateGraph(saved);
+
+    expect(report.steps.map(step => [step.from, step.to])).toEqual([['2.6.0', '3.0.0']]);
+    expect(report.steps[0].producedNodes).toEqual(['g', 'g-upper']);
+    expect(definition.nodes.map(node => [node.id, node.typeVersion])).toEqual([
+      ['g', '3.0.0'], ['g-upper', '1.0.0'], ['u', '1.0.0']
+    ]);
+
+    const executor = new GraphSerializer().deserializeToExecutor(saved);
+    const results = await executor.executeParallel();
+    expect(results.get('u')!.outputs!.get('result')).toBe('HI BOB');
+  });
+
+  it('migrates nodes saved without a version from the oldest migrated version', () => {
+    const saved = graph([
+      { id: 'g', type: 'test.greeter', name: 'G', config: { greeting: 'Hi' }, constants: { name: 'bob' } }
+    ]);
+
+    const { definition, report } = migrateGraph(saved);
+
+    expect(report.steps.map(step => [step.from, step.to])).toEqual([['1.0.0', '2.0.0'], ['2.0.0', '3.0.0']]);
+    expect(report.warnings).toEqual([expect.stringContaining('saved without a version')]);
+    expect(definition.nodes[0]).toMatchObject({ typeVersion: '3.0.0', constants: { who: 'bob' } });
+  });
+
+  it('leaves current graphs unchanged', () => {
+    const saved = graph([
+      { id: 'g', type: 'test.greeter', typeVersion: '3.0.0', name: 'G', config: { prefix: 'Hi' } }
+    ]);
+
+    const { definition, report } = migrateGraph(saved);
+
+    expect(report.migrated).toBe(false);
+    expect(definition).toEqual(saved);
+  });
+
+  it('keeps function constants whether or not a migration applies', async () => {
+    registry.register(ApplyNode, metadata('test.apply', '1.0.0'));
+    const double = (value: number) => value * 2;
+    const executor = new NodeExecutor();
+    executor.addNode(registry.create('test.apply', { id: 'a' }));
+    executor.setConstantInput('a', 'fn', double);
+    executor.setConstantInput('a', 'value', 21);
+
+    const serializer = new GraphSerializer();
+    const saved = serializer.serializeExecutor(executor);
+
+    expect(migrateGraph(saved).definition).toBe(saved);
+    const results = await serializer.deserializeToExecutor(saved).executeParallel();
+    expect(results.get('a')!.outputs!.get('result')).toBe(42);
+
+    const older: GraphDefinition = {
+      ...saved,
+      nodes: [
+        ...saved.nodes,
+        { id: 'g', type: 'test.greeter', typeVersion: '1.0.0', name: 'G', config: { greeting: 'Hi' }, constants: { name: 'bob' } }
+      ]
+    };
+    const { definition, report } = migrateGraph(older);
+
+    expect(report.migrated).toBe(true);
+    expect(definition.nodes[0].constants!.fn).toBe(double);
+    expect(older.nodes[1].constants).toEqual({ name: 'bob' });
+  });
+
+  it('reports nodes saved with a newer version than the registered one', () => {
+    const { report } = migrateGraph(graph([{ id: 'g', type: 'test.greeter', typeVersion: '4.0.0', name: 'G' }]));
+
+    expect(report.warnings).toEqual([expect.stringContaining('newer than the registered 3.0.0')]);
+  });
+
+  it('rejects graphs in a newer format', () => {
+    expect(() => migrateGraph({ ...graph([]), version: '9.0.0' }))
+      .toThrow(`Graph format version 9.0.0 is newer than the supported ${GRAPH_FORMAT_VERSION}`);
+  });
+
+  it('rejects migrations that do not go to a later version', () => {
+    expect(() => registerNodeMigration({ type: 'test.greeter', from: '2.0.0', to: '1.0.0', migrate: () => undefined }))
+      .toThrow('Migration must go to a later version');
+  });
+});
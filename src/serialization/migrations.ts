@@ -0,0 +1,462 @@
+import { v4 as uuidv4 } from 'uuid';
+import { NodeId, PortId } from '../types';
+import { NodeRegistry } from '../registry/NodeRegistry';
+import type { GraphDefinition, SerializedNode } from './GraphSerializer';
+
+/**
+ * Version of the graph definition format written by GraphSerializer
+ */
+export const GRAPH_FORMAT_VERSION = '1.0.0';
+
+/**
+ * Migration of whole graph definitions from one format version to the next
+ */
+export interface GraphFormatMigration {
+  from: string;
+  to: string;
+  description?: string;
+  /** Changes the definition in place or returns a replacement */
+  migrate: (definition: GraphDefinition) => GraphDefinition | void;
+}
+
+/**
+ * Helpers a node migration uses to keep the graph's connections and constants in step with the node
+ */
+export interface NodeMigrationContext {
+  /** The definition being migrated */
+  readonly definition: GraphDefinition;
+  /** Rename an input port: connections into it and its constant follow */
+  renameInput(oldPortId: PortId, newPortId: PortId): void;
+  /** Rename an output port: connections out of it follow */
+  renameOutput(oldPortId: PortId, newPortId: PortId): void;
+  /** Move an input to a node returned by the migration, with its connections and constant */
+  moveInput(portId: PortId, toNodeId: NodeId, toPortId?: PortId): void;
+  /** Move an output to a node returned by the migration, with its connections */
+  moveOutput(portId: PortId, toNodeId: NodeId, toPortId?: PortId): void;
+  /** Connect two ports, e.g. the parts of a split node */
+  connect(fromNodeId: NodeId, fromPortId: PortId, toNodeId: NodeId, toPortId: PortId): void;
+  /** Add a warning to the migration report */
+  warn(message: string): void;
+}
+
+/**
+ * Migration of saved nodes of one type from one version of the type to a later one
+ */
+export interface NodeMigration {
+  type: string;
+  from: string;
+  to: string;
+  description?: string;
+  /**
+   * Receives a copy of the saved node to change in place or replace;
+   * returning several nodes splits it (new nodes need ids unique in the graph)
+   */
+  migrate: (node: SerializedNode, context: NodeMigrationContext) => SerializedNode | SerializedNode[] | void;
+}
+
+/**
+ * A migration applied to a graph
+ */
+export interface MigrationStep {
+  kind: 'format' | 'node';
+  from: string;
+  to: string;
+  description?: string;
+  /** Migrated node and its type, for node migrations */
+  nodeId?: NodeId;
+  type?: string;
+  /** Ids of the nodes a node migration produced, when it split or replaced the node */
+  producedNodes?: NodeId[];
+}
+
+/**
+ * What migrating a graph changed
+ */
+export interface MigrationReport {
+  fromVersion: string;
+  toVersion: string;
+  steps: MigrationStep[];
+  warnings: string[];
+  /** Whether any migration ran or any version was updated */
+  migrated: boolean;
+}
+
+/**
+ * Migrated definition with its report
+ */
+export interface MigrationResult {
+  definition: GraphDefinition;
+  report: MigrationReport;
+}
+
+/**
+ * Registry of graph format and node type migrations
+ */
+export class MigrationRegistry {
+  private static instance: MigrationRegistry;
+  private formatMigrations: GraphFormatMigration[] = [];
+  private nodeMigrations: Map<string, NodeMigration[]> = new Map();
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get the singleton instance of the registry
+   */
+  public static getInstance(): MigrationRegistry {
+    if (!MigrationRegistry.instance) {
+      MigrationRegistry.instance = new MigrationRegistry();
+    }
+    return MigrationRegistry.instance;
+  }
+
+  /**
+   * Register a migration of the graph definition format
+   */
+  public registerFormatMigration(migration: GraphFormatMigration): void {
+    this.validateRange(migration.from, migration.to);
+    if (this.formatMigrations.some(m => compareVersions(m.from, migration.from) === 0)) {
+      throw new Error(`A format migration from version ${migration.from} is already registered`);
+    }
+    this.formatMigrations.push(migration);
+    this.formatMigrations.sort((a, b) => compareVersions(a.from, b.from));
+  }
+
+  /**
+   * Register a migration of a node type
+   */
+  public registerNodeMigration(migration: NodeMigration): void {
+    if (!migration.type) {
+      throw new Error('Node migration type is required');
+    }
+    this.validateRange(migration.from, migration.to);
+    const migrations = this.nodeMigrations.get(migration.type) ?? [];
+    if (migrations.some(m => compareVersions(m.from, migration.from) === 0)) {
+      throw new Error(`A migration of '${migration.type}' from version ${migration.from} is already registered`);
+    }
+    migrations.push(migration);
+    migrations.sort((a, b) => compareVersions(a.from, b.from));
+    this.nodeMigrations.set(migration.type, migrations);
+  }
+
+  /**
+   * Get the format migrations, oldest first
+   */
+  public getFormatMigrations(): GraphFormatMigration[] {
+    return [...this.formatMigrations];
+  }
+
+  /**
+   * Get the migrations of a node type, oldest first
+   */
+  public getNodeMigrations(type: string): NodeMigration[] {
+    return [...(this.nodeMigrations.get(type) ?? [])];
+  }
+
+  /**
+   * Clear all migrations (useful for testing)
+   */
+  public clear(): void {
+    this.formatMigrations = [];
+    this.nodeMigrations.clear();
+  }
+
+  private validateRange(from: string, to: string): void {
+    if (compareVersions(from, to) >= 0) {
+      throw new Error(`Migration must go to a later version (from ${from} to ${to})`);
+    }
+  }
+}
+
+/**
+ * Helper function to register a graph format migration
+ */
+export function registerFormatMigration(migration: GraphFormatMigration): void {
+  MigrationRegistry.getInstance().registerFormatMigration(migration);
+}
+
+/**
+ * Helper function to register a node type migration
+ */
+export function registerNodeMigration(migration: NodeMigration): void {
+  MigrationRegistry.getInstance().registerNodeMigration(migration);
+}
+
+/**
+ * Bring a graph definition to the current format and to the registered version of every node type
+ * Versions without a migration to them are compatible with the previous one; the input is not modified,
+ * and is returned as it is when nothing applies
+ */
+export function migrateGraph(
+  definition: GraphDefinition,
+  migrations: MigrationRegistry = MigrationRegistry.getInstance(),
+  registry: NodeRegistry = NodeRegistry.getInstance()
+): MigrationResult {
+  // Copied on write: parts a migration changes are copied first, everything else is shared with the input
+  let working: GraphDefinition = { ...definition };
+  // Whether working has its own connections; format migrations get a copy of the whole definition
+  let connectionsCopied = false;
+  const report: MigrationReport = {
+    fromVersion: definition.version,
+    toVersion: GRAPH_FORMAT_VERSION,
+    steps: [],
+    warnings: [],
+    migrated: false
+  };
+
+  if (compareVersions(working.version, GRAPH_FORMAT_VERSION) > 0) {
+    throw new Error(`Graph format version ${working.version} is newer than the supported ${GRAPH_FORMAT_VERSION}`);
+  }
+
+  for (const migration of migrations.getFormatMigrations()) {
+    if (!inRange(migration, working.version, GRAPH_FORMAT_VERSION)) {
+      continue;
+    }
+    if (!connectionsCopied) {
+      working = copyPlain(working);
+      connectionsCopied = true;
+    }
+    try {
+      working = migration.migrate(working) ?? working;
+    } catch (error) {
+      throw new Error(`Format migration from ${migration.from} to ${migration.to} failed: ${messageOf(error)}`);
+    }
+    working.version = migration.to;
+    report.steps.push({ kind: 'format', from: migration.from, to: migration.to, description: migration.description });
+  }
+  if (working.version !== GRAPH_FORMAT_VERSION) {
+    working.version = GRAPH_FORMAT_VERSION;
+    report.migrated = true;
+  }
+
+  const migrateNode = (node: SerializedNode): SerializedNode[] => {
+    const target = registry.getMetadata(node.type)?.version;
+    if (target === undefined) {
+      return [node];
+    }
+    const typeMigrations = migrations.getNodeMigrations(node.type);
+    // Nodes saved before versions were recorded are assumed to be at the oldest version with a migration
+    const oldest = typeMigrations[0]?.from;
+    const version = node.typeVersion ??
+      (oldest !== undefined && compareVersions(oldest, target) < 0 ? oldest : target);
+    if (node.typeVersion === undefined && version !== target) {
+      report.warnings.push(`Node ${node.id} of '${node.type}' was saved without a version, migrating it from ${version}`);
+    }
+    if (compareVersions(version, target) > 0) {
+      report.warnings.push(
+        `Node ${node.id} was saved with version ${version} of '${node.type}', newer than the registered ${target}`
+      );
+      return [node];
+    }
+
+    const migration = typeMigrations.find(m => inRange(m, version, target));
+    if (!migration) {
+      if (node.typeVersion !== target) {
+        report.migrated = true;
+        return [{ ...node, typeVersion: target }];
+      }
+      return [node];
+    }
+
+    if (!connectionsCopied) {
+      working.connections = working.connections.map(copyPlain);
+      connectionsCopied = true;
+    }
+    const produced = applyNodeMigration(migration, node, working, report);
+    const step: MigrationStep = {
+      kind: 'node',
+      nodeId: node.id,
+      type: node.type,
+      from: version,
+      to: migration.to,
+      description: migration.description
+    };
+    if (produced.length !== 1 || produced[0].id !== node.id) {
+      step.producedNodes = produced.map(n => n.id);
+    }
+    report.steps.push(step);
+
+    // Nodes the migration created are current unless it says otherwise
+    for (const result of produced) {
+      if (result.type === node.type) {
+        result.typeVersion = migration.to;
+      } else if (result.typeVersion === undefined) {
+        result.typeVersion = registry.getMetadata(result.type)?.version;
+      }
+    }
+    return produced.flatMap(migrateNode);
+  };
+
+  const nodes: SerializedNode[] = [];
+  for (const node of working.nodes) {
+    nodes.push(...migrateNode(node));
+  }
+  working.nodes = nodes;
+
+  const ids = new Set<NodeId>();
+  for (const node of nodes) {
+    if (ids.has(node.id)) {
+      throw new Error(`Migrated graph has more than one node with id ${node.id}`);
+    }
+    ids.add(node.id);
+  }
+  for (const conn of working.connections) {
+    for (const nodeId of [conn.from.nodeId, conn.to.nodeId]) {
+      if (!ids.has(nodeId)) {
+        throw new Error(`Migrated connection ${conn.id} references removed node ${nodeId}`);
+      }
+    }
+  }
+
+  report.migrated = report.migrated || report.steps.length > 0;
+  return { definition: report.migrated ? working : definition, report };
+}
+
+/**
+ * Run one node migration on a copy of the node, keeping the graph's connections consistent
+ */
+function applyNodeMigration(
+  migration: NodeMigration,
+  node: SerializedNode,
+  definition: GraphDefinition,
+  report: MigrationReport
+): SerializedNode[] {
+  const original = copyPlain(node);
+  const movedConstants: Array<{ value: any; nodeId: NodeId; portId: PortId }> = [];
+
+  const takeConstant = (portId: PortId): any => {
+    const value = original.constants?.[portId];
+    if (original.constants && portId in original.constants) {
+      delete original.constants[portId];
+    }
+    return value;
+  };
+
+  const context: NodeMigrationContext = {
+    definition,
+    renameInput(oldPortId, newPortId) {
+      for (const conn of definition.connections) {
+        if (conn.to.nodeId === node.id && conn.to.portId === oldPortId) {
+          conn.to.portId = newPortId;
+        }
+      }
+      const value = takeConstant(oldPortId);
+      if (value !== undefined) {
+        original.constants![newPortId] = value;
+      }
+    },
+    renameOutput(oldPortId, newPortId) {
+      for (const conn of definition.connections) {
+        if (conn.from.nodeId === node.id && conn.from.portId === oldPortId) {
+          conn.from.portId = newPortId;
+        }
+      }
+    },
+    moveInput(portId, toNodeId, toPortId = portId) {
+      for (const conn of definition.connections) {
+        if (conn.to.nodeId === node.id && conn.to.portId === portId) {
+          conn.to = { nodeId: toNodeId, portId: toPortId };
+        }
+      }
+      const value = takeConstant(portId);
+      if (value !== undefined) {
+        movedConstants.push({ value, nodeId: toNodeId, portId: toPortId });
+      }
+    },
+    moveOutput(portId, toNodeId, toPortId = portId) {
+      for (const conn of definition.connections) {
+        if (conn.from.nodeId === node.id && conn.from.portId === portId) {
+          conn.from = { nodeId: toNodeId, portId: toPortId };
+        }
+      }
+    },
+    connect(fromNodeId, fromPortId, toNodeId, toPortId) {
+      definition.connections.push({
+        id: uuidv4(),
+        from: { nodeId: fromNodeId, portId: fromPortId },
+        to: { nodeId: toNodeId, portId: toPortId }
+      });
+    },
+    warn(message) {
+      report.warnings.push(`Node ${node.id} (${node.type} ${migration.from} -> ${migration.to}): ${message}`);
+    }
+  };
+
+  let result: SerializedNode | SerializedNode[] | void;
+  try {
+    result = migration.migrate(original, context);
+  } catch (error) {
+    throw new Error(
+      `Migration of node ${node.id} (${node.type}) from ${migration.from} to ${migration.to} failed: ${messageOf(error)}`
+    );
+  }
+
+  const produced = result === undefined ? [original] : Array.isArray(result) ? result : [result];
+  if (produced.length === 0) {
+    throw new Error(`Migration of node ${node.id} (${node.type}) from ${migration.from} to ${migration.to} returned no nodes`);
+  }
+  for (const { value, nodeId, portId } of movedConstants) {
+    const target = produced.find(n => n.id === nodeId);
+    if (!target) {
+      throw new Error(`Migration of node ${node.id} moved input ${portId} to node ${nodeId}, which it did not return`);
+    }
+    target.constants = { ...target.constants, [portId]: value };
+  }
+  return produced;
+}
+
+/**
+ * Copy the plain objects and arrays of a saved value, keeping every other value
+ * (functions, dates, non-finite numbers, class instances) as it is
+ */
+function copyPlain<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(copyPlain) as T;
+  }
+  if (value !== null && typeof value === 'object') {
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype === Object.prototype || prototype === null) {
+      const copy: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        copy[key] = copyPlain(item);
+      }
+      return copy as T;
+    }
+  }
+  return value;
+}
+
+/**
+ * Check whether a migration brings data at a version closer to the target: it leads past the version
+ * (data between its from and to versions is in its from format) without going beyond the target
+ */
+function inRange(migration: { from: string; to: string }, version: string, target: string): boolean {
+  return compareVersions(migration.to, version) > 0 && compareVersions(migration.to, target) <= 0;
+}
+
+/**
+ * Compare two major.minor.patch versions
+ */
+function compareVersions(a: string, b: string): number {
+  const pa = parseVersion(a);
+  const pb = parseVersion(b);
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) {
+      return pa[i] - pb[i];
+    }
+  }
+  return 0;
+}
+
+function parseVersion(version: string): number[] {
+  const match = /^(\d+)\.(\d+)\.(\d+)/.exec(version);
+  if (!match) {
+    throw new Error(`Invalid version '${version}', expected major.minor.patch`);
+  }
+  return match.slice(1, 4).map(Number);
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
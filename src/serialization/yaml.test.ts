@@ -0,0 +1,91 @@
+import { parseYAML, stringifyYAML, YAMLParseError } from './yaml';
+
+describe('parseYAML', () => {
+  it('reads block mappings, sequences and core schema scalars', () => {
+    const text = [
+      'name: Graph',
+      'version: 1.0.0',
+      'count: 12',
+      'ratio: 0.5',
+      'enabled: true',
+      'missing: ~',
+      'nodes:',
+      '  - id: a',
+      '    tags: [x, "y z"]',
+      '  - id: b',
+      '    config: {step: 2}',
+      ''
+    ].join('\n');
+
+    expect(parseYAML(text)).toEqual({
+      name: 'Graph',
+      version: '1.0.0',
+      count: 12,
+      ratio: 0.5,
+      enabled: true,
+      missing: null,
+      nodes: [
+        { id: 'a', tags: ['x', 'y z'] },
+        { id: 'b', config: { step: 2 } }
+      ]
+    });
+  });
+
+  it('reads quoted, literal and folded strings', () => {
+    const text = [
+      'single: \'it\'\'s\'',
+      'double: "tab\\there"',
+      'literal: |',
+      '  line one',
+      '  line two',
+      'folded: >-',
+      '  folded',
+      '  text',
+      ''
+    ].join('\n');
+
+    expect(parseYAML(text)).toEqual({
+      single: "it's",
+      double: 'tab\there',
+      literal: 'line one\nline two\n',
+      folded: 'folded text'
+    });
+  });
+
+  it('reports what it cannot parse with the line number', () => {
+    expect(() => parseYAML('a: 1\nb: &anchor 2\n')).toThrow(YAMLParseError);
+    expect(() => parseYAML('a: 1\n  b: 2\n')).toThrow(/line 2/);
+  });
+});
+
+describe('stringifyYAML', () => {
+  it('quotes strings that would read back as something else', () => {
+    const value = {
+      yes: 'true',
+      number: '012',
+      empty: '',
+      colon: 'key: value',
+      comment: 'a # b',
+      leading: ' padded',
+      nothing: 'null'
+    };
+
+    expect(parseYAML(stringifyYAML(value))).toEqual(value);
+  });
+
+  it('round-trips nested data and multi-line strings', () => {
+    const value = {
+      nodes: [{ id: 'a', config: { cases: ['x', 'y'], script: 'first\nsecond\n' } }],
+      connections: [],
+      metadata: {}
+    };
+
+    expect(parseYAML(stringifyYAML(value))).toEqual(value);
+  });
+
+  it('keeps comments of parsed documents when written back', () => {
+    const text = '# Graph file\nname: Graph # display name\nversion: 1.0.0\n';
+
+    expect(stringifyYAML(parseYAML(text))).toBe(text);
+  });
+});
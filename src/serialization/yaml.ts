@@ -0,0 +1,1029 @@
+/**
+ * YAML 1.2 subset reader and writer for graph definitions
+ *
+ * Supported: block mappings and sequences, flow collections, plain, single- and double-quoted scalars
+ * (including multi-line ones), literal and folded block scalars with chomping and indentation indicators,
+ * comments, and the core schema (null, booleans, integers, floats).
+ * Not supported: anchors, aliases, tags, complex keys and multiple documents.
+ *
+ * Comments read by parseYAML are remembered for the parsed objects and written back by stringifyYAML,
+ * so reading and re-writing a file keeps them as long as the same objects are written.
+ */
+
+/**
+ * Error raised for YAML the reader cannot parse
+ */
+export class YAMLParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'YAMLParseError';
+  }
+}
+
+/**
+ * Comments attached to a mapping entry or sequence item
+ */
+interface EntryComments {
+  /** Comment lines above the entry */
+  before?: string[];
+  /** Comment at the end of the entry's line */
+  inline?: string;
+}
+
+// Comments of parsed collections, by key or index
+const entryComments = new WeakMap<object, Map<string | number, EntryComments>>();
+// Comments after the last entry of a parsed document
+const trailingComments = new WeakMap<object, string[]>();
+
+const INDENT = 2;
+
+/**
+ * Parse a YAML document
+ */
+export function parseYAML(text: string): any {
+  return new YAMLReader(text).read();
+}
+
+/**
+ * Write a value as a YAML document
+ * Follows JSON.stringify: undefined and functions are left out of objects, toJSON() is honored
+ */
+export function stringifyYAML(value: any): string {
+  const prepared = toData(value);
+  if (prepared === undefined) {
+    return 'null\n';
+  }
+
+  let lines: string[];
+  if (isBlockCollection(prepared)) {
+    lines = writeCollection(prepared, 0);
+  } else if (isMultiLineLiteral(prepared)) {
+    lines = [`|${chompIndicator(prepared)}`, ...literalLines(prepared, INDENT)];
+  } else {
+    lines = [writeScalar(prepared)];
+  }
+
+  if (prepared !== null && typeof prepared === 'object') {
+    trailingComments.get(prepared)?.forEach(comment => lines.push(`#${comment}`));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Bring a value to plain JSON data (keeping the original objects so their comments can be found)
+ */
+function toData(value: any, key: string = ''): any {
+  if (value !== null && typeof value === 'object' && typeof value.toJSON === 'function') {
+    value = value.toJSON(key);
+  }
+  if (typeof value === 'function' || typeof value === 'symbol' || value === undefined) {
+    return undefined;
+  }
+  if (typeof value === 'bigint') {
+    throw new TypeError('Cannot write a BigInt as YAML');
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((item, index) => toData(item, String(index)));
+    if (items.every((item, index) => item === value[index])) {
+      return value;
+    }
+    const copy = items.map(item => (item === undefined ? null : item));
+    copyComments(value, copy);
+    return copy;
+  }
+
+  const entries = Object.entries(value).map(([entryKey, entry]) => [entryKey, toData(entry, entryKey)] as [string, any]);
+  if (entries.every(([entryKey, entry]) => entry === value[entryKey]) && Object.getPrototypeOf(value) === Object.prototype) {
+    return value;
+  }
+  const copy: Record<string, any> = {};
+  entries.forEach(([entryKey, entry]) => {
+    if (entry !== undefined) {
+      copy[entryKey] = entry;
+    }
+  });
+  copyComments(value, copy);
+  return copy;
+}
+
+function copyComments(from: object, to: object): void {
+  const comments = entryComments.get(from);
+  if (comments) {
+    entryComments.set(to, comments);
+  }
+  const trailing = trailingComments.get(from);
+  if (trailing) {
+    trailingComments.set(to, trailing);
+  }
+}
+
+function isBlockCollection(value: any): boolean {
+  return value !== null && typeof value === 'object' &&
+    (Array.isArray(value) ? value.length > 0 : Object.keys(value).length > 0);
+}
+
+/**
+ * Lines of a non-empty mapping or sequence at the given indentation
+ */
+function writeCollection(value: any, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+  const comments = entryComments.get(value);
+  const lines: string[] = [];
+
+  const entries: Array<[string | number, any]> = Array.isArray(value)
+    ? value.map((item, index) => [index, item === undefined ? null : item])
+    : Object.entries(value).filter(([, entry]) => entry !== undefined);
+
+  for (const [key, entry] of entries) {
+    const entryComment = comments?.get(key);
+    entryComment?.before?.forEach(comment => lines.push(`${pad}#${comment}`));
+    const inline = entryComment?.inline !== undefined ? ` #${entryComment.inline}` : '';
+    const lead = typeof key === 'number' ? `${pad}-` : `${pad}${writeKey(key)}:`;
+
+    if (isBlockCollection(entry)) {
+      const nested = writeCollection(entry, indent + INDENT);
+      // Sequence items start their collection on the dash line when no comment sits in between
+      if (typeof key === 'number' && !inline && !nested[0].trimStart().startsWith('#')) {
+        lines.push(`${lead} ${nested[0].slice(indent + INDENT)}`, ...nested.slice(1));
+      } else {
+        lines.push(`${lead}${inline}`, ...nested);
+      }
+    } else if (isMultiLineLiteral(entry)) {
+      lines.push(`${lead} |${chompIndicator(entry)}${inline}`, ...literalLines(entry, indent + INDENT));
+    } else {
+      lines.push(`${lead} ${writeScalar(entry)}${inline}`);
+    }
+  }
+
+  return lines;
+}
+
+function writeKey(key: string): string {
+  return isPlainSafe(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * A scalar (or empty collection) on one line
+ */
+function writeScalar(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+  if (typeof value === 'object') {
+    return '{}';
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) {
+      return '.nan';
+    }
+    if (!Number.isFinite(value)) {
+      return value > 0 ? '.inf' : '-.inf';
+    }
+    return Object.is(value, -0) ? '-0.0' : String(value);
+  }
+  const text = String(value);
+  return isPlainSafe(text) ? text : JSON.stringify(text);
+}
+
+/**
+ * Whether a string can be written unquoted and reads back as the same string
+ */
+function isPlainSafe(text: string): boolean {
+  if (text === '' || text !== text.trim()) {
+    return false;
+  }
+  if (/[\x00-\x1f\x7f\u0085\u2028\u2029\ufeff]/.test(text)) {
+    return false;
+  }
+  if (/^[-?:,[\]{}#&*!|>'"%@`]/.test(text) || text.startsWith('...')) {
+    return false;
+  }
+  if (text.includes(': ') || text.includes(' #') || text.endsWith(':')) {
+    return false;
+  }
+  return typeof resolvePlain(text) === 'string';
+}
+
+/**
+ * Multi-line strings are written as literal block scalars when that reads back exactly
+ */
+function isMultiLineLiteral(value: any): value is string {
+  if (typeof value !== 'string' || !value.includes('\n')) {
+    return false;
+  }
+  const firstContent = value.split('\n').find(line => line !== '');
+  return firstContent !== undefined &&
+    !/^[ \t]/.test(firstContent) &&
+    !/^[ \t]+$/m.test(value) &&
+    !/[\x00-\x08\x0b-\x1f\x7f\u0085\u2028\u2029\ufeff]/.test(value);
+}
+
+function chompIndicator(value: string): string {
+  if (!value.endsWith('\n')) {
+    return '-';
+  }
+  return value.endsWith('\n\n') ? '+' : '';
+}
+
+function literalLines(value: string, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+  const body = value.endsWith('\n') ? value.slice(0, -1) : value;
+  return body.split('\n').map(line => (line === '' ? '' : pad + line));
+}
+
+/**
+ * Resolve a plain scalar with the YAML 1.2 core schema
+ */
+function resolvePlain(text: string): any {
+  if (/^(null|Null|NULL|~)?$/.test(text)) {
+    return null;
+  }
+  if (/^(true|True|TRUE)$/.test(text)) {
+    return true;
+  }
+  if (/^(false|False|FALSE)$/.test(text)) {
+    return false;
+  }
+  if (/^[-+]?[0-9]+$/.test(text)) {
+    return Number(text);
+  }
+  if (/^0o[0-7]+$/.test(text)) {
+    return parseInt(text.slice(2), 8);
+  }
+  if (/^0x[0-9a-fA-F]+$/.test(text)) {
+    return parseInt(text.slice(2), 16);
+  }
+  if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(text)) {
+    return Number(text);
+  }
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) {
+    return text.startsWith('-') ? -Infinity : Infinity;
+  }
+  if (/^\.(nan|NaN|NAN)$/.test(text)) {
+    return NaN;
+  }
+  return text;
+}
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  '0': '\0', a: '\x07', b: '\b', t: '\t', '\t': '\t', n: '\n', v: '\v', f: '\f', r: '\r', e: '\x1b',
+  ' ': ' ', '"': '"', '/': '/', '\\': '\\', N: '\u0085', _: '\u00a0', L: '\u2028', P: '\u2029'
+};
+
+function unescapeDoubleQuoted(text: string, line: number): string {
+  return text.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g, (match, escape: string) => {
+    if (escape.length > 1) {
+      return String.fromCodePoint(parseInt(escape.slice(1), 16));
+    }
+    if (!(escape in DOUBLE_QUOTE_ESCAPES)) {
+      throw new YAMLParseError(`Unknown escape sequence ${match}`, line);
+    }
+    return DOUBLE_QUOTE_ESCAPES[escape];
+  });
+}
+
+/**
+ * Index of a comment in a line (a '#' at the start or after whitespace), or -1
+ */
+function commentIndex(text: string, from: number = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '#' && (i === 0 || text[i - 1] === ' ' || text[i - 1] === '\t')) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Index of the quote closing a quoted scalar, searching from `from`, or -1 if it does not close on this line
+ */
+function closingQuote(text: string, from: number, quote: string): number {
+  for (let i = from; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++;
+      } else {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Index just past the closing quote of a quoted scalar starting at `start`, or -1 if it does not close on this line
+ */
+function quoteEnd(text: string, start: number): number {
+  const close = closingQuote(text, start + 1, text[start]);
+  return close < 0 ? -1 : close + 1;
+}
+
+/**
+ * Fold the lines of a multi-line quoted scalar: single breaks become spaces, empty lines become newlines
+ */
+function foldQuotedLines(lines: string[], doubleQuoted: boolean): string {
+  let result = '';
+  let emptyLines = 0;
+  let escapedBreak = false;
+
+  lines.forEach((raw, index) => {
+    const isFirst = index === 0;
+    const isLast = index === lines.length - 1;
+    let text = isFirst ? raw : raw.trimStart();
+    if (!isLast) {
+      text = text.replace(/[ \t]+$/, '');
+    }
+
+    if (!isFirst && !isLast && text === '') {
+      emptyLines++;
+      return;
+    }
+
+    if (!isFirst) {
+      result += escapedBreak ? '' : emptyLines > 0 ? '\n'.repeat(emptyLines) : ' ';
+    }
+    emptyLines = 0;
+
+    const trailingBackslashes = text.match(/\\*$/)![0].length;
+    escapedBreak = doubleQuoted && !isLast && trailingBackslashes % 2 === 1;
+    result += escapedBreak ? text.slice(0, -1) : text;
+  });
+
+  return result;
+}
+
+interface Line {
+  text: string;
+  indent: number;
+  number: number;
+}
+
+/**
+ * Line-based recursive descent reader
+ */
+class YAMLReader {
+  private lines: Line[];
+  private position = 0;
+  private pendingComments: string[] = [];
+
+  constructor(text: string) {
+    const rawLines = text.replace(/^\ufeff/, '').replace(/\r\n?/g, '\n').split('\n');
+    if (rawLines[rawLines.length - 1] === '') {
+      rawLines.pop();
+    }
+    this.lines = rawLines.map((raw, index) => {
+      const indent = raw.length - raw.replace(/^ */, '').length;
+      return { text: raw, indent, number: index + 1 };
+    });
+  }
+
+  read(): any {
+    this.skipDocumentStart();
+    const value = this.readBlockNode(-1);
+
+    this.skipBlankAndComments();
+    if (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      if (line.text.startsWith('...') && isDocumentMarker(line.text)) {
+        this.position++;
+        this.skipBlankAndComments();
+      }
+      if (this.position < this.lines.length) {
+        const extra = this.lines[this.position];
+        if (isDocumentMarker(extra.text)) {
+          throw new YAMLParseError('Multiple documents are not supported', extra.number);
+        }
+        throw new YAMLParseError(`Unexpected content "${extra.text.trim()}"`, extra.number);
+      }
+    }
+
+    if (value !== null && typeof value === 'object' && this.pendingComments.length > 0) {
+      trailingComments.set(value, this.pendingComments);
+    }
+    return value;
+  }
+
+  private skipDocumentStart(): void {
+    this.skipBlankAndComments();
+    while (this.position < this.lines.length && this.lines[this.position].text.startsWith('%')) {
+      this.position++;
+      this.skipBlankAndComments();
+    }
+    if (this.position < this.lines.length && /^---(\s|$)/.test(this.lines[this.position].text)) {
+      const line = this.lines[this.position];
+      const rest = line.text.slice(3).trim();
+      if (rest === '' || rest.startsWith('#')) {
+        this.position++;
+      } else {
+        this.replaceLine(line, 4, line.text.slice(4));
+      }
+    }
+  }
+
+  /**
+   * Skip blank lines and collect comment lines for the next entry
+   */
+  private skipBlankAndComments(): void {
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      const content = line.text.trim();
+      if (content === '') {
+        this.position++;
+      } else if (content.startsWith('#')) {
+        this.pendingComments.push(content.slice(1));
+        this.position++;
+      } else {
+        if (/^ *\t/.test(line.text)) {
+          throw new YAMLParseError('Tabs are not allowed in indentation', line.number);
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Next line with content, or undefined at the end of the document
+   */
+  private peekContentLine(): Line | undefined {
+    this.skipBlankAndComments();
+    const line = this.lines[this.position];
+    return line && !isDocumentMarker(line.text) ? line : undefined;
+  }
+
+  /**
+   * Rewrite a line so its content starts at `column` (used to read "- item" content as its own node)
+   */
+  private replaceLine(line: Line, column: number, content: string): void {
+    const leading = content.length - content.trimStart().length;
+    line.text = ' '.repeat(column + leading) + content.trimStart();
+    line.indent = column + leading;
+  }
+
+  /**
+   * Read the node starting on the next content line if it is indented deeper than the parent
+   */
+  private readBlockNode(parentIndent: number): any {
+    const line = this.peekContentLine();
+    if (!line || line.indent <= parentIndent) {
+      return null;
+    }
+
+    const content = line.text.slice(line.indent);
+    if (isSequenceEntry(content)) {
+      return this.readSequence(line.indent);
+    }
+    if (this.findMappingKey(line) !== undefined) {
+      return this.readMapping(line.indent);
+    }
+
+    this.position++;
+    return this.readInlineValue(content, parentIndent, line).value;
+  }
+
+  private readSequence(indent: number): any[] {
+    const items: any[] = [];
+    const comments = new Map<number, EntryComments>();
+
+    for (let line = this.peekContentLine(); line && line.indent === indent; line = this.peekContentLine()) {
+      const content = line.text.slice(indent);
+      // A sequence at its key's indentation ends at the next key
+      if (!isSequenceEntry(content)) {
+        break;
+      }
+
+      const index = items.length;
+      this.takeComments(comments, index);
+
+      const rest = content.slice(1);
+      const trimmed = rest.trim();
+      if (trimmed === '' || trimmed.startsWith('#')) {
+        if (trimmed.startsWith('#')) {
+          setInline(comments, index, trimmed.slice(1));
+        }
+        this.position++;
+        items.push(this.readBlockNode(indent));
+      } else {
+        // Read the item's content as if it started its own line at its column
+        this.replaceLine(line, indent + 1, rest);
+        items.push(this.readItemContent(indent, comments, index));
+      }
+    }
+
+    if (comments.size > 0) {
+      entryComments.set(items, comments);
+    }
+    return items;
+  }
+
+  /**
+   * Content following "- " on the same line: a nested collection or a scalar
+   */
+  private readItemContent(sequenceIndent: number, comments: Map<number, EntryComments>, index: number): any {
+    const line = this.lines[this.position];
+    const content = line.text.slice(line.indent);
+    if (isSequenceEntry(content)) {
+      return this.readSequence(line.indent);
+    }
+    if (this.findMappingKey(line) !== undefined) {
+      return this.readMapping(line.indent);
+    }
+
+    this.position++;
+    const { value, comment } = this.readInlineValue(content, sequenceIndent, line);
+    if (comment !== undefined) {
+      setInline(comments, index, comment);
+    }
+    return value;
+  }
+
+  private readMapping(indent: number): Record<string, any> {
+    const mapping: Record<string, any> = {};
+    const comments = new Map<string, EntryComments>();
+
+    for (let line = this.peekContentLine(); line && line.indent === indent; line = this.peekContentLine()) {
+      if (isSequenceEntry(line.text.slice(indent))) {
+        break;
+      }
+      const found = this.findMappingKey(line);
+      if (!found) {
+        throw new YAMLParseError(`Expected a mapping key, found "${line.text.trim()}"`, line.number);
+      }
+
+      const { key, valueStart } = found;
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw new YAMLParseError(`Duplicate key "${key}"`, line.number);
+      }
+      this.takeComments(comments, key);
+
+      const rest = line.text.slice(valueStart).trim();
+      this.position++;
+
+      if (rest === '' || rest.startsWith('#')) {
+        if (rest.startsWith('#')) {
+          setInline(comments, key, rest.slice(1));
+        }
+        // A sequence may sit at the same indentation as its key
+        const next = this.peekContentLine();
+        mapping[key] = next && next.indent === indent && isSequenceEntry(next.text.slice(indent))
+          ? this.readSequence(indent)
+          : this.readBlockNode(indent);
+      } else {
+        const { value, comment } = this.readInlineValue(rest, indent, line);
+        if (comment !== undefined) {
+          setInline(comments, key, comment);
+        }
+        mapping[key] = value;
+      }
+    }
+
+    const line = this.lines[this.position];
+    if (line && line.indent > indent && line.text.trim() !== '') {
+      throw new YAMLParseError('Bad indentation of a mapping entry', line.number);
+    }
+
+    if (comments.size > 0) {
+      entryComments.set(mapping, comments);
+    }
+    return mapping;
+  }
+
+  /**
+   * Find "key:" at the start of a line
+   */
+  private findMappingKey(line: Line): { key: string; valueStart: number } | undefined {
+    const text = line.text;
+    const start = line.indent;
+    const first = text[start];
+
+    if (first === '?') {
+      throw new YAMLParseError('Complex mapping keys are not supported', line.number);
+    }
+
+    if (first === '"' || first === "'") {
+      const end = quoteEnd(text, start);
+      if (end < 0) {
+        return undefined;
+      }
+      const after = text.slice(end).match(/^[ \t]*:(?=\s|$)/);
+      if (!after) {
+        return undefined;
+      }
+      const raw = text.slice(start + 1, end - 1);
+      const key = first === '"' ? unescapeDoubleQuoted(raw, line.number) : raw.replace(/''/g, "'");
+      return { key, valueStart: end + after[0].length };
+    }
+
+    if (/[[\]{}]/.test(first ?? '') || isSequenceEntry(text.slice(start))) {
+      return undefined;
+    }
+
+    const comment = commentIndex(text, start);
+    const searchEnd = comment < 0 ? text.length : comment;
+    for (let i = start; i < searchEnd; i++) {
+      if (text[i] === ':' && (i + 1 === text.length || text[i + 1] === ' ' || text[i + 1] === '\t')) {
+        const key = text.slice(start, i).trim();
+        if (/^[&*!]/.test(key)) {
+          throw new YAMLParseError('Anchors, aliases and tags are not supported', line.number);
+        }
+        return { key, valueStart: i + 1 };
+      }
+    }
+    return undefined;
+  }
+
+  private takeComments<K extends string | number>(comments: Map<K, EntryComments>, key: K): void {
+    if (this.pendingComments.length > 0) {
+      comments.set(key, { ...comments.get(key), before: this.pendingComments });
+      this.pendingComments = [];
+    }
+  }
+
+  /**
+   * Read a scalar or flow collection starting with `text` on `line`; continuation lines must be indented
+   * deeper than `parentIndent`
+   */
+  private readInlineValue(text: string, parentIndent: number, line: Line): { value: any; comment?: string } {
+    const first = text[0];
+
+    if (first === '&' || first === '*' || first === '!') {
+      throw new YAMLParseError('Anchors, aliases and tags are not supported', line.number);
+    }
+    if (first === '|' || first === '>') {
+      return this.readBlockScalar(text, parentIndent, line);
+    }
+    if (first === '"' || first === "'") {
+      return this.readQuoted(text, line);
+    }
+    if (first === '[' || first === '{') {
+      return this.readFlow(text, parentIndent, line);
+    }
+    return this.readPlain(text, parentIndent);
+  }
+
+  private readPlain(text: string, parentIndent: number): { value: any; comment?: string } {
+    const comment = commentIndex(text);
+    const parts = [(comment < 0 ? text : text.slice(0, comment)).trim()];
+    let inlineComment = comment < 0 ? undefined : text.slice(comment + 1);
+
+    // Continuation lines fold into the scalar: single breaks become spaces, blank lines newlines
+    if (inlineComment === undefined) {
+      let blank = 0;
+      let cursor = this.position;
+      while (cursor < this.lines.length) {
+        const next = this.lines[cursor];
+        const content = next.text.trim();
+        if (content === '') {
+          blank++;
+          cursor++;
+          continue;
+        }
+        if (next.indent <= parentIndent || content.startsWith('#')) {
+          break;
+        }
+        if (this.findMappingKey(next) !== undefined) {
+          throw new YAMLParseError('Bad indentation of a mapping entry', next.number);
+        }
+        const nextComment = commentIndex(content);
+        parts.push(blank > 0 ? '\n'.repeat(blank) : ' ');
+        parts.push((nextComment < 0 ? content : content.slice(0, nextComment)).trim());
+        blank = 0;
+        cursor++;
+        this.position = cursor;
+        if (nextComment >= 0) {
+          inlineComment = content.slice(nextComment + 1);
+          break;
+        }
+      }
+    }
+
+    const raw = parts.join('');
+    return { value: parts.length > 1 ? raw : resolvePlain(raw), comment: inlineComment };
+  }
+
+  private readQuoted(text: string, line: Line): { value: any; comment?: string } {
+    const quote = text[0];
+    const doubleQuoted = quote === '"';
+    let close = closingQuote(text, 1, quote);
+    let raw: string;
+    let after: string;
+    let lastLine = line;
+
+    if (close >= 0) {
+      raw = text.slice(1, close);
+      after = text.slice(close + 1);
+    } else {
+      // A quoted scalar may span lines until its closing quote
+      const parts = [text.slice(1)];
+      for (;;) {
+        if (this.position >= this.lines.length) {
+          throw new YAMLParseError('Unterminated quoted string', line.number);
+        }
+        lastLine = this.lines[this.position++];
+        close = closingQuote(lastLine.text, 0, quote);
+        if (close >= 0) {
+          parts.push(lastLine.text.slice(0, close));
+          after = lastLine.text.slice(close + 1);
+          break;
+        }
+        parts.push(lastLine.text);
+      }
+      raw = foldQuotedLines(parts, doubleQuoted);
+    }
+
+    const trailing = after.trim();
+    if (trailing !== '' && !(trailing.startsWith('#') && /^\s/.test(after))) {
+      throw new YAMLParseError(`Unexpected "${trailing}" after quoted string`, lastLine.number);
+    }
+
+    const value = doubleQuoted ? unescapeDoubleQuoted(raw, line.number) : raw.replace(/''/g, "'");
+    return { value, comment: trailing.startsWith('#') ? trailing.slice(1) : undefined };
+  }
+
+  private readBlockScalar(header: string, parentIndent: number, line: Line): { value: string; comment?: string } {
+    const match = header.match(/^([|>])([1-9]?)([-+]?)([1-9]?)(\s+#(.*))?\s*$/);
+    if (!match) {
+      throw new YAMLParseError(`Invalid block scalar header "${header}"`, line.number);
+    }
+    const [, style, indentBefore, chomp, indentAfter, , comment] = match;
+    const explicitIndent = Number(indentBefore || indentAfter) || 0;
+
+    // Gather the block: lines indented deeper than the parent, and blank lines in between
+    const block: string[] = [];
+    let contentIndent = explicitIndent > 0 ? Math.max(parentIndent, 0) + explicitIndent : -1;
+    while (this.position < this.lines.length) {
+      const next = this.lines[this.position];
+      if (next.text.trim() === '') {
+        block.push(next.text);
+        this.position++;
+        continue;
+      }
+      if (contentIndent < 0) {
+        contentIndent = next.indent;
+      }
+      if (next.indent < contentIndent || next.indent <= parentIndent) {
+        break;
+      }
+      block.push(next.text);
+      this.position++;
+    }
+
+    // Trailing blank lines belong to the block only for "keep" chomping; give the rest back
+    let trailingBlank = 0;
+    while (block.length > 0 && block[block.length - 1].trim() === '') {
+      block.pop();
+      trailingBlank++;
+    }
+    if (chomp !== '+') {
+      this.position -= trailingBlank;
+    }
+
+    const contentLines = block.map(text => text.slice(Math.max(contentIndent, 0)));
+    const body = style === '|' ? contentLines.join('\n') : foldBlockLines(contentLines);
+
+    let value = body;
+    if (body !== '' && chomp !== '-') {
+      value += '\n';
+    }
+    if (chomp === '+') {
+      value += '\n'.repeat(trailingBlank);
+    }
+    return { value, comment };
+  }
+
+  private readFlow(text: string, parentIndent: number, line: Line): { value: any; comment?: string } {
+    // Collect lines until the brackets balance
+    let source = stripFlowComment(text);
+    let comment = flowComment(text);
+    while (!flowBalanced(source)) {
+      const next = this.lines[this.position];
+      if (!next || (next.indent <= parentIndent && next.text.trim() !== '')) {
+        throw new YAMLParseError('Unterminated flow collection', line.number);
+      }
+      this.position++;
+      source += ' ' + stripFlowComment(next.text.trim());
+      comment = flowComment(next.text.trim());
+    }
+
+    const parser = new FlowParser(source, line.number);
+    const value = parser.parseValue();
+    parser.expectEnd();
+    return { value, comment };
+  }
+}
+
+function isDocumentMarker(text: string): boolean {
+  return /^(---|\.\.\.)(\s|$)/.test(text);
+}
+
+function isSequenceEntry(content: string): boolean {
+  return content === '-' || content.startsWith('- ') || content.startsWith('-\t');
+}
+
+function setInline<K extends string | number>(comments: Map<K, EntryComments>, key: K, comment: string): void {
+  comments.set(key, { ...comments.get(key), inline: comment });
+}
+
+/**
+ * Fold the lines of a ">" block scalar: lines join with spaces, blank lines become newlines,
+ * more-indented lines keep their breaks
+ */
+function foldBlockLines(lines: string[]): string {
+  let result = '';
+  let previous: string | undefined;
+  let emptyLines = 0;
+
+  for (const text of lines) {
+    if (text.trim() === '') {
+      emptyLines++;
+      continue;
+    }
+    if (previous !== undefined) {
+      const literal = /^[ \t]/.test(text) || /^[ \t]/.test(previous);
+      result += literal ? '\n'.repeat(emptyLines + 1) : emptyLines > 0 ? '\n'.repeat(emptyLines) : ' ';
+    } else if (emptyLines > 0) {
+      result += '\n'.repeat(emptyLines);
+    }
+    result += text;
+    previous = text;
+    emptyLines = 0;
+  }
+  return result;
+}
+
+/**
+ * Position of a comment outside quotes in a flow collection line, or -1
+ */
+function flowCommentIndex(text: string): number {
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if ((char === '"' || char === "'") && (i === 0 || /[\s[{,:]/.test(text[i - 1]))) {
+      const end = quoteEnd(text, i);
+      if (end < 0) {
+        return -1;
+      }
+      i = end - 1;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function stripFlowComment(text: string): string {
+  const index = flowCommentIndex(text);
+  return (index < 0 ? text : text.slice(0, index)).trimEnd();
+}
+
+function flowComment(text: string): string | undefined {
+  const index = flowCommentIndex(text);
+  return index < 0 ? undefined : text.slice(index + 1);
+}
+
+function flowBalanced(text: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if ((char === '"' || char === "'") && (i === 0 || /[\s[{,:]/.test(text[i - 1]))) {
+      const end = quoteEnd(text, i);
+      if (end < 0) {
+        return false;
+      }
+      i = end - 1;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    }
+  }
+  return depth <= 0;
+}
+
+/**
+ * Parser for flow collections ([a, b] and {a: 1})
+ */
+class FlowParser {
+  private index = 0;
+
+  constructor(private readonly text: string, private readonly line: number) {}
+
+  parseValue(): any {
+    this.skipSpace();
+    const char = this.text[this.index];
+    if (char === '[') {
+      return this.parseSequence();
+    }
+    if (char === '{') {
+      return this.parseMapping();
+    }
+    if (char === '"' || char === "'") {
+      return this.parseQuoted();
+    }
+    if (char === '&' || char === '*' || char === '!') {
+      throw new YAMLParseError('Anchors, aliases and tags are not supported', this.line);
+    }
+    return resolvePlain(this.parsePlain());
+  }
+
+  expectEnd(): void {
+    this.skipSpace();
+    if (this.index < this.text.length) {
+      throw new YAMLParseError(`Unexpected "${this.text.slice(this.index)}" after flow collection`, this.line);
+    }
+  }
+
+  private parseSequence(): any[] {
+    const items: any[] = [];
+    this.index++;
+    for (;;) {
+      this.skipSpace();
+      if (this.text[this.index] === ']') {
+        this.index++;
+        return items;
+      }
+      items.push(this.parseValue());
+      this.skipSpace();
+      if (this.text[this.index] === ',') {
+        this.index++;
+      } else if (this.text[this.index] !== ']') {
+        throw new YAMLParseError('Expected "," or "]" in flow sequence', this.line);
+      }
+    }
+  }
+
+  private parseMapping(): Record<string, any> {
+    const mapping: Record<string, any> = {};
+    this.index++;
+    for (;;) {
+      this.skipSpace();
+      if (this.text[this.index] === '}') {
+        this.index++;
+        return mapping;
+      }
+
+      const char = this.text[this.index];
+      const key = char === '"' || char === "'" ? this.parseQuoted() : this.parsePlain();
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw new YAMLParseError(`Duplicate key "${key}"`, this.line);
+      }
+
+      this.skipSpace();
+      if (this.text[this.index] === ':') {
+        this.index++;
+        mapping[key] = this.parseValue();
+        this.skipSpace();
+      } else {
+        mapping[key] = null;
+      }
+
+      if (this.text[this.index] === ',') {
+        this.index++;
+      } else if (this.text[this.index] !== '}') {
+        throw new YAMLParseError('Expected "," or "}" in flow mapping', this.line);
+      }
+    }
+  }
+
+  private parseQuoted(): string {
+    const end = quoteEnd(this.text, this.index);
+    if (end < 0) {
+      throw new YAMLParseError('Unterminated quoted string', this.line);
+    }
+    const quote = this.text[this.index];
+    const raw = this.text.slice(this.index + 1, end - 1);
+    this.index = end;
+    return quote === '"' ? unescapeDoubleQuoted(raw, this.line) : raw.replace(/''/g, "'");
+  }
+
+  private parsePlain(): string {
+    const start = this.index;
+    while (this.index < this.text.length) {
+      const char = this.text[this.index];
+      if (char === ',' || char === ']' || char === '}' || char === '[' || char === '{') {
+        break;
+      }
+      if (char === ':' && /[\s,\]}]|^$/.test(this.text[this.index + 1] ?? '')) {
+        break;
+      }
+      this.index++;
+    }
+    return this.text.slice(start, this.index).trim();
+  }
+
+  private skipSpace(): void {
+    while (this.index < this.text.length && /\s/.test(this.text[this.index])) {
+      this.index++;
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Identifies a span within a trace
+ */
+export interface SpanContext {
+  /** 32 hex characters */
+  traceId: string;
+  /** 16 hex characters */
+  spanId: string;
+}
+
+/**
+ * Span status codes (same values as OpenTelemetry)
+ */
+export enum SpanStatusCode {
+  UNSET = 0,
+  OK = 1,
+  ERROR = 2
+}
+
+/**
+ * Value of a span attribute
+ */
+export type AttributeValue = string | number | boolean | string[] | number[] | boolean[];
+
+/**
+ * Span attributes keyed by name
+ */
+export type SpanAttributes = Record<string, AttributeValue>;
+
+/**
+ * Timestamped event recorded on a span
+ */
+export interface SpanEvent {
+  name: string;
+  time: number;
+  attributes: SpanAttributes;
+}
+
+/**
+ * Span status
+ */
+export interface SpanStatus {
+  code: SpanStatusCode;
+  message?: string;
+}
+
+/**
+ * Create a random trace id
+ */
+export function createTraceId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Create a random span id
+ */
+export function createSpanId(): string {
+  return randomBytes(8).toString('hex');
+}
+
+/**
+ * A timed operation within a trace
+ * Spans are created by a Tracer and handed to its exporter when they end
+ */
+export class Span {
+  public readonly traceId: string;
+  public readonly spanId: string;
+  public readonly parentSpanId?: string;
+  public readonly name: string;
+  public readonly startTime: number;
+  public endTime?: number;
+  public status: SpanStatus = { code: SpanStatusCode.UNSET };
+
+  private attributes: SpanAttributes = {};
+  private events: SpanEvent[] = [];
+
+  constructor(
+    name: string,
+    traceId: string,
+    parentSpanId: string | undefined,
+    private readonly onEnd: (span: Span) => void,
+    startTime: number = Date.now()
+  ) {
+    this.name = name;
+    this.traceId = traceId;
+    this.spanId = createSpanId();
+    this.parentSpanId = parentSpanId;
+    this.startTime = startTime;
+  }
+
+  /**
+   * Get the context children of this span are created under
+   */
+  getContext(): SpanContext {
+    return { traceId: this.traceId, spanId: this.spanId };
+  }
+
+  /**
+   * Set an attribute; undefined values are ignored
+   */
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    if (value !== undefined && !this.isEnded()) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  /**
+   * Set several attributes
+   */
+  setAttributes(attributes: Record<string, AttributeValue | undefined>): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+    return this;
+  }
+
+  /**
+   * Record an event at the current time
+   */
+  addEvent(name: string, attributes: SpanAttributes = {}): this {
+    if (!this.isEnded()) {
+      this.events.push({ name, time: Date.now(), attributes });
+    }
+    return this;
+  }
+
+  /**
+   * Record an error as an "exception" event (OpenTelemetry semantic conventions)
+   */
+  recordException(error: Error): this {
+    return this.addEvent('exception', {
+      'exception.type': error.name,
+      'exception.message': error.message,
+      ...(error.stack ? { 'exception.stacktrace': error.stack } : {})
+    });
+  }
+
+  /**
+   * Set the span status
+   */
+  setStatus(code: SpanStatusCode, message?: string): this {
+    if (!this.isEnded()) {
+      this.status = message === undefined ? { code } : { code, message };
+    }
+    return this;
+  }
+
+  /**
+   * End the span; ending it again has no effect
+   */
+  end(endTime: number = Date.now()): void {
+    if (this.isEnded()) {
+      return;
+    }
+    this.endTime = endTime;
+    this.onEnd(this);
+  }
+
+  isEnded(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  getAttributes(): SpanAttributes {
+    return { ...this.attributes };
+  }
+
+  getEvents(): SpanEvent[] {
+    return [...this.events];
+  }
+
+  getDuration(): number {
+    return (this.endTime ?? Date.now()) - this.startTime;
+  }
+}
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import { Span, SpanAttributes } from './Span';
+import { toOtlpJson, OtlpTraceExport } from './otlp';
+
+/**
+ * Destination for finished spans
+ * A Tracer hands over the spans of a run together once the run's span ends
+ */
+export interface SpanExporter {
+  /** Export finished spans along with the tracer's resource attributes */
+  export(spans: Span[], resource: SpanAttributes): Promise<void>;
+}
+
+/**
+ * Exporter keeping spans in memory, for tests and in-process inspection
+ */
+export class InMemorySpanCollector implements SpanExporter {
+  private spans: Span[] = [];
+  private resource: SpanAttributes = {};
+
+  async export(spans: Span[], resource: SpanAttributes): Promise<void> {
+    this.spans.push(...spans);
+    this.resource = resource;
+  }
+
+  /**
+   * Get every collected span, in the order they were exported
+   */
+  getSpans(): Span[] {
+    return [...this.spans];
+  }
+
+  /**
+   * Get the spans of one trace
+   */
+  getTrace(traceId: string): Span[] {
+    return this.spans.filter(span => span.traceId === traceId);
+  }
+
+  /**
+   * Get the direct children of a span
+   */
+  getChildren(span: Span): Span[] {
+    return this.spans.filter(child => child.parentSpanId === span.spanId);
+  }
+
+  /**
+   * Render the collected spans as an OTLP/JSON export request
+   */
+  toOtlpJson(): OtlpTraceExport {
+    return toOtlpJson(this.spans, this.resource);
+  }
+
+  clear(): void {
+    this.spans = [];
+  }
+}
+
+/**
+ * Exporter appending one OTLP/JSON export request per line to a file
+ * (the format read by the OpenTelemetry Collector's OTLP JSON file receiver)
+ */
+export class FileSpanExporter implements SpanExporter {
+  // Appends are chained so lines never interleave
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async export(spans: Span[], resource: SpanAttributes): Promise<void> {
+    const line = JSON.stringify(toOtlpJson(spans, resource)) + '\n';
+    const result = this.writes.then(() => fs.appendFile(this.filePath, line, 'utf-8'));
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,97 @@
+import { Tracer, SPAN_ID_METADATA_KEY } from './Tracer';
+import { InMemorySpanCollector } from './SpanExporter';
+import { SpanStatusCode } from './Span';
+import { NodeExecutor } from '../core/NodeExecutor';
+import { BaseNode } from '../core/BaseNode';
+import { DataTypes, ExecutionContext, NodeConfig, PortId } from '../types';
+
+class SplitNode extends BaseNode {
+  public seenSpanIds: string[] = [];
+
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'Split',
+      inputs: [{ id: 'text', name: 'Text', dataType: DataTypes.STRING, required: true }],
+      outputs: [{ id: 'words', name: 'Words', dataType: DataTypes.ARRAY }]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    this.seenSpanIds.push(context.metadata.get(SPAN_ID_METADATA_KEY));
+    const text = this.getInput<string>(context, 'text')!;
+    if (!text) {
+      throw new Error('Nothing to split');
+    }
+    return new Map([['words', text.split(' ')]]);
+  }
+}
+
+describe('Tracer', () => {
+  let collector: InMemorySpanCollector;
+  let tracer: Tracer;
+  let split: SplitNode;
+  let executor: NodeExecutor;
+
+  beforeEach(() => {
+    collector = new InMemorySpanCollector();
+    tracer = new Tracer({ serviceName: 'tests', exporter: collector });
+    split = new SplitNode({ id: 'split' });
+    executor = new NodeExecutor({ tracer });
+    executor.addNode(split);
+  });
+
+  it('records a run span with a child span per node', async () => {
+    await executor.execute(new Map([['split', new Map([['text', 'a b c']])]]), { executionId: 'run-1' });
+    await tracer.flush();
+
+    const [nodeSpan, runSpan] = collector.getSpans();
+
+    expect(runSpan.parentSpanId).toBeUndefined();
+    expect(runSpan.getAttributes()).toMatchObject({ 'execution.id': 'run-1', 'execution.mode': 'sequential' });
+    expect(collector.getChildren(runSpan)).toEqual([nodeSpan]);
+    expect(nodeSpan.traceId).toBe(runSpan.traceId);
+    expect(nodeSpan.getAttributes()).toMatchObject({
+      'node.id': 'split',
+      'node.inputs.text.size': 5,
+      'node.outputs.words.size': 3
+    });
+    expect(nodeSpan.status.code).toBe(SpanStatusCode.OK);
+    expect(split.seenSpanIds).toEqual([nodeSpan.spanId]);
+  });
+
+  it('marks the span of a failed node as an error', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await executor.execute(new Map([['split', new Map([['text', '']])]]));
+    await tracer.flush();
+    jest.restoreAllMocks();
+
+    const nodeSpan = collector.getSpans().find(span => span.getAttributes()['node.id'] === 'split')!;
+
+    expect(nodeSpan.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Nothing to split' });
+    expect(nodeSpan.getEvents().map(event => event.name)).toEqual(['exception']);
+  });
+
+  it('continues a trace from a remote parent', async () => {
+    const parent = { traceId: 'a'.repeat(32), spanId: 'b'.repeat(16) };
+
+    await executor.execute(new Map([['split', new Map([['text', 'a']])]]), { traceParent: parent });
+    await tracer.flush();
+
+    expect(collector.getTrace(parent.traceId)).toHaveLength(2);
+    expect(collector.getSpans()[1].parentSpanId).toBe(parent.spanId);
+  });
+
+  it('exports spans as OTLP JSON', async () => {
+    await executor.execute(new Map([['split', new Map([['text', 'a b']])]]));
+    await tracer.flush();
+
+    const exported = collector.toOtlpJson().resourceSpans[0];
+    const nodeSpan = exported.scopeSpans[0].spans[0];
+
+    expect(exported.resource.attributes).toContainEqual({ key: 'service.name', value: { stringValue: 'tests' } });
+    expect(nodeSpan.parentSpanId).toBe(exported.scopeSpans[0].spans[1].spanId);
+    expect(nodeSpan.attributes).toContainEqual({ key: 'node.outputs.words.size', value: { intValue: '2' } });
+    expect(nodeSpan.startTimeUnixNano).toMatch(/^\d+000000$/);
+  });
+});
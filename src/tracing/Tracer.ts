@@ -0,0 +1,118 @@
+import { Span, SpanContext, SpanAttributes, createTraceId } from './Span';
+import { SpanExporter } from './SpanExporter';
+
+/**
+ * ExecutionContext.metadata key holding the trace id of the running node's span
+ */
+export const TRACE_ID_METADATA_KEY = 'traceId';
+
+/**
+ * ExecutionContext.metadata key holding the span id of the running node's span
+ */
+export const SPAN_ID_METADATA_KEY = 'spanId';
+
+/**
+ * Tracer configuration
+ */
+export interface TracerConfig {
+  /** Reported as the service.name resource attribute */
+  serviceName: string;
+  /** Additional resource attributes sent with every export */
+  resource: SpanAttributes;
+  /** Where finished spans go (they are dropped when undefined) */
+  exporter?: SpanExporter;
+}
+
+/**
+ * Default tracer configuration
+ */
+export const DEFAULT_TRACER_CONFIG: TracerConfig = {
+  serviceName: 'node-system',
+  resource: {}
+};
+
+/**
+ * Options for starting a span
+ */
+export interface StartSpanOptions {
+  /** Parent span, or the context of a span from another process; a new trace is started without one */
+  parent?: Span | SpanContext;
+  attributes?: SpanAttributes;
+  startTime?: number;
+}
+
+/**
+ * Creates spans and exports them
+ * Give one to a NodeExecutor (config.tracer) to trace every run: each run gets a root span
+ * and each node a child span. Spans are exported together once the span that started
+ * their local tree (the run span) ends.
+ */
+export class Tracer {
+  private config: TracerConfig;
+  // Open spans mapped to the id of the local root span they are exported with
+  private rootOf: Map<string, string> = new Map();
+  private pending: Map<string, Span[]> = new Map();
+  private exports: Set<Promise<void>> = new Set();
+
+  constructor(config: Partial<TracerConfig> = {}) {
+    this.config = { ...DEFAULT_TRACER_CONFIG, ...config };
+  }
+
+  /**
+   * Start a span
+   */
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const parent = options.parent;
+    const traceId = parent?.traceId ?? createTraceId();
+    const span = new Span(name, traceId, parent?.spanId, finished => this.onSpanEnd(finished), options.startTime);
+
+    if (options.attributes) {
+      span.setAttributes(options.attributes);
+    }
+
+    const root = parent ? this.rootOf.get(parent.spanId) : undefined;
+    this.rootOf.set(span.spanId, root ?? span.spanId);
+    return span;
+  }
+
+  /**
+   * Resource attributes sent with every export
+   */
+  getResource(): SpanAttributes {
+    return { 'service.name': this.config.serviceName, ...this.config.resource };
+  }
+
+  /**
+   * Wait for exports in progress
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.exports));
+  }
+
+  private onSpanEnd(span: Span): void {
+    const root = this.rootOf.get(span.spanId) ?? span.spanId;
+    this.rootOf.delete(span.spanId);
+
+    const batch = this.pending.get(root) ?? [];
+    batch.push(span);
+
+    // Children ending after their root are exported on their own
+    if (root === span.spanId || !this.rootOf.has(root)) {
+      this.pending.delete(root);
+      this.export(batch);
+    } else {
+      this.pending.set(root, batch);
+    }
+  }
+
+  private export(spans: Span[]): void {
+    if (!this.config.exporter) {
+      return;
+    }
+
+    const exported = this.config.exporter.export(spans, this.getResource())
+      .catch(error => console.warn('Failed to export spans:', error))
+      .finally(() => this.exports.delete(exported));
+    this.exports.add(exported);
+  }
+}
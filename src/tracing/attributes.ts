@@ -0,0 +1,38 @@
+import { PortId } from '../types';
+import { SpanAttributes } from './Span';
+
+/**
+ * Size of a port value: length of strings and arrays, size of Maps and Sets,
+ * byte length of buffers and key count of plain objects
+ * Undefined for scalars, functions and streams, which have no meaningful size
+ */
+export function measureValue(value: any): number | undefined {
+  if (typeof value === 'string' || Array.isArray(value)) {
+    return value.length;
+  }
+  if (value instanceof Map || value instanceof Set) {
+    return value.size;
+  }
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return value.byteLength;
+  }
+  if (value !== null && typeof value === 'object' &&
+      typeof value[Symbol.asyncIterator] !== 'function' && typeof value.then !== 'function') {
+    return Object.keys(value).length;
+  }
+  return undefined;
+}
+
+/**
+ * Span attributes describing port values: `<prefix>.count` plus `<prefix>.<port>.size` per sized value
+ */
+export function portSizeAttributes(prefix: string, values: Map<PortId, any>): SpanAttributes {
+  const attributes: SpanAttributes = { [`${prefix}.count`]: values.size };
+  values.forEach((value, portId) => {
+    const size = measureValue(value);
+    if (size !== undefined) {
+      attributes[`${prefix}.${portId}.size`] = size;
+    }
+  });
+  return attributes;
+}
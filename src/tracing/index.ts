@@ -0,0 +1,42 @@
+/**
+ * Tracing Module
+ * Spans per run and per node, exported as OpenTelemetry-compatible JSON
+ */
+
+export {
+  Span,
+  SpanStatusCode,
+  createTraceId,
+  createSpanId,
+  type SpanContext,
+  type SpanStatus,
+  type SpanEvent,
+  type SpanAttributes,
+  type AttributeValue
+} from './Span';
+
+export {
+  Tracer,
+  TRACE_ID_METADATA_KEY,
+  SPAN_ID_METADATA_KEY,
+  DEFAULT_TRACER_CONFIG,
+  type TracerConfig,
+  type StartSpanOptions
+} from './Tracer';
+
+export {
+  InMemorySpanCollector,
+  FileSpanExporter,
+  type SpanExporter
+} from './SpanExporter';
+
+export { measureValue, portSizeAttributes } from './attributes';
+
+export {
+  toOtlpJson,
+  INSTRUMENTATION_SCOPE,
+  type OtlpTraceExport,
+  type OtlpSpan,
+  type OtlpKeyValue,
+  type OtlpAnyValue
+} from './otlp';
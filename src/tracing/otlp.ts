@@ -0,0 +1,119 @@
+import { Span, AttributeValue, SpanAttributes } from './Span';
+
+/**
+ * OTLP/JSON attribute value
+ */
+export type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OtlpAnyValue[] } };
+
+/**
+ * OTLP/JSON key-value attribute
+ */
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+/**
+ * OTLP/JSON span
+ */
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  events: Array<{ timeUnixNano: string; name: string; attributes: OtlpKeyValue[] }>;
+  status: { code: number; message?: string };
+}
+
+/**
+ * OTLP/JSON trace export request (ExportTraceServiceRequest)
+ */
+export interface OtlpTraceExport {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: Array<{
+      scope: { name: string; version?: string };
+      spans: OtlpSpan[];
+    }>;
+  }>;
+}
+
+/** Spans created by the executor describe internal operations */
+const SPAN_KIND_INTERNAL = 1;
+
+/** Instrumentation scope reported with exported spans */
+export const INSTRUMENTATION_SCOPE = 'node-system';
+
+/**
+ * Convert finished spans to an OpenTelemetry OTLP/JSON export request
+ * The result can be posted to a collector's /v1/traces endpoint or read by the OTLP file receiver
+ */
+export function toOtlpJson(spans: Span[], resource: SpanAttributes = {}): OtlpTraceExport {
+  return {
+    resourceSpans: [{
+      resource: { attributes: toKeyValues(resource) },
+      scopeSpans: [{
+        scope: { name: INSTRUMENTATION_SCOPE },
+        spans: spans.map(toOtlpSpan)
+      }]
+    }]
+  };
+}
+
+function toOtlpSpan(span: Span): OtlpSpan {
+  const otlpSpan: OtlpSpan = {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    name: span.name,
+    kind: SPAN_KIND_INTERNAL,
+    startTimeUnixNano: toUnixNano(span.startTime),
+    endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+    attributes: toKeyValues(span.getAttributes()),
+    events: span.getEvents().map(event => ({
+      timeUnixNano: toUnixNano(event.time),
+      name: event.name,
+      attributes: toKeyValues(event.attributes)
+    })),
+    status: span.status.message === undefined
+      ? { code: span.status.code }
+      : { code: span.status.code, message: span.status.message }
+  };
+  if (span.parentSpanId) {
+    otlpSpan.parentSpanId = span.parentSpanId;
+  }
+  return otlpSpan;
+}
+
+function toKeyValues(attributes: SpanAttributes): OtlpKeyValue[] {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+function toAnyValue(value: AttributeValue): OtlpAnyValue {
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: (value as Array<string | number | boolean>).map(toAnyValue) } };
+  }
+  if (typeof value === 'boolean') {
+    return { boolValue: value };
+  }
+  if (typeof value === 'number') {
+    // int64 values are encoded as strings in OTLP/JSON
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+/**
+ * Millisecond timestamp to nanoseconds, as a string since it exceeds the safe integer range
+ */
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * BigInt(1000)).toString();
+}
@@ -13,8 +13,49 @@ export interface DataType {
   name: string;
   description?: string;
   validator?: (value: any) => boolean;
+  /** Structure of a composed type (see Types); types without one are compared by name */
+  shape?: TypeShape;
+  /** JSON Schema the type was built from (see fromJsonSchema); exported as-is */
+  jsonSchema?: Record<string, any>;
 }
 
+/**
+ * Kinds of composed data types
+ */
+export enum TypeKind {
+  ARRAY = 'array',
+  STREAM = 'stream',
+  /** Object with known properties */
+  OBJECT = 'object',
+  /** Object with arbitrary keys and values of one type */
+  RECORD = 'record',
+  UNION = 'union',
+  /** Value that may be undefined or null */
+  OPTIONAL = 'optional',
+  /** One of a fixed set of values */
+  LITERAL = 'literal',
+  /** Type parameter, bound to a concrete type when a connection is made */
+  GENERIC = 'generic'
+}
+
+/**
+ * Value allowed by a literal type
+ */
+export type LiteralValue = string | number | boolean | null;
+
+/**
+ * Structure of a composed data type
+ */
+export type TypeShape =
+  | { kind: TypeKind.ARRAY; items: DataType }
+  | { kind: TypeKind.STREAM; items: DataType }
+  | { kind: TypeKind.OBJECT; properties: Record<string, DataType> }
+  | { kind: TypeKind.RECORD; values: DataType }
+  | { kind: TypeKind.UNION; types: DataType[] }
+  | { kind: TypeKind.OPTIONAL; type: DataType }
+  | { kind: TypeKind.LITERAL; values: LiteralValue[] }
+  | { kind: TypeKind.GENERIC; parameter: string; constraint?: DataType };
+
 /**
  * Standard data types
  */
@@ -26,9 +67,24 @@ export const DataTypes = {
   OBJECT: { name: 'object', description: 'Object value' },
   ARRAY: { name: 'array', description: 'Array value' },
   FUNCTION: { name: 'function', description: 'Function value' },
-  PROMISE: { name: 'promise', description: 'Promise value' }
+  PROMISE: { name: 'promise', description: 'Promise value' },
+  STREAM: { name: 'stream', description: 'Async iterable of values' }
 } as const;
 
+/**
+ * How an input port combines values when several connections feed it
+ */
+export enum MergeStrategy {
+  /** Only one connection may feed the port (default) */
+  REJECT = 'reject',
+  /** Collect the values into an array, in connection order */
+  COLLECT = 'collect',
+  /** Shallow-merge object values; later connections override earlier ones */
+  MERGE_OBJECTS = 'merge-objects',
+  /** Take the first value that is not null or undefined, in connection order */
+  FIRST_NON_NULL = 'first-non-null'
+}
+
 /**
  * Represents a port (input/output) on a node
  */
@@ -38,6 +94,10 @@ export interface Port {
   dataType: DataType;
   required?: boolean;
   description?: string;
+  /** Fan-in behavior for input ports (default: MergeStrategy.REJECT) */
+  mergeStrategy?: MergeStrategy;
+  /** Value of an input port when no constant, initial input or connection provides one */
+  defaultValue?: any;
 }
 
 /**
@@ -60,6 +120,14 @@ export interface ExecutionContext {
   outputs: Map<PortId, any>;
   metadata: Map<string, any>;
   errorHandler?: (error: NodeError) => void;
+  /** Errors of failed upstream nodes, keyed by the input port they were connected to */
+  inputErrors?: Map<PortId, NodeError>;
+  /** Aborted when the run is cancelled or the node exceeds its timeout */
+  signal?: AbortSignal;
+  /** Output ports the node marked inactive; nodes reachable only through them don't run */
+  inactiveOutputs?: Set<PortId>;
+  /** Report that the node is about to retry its work (emitted as NODE_RETRYING) */
+  onRetry?: (attempt: number, error: Error, delay: number) => void;
 }
 
 /**
@@ -77,14 +145,77 @@ export class NodeError extends Error {
   }
 }
 
+/**
+ * Error recorded for a node that exceeded its timeout or the run deadline
+ */
+export class NodeTimeoutError extends NodeError {
+  constructor(nodeId: NodeId, public timeout: number, message?: string) {
+    super(message || `Node ${nodeId} timed out after ${timeout}ms`, nodeId);
+    this.name = 'NodeTimeoutError';
+  }
+}
+
+/**
+ * Error recorded for a node that was cancelled before or while running
+ */
+export class NodeCancelledError extends NodeError {
+  constructor(nodeId: NodeId, message?: string) {
+    super(message || `Node ${nodeId} was cancelled`, nodeId);
+    this.name = 'NodeCancelledError';
+  }
+}
+
+/**
+ * Error a run rejects with when it is cancelled or exceeds its deadline
+ */
+export class ExecutionAbortedError extends Error {
+  constructor(
+    message: string,
+    public executionId: ExecutionId,
+    public timeout?: number
+  ) {
+    super(message);
+    this.name = 'ExecutionAbortedError';
+  }
+
+  /**
+   * Whether the run was aborted by its deadline rather than cancelled
+   */
+  get timedOut(): boolean {
+    return this.timeout !== undefined;
+  }
+}
+
+/**
+ * Outcome of a node within a run
+ */
+export enum ExecutionStatus {
+  SUCCESS = 'success',
+  FAILED = 'failed',
+  SKIPPED = 'skipped',
+  TIMED_OUT = 'timed_out',
+  CANCELLED = 'cancelled',
+  /** Not run because every input came through an inactive branch */
+  INACTIVE = 'inactive'
+}
+
 /**
  * Result of node execution
  */
 export interface ExecutionResult {
   success: boolean;
+  status?: ExecutionStatus;
   outputs?: Map<PortId, any>;
   error?: NodeError;
   executionTime?: number;
+  /** Upstream node whose failure (or inactive branch) caused this node not to run */
+  causedBy?: NodeId;
+  /** Output ports that were marked inactive during execution */
+  inactiveOutputs?: PortId[];
+  /** True when the outputs came from the executor's output cache instead of running the node */
+  cacheHit?: boolean;
+  /** Attempts made by the node's retry policy, when it has one */
+  retryAttempts?: number;
 }
 
 /**
@@ -96,9 +227,20 @@ export interface INode {
   readonly description?: string;
   readonly inputs: Port[];
   readonly outputs: Port[];
+  /** Registered node type, set by NodeRegistry.create */
+  type?: string;
+  /** Version of the registered node type, set by NodeRegistry.create */
+  typeVersion?: string;
+  /** Boundary nodes receive upstream failures through `inputErrors` and stop their propagation */
+  readonly isErrorBoundary?: boolean;
   
   execute(context: ExecutionContext): Promise<ExecutionResult>;
   validate(): boolean;
+  /**
+   * JSON-serializable config that recreates an equivalent node when passed to its constructor
+   * (id, name, description and the node's own settings)
+   */
+  getConfig?(): Partial<NodeConfig> & Record<string, any>;
 }
 
 /**
@@ -116,20 +258,27 @@ export interface NodeConfig {
  * Event types for the node system
  */
 export enum NodeEventType {
+  RUN_STARTED = 'run_started',
+  RUN_COMPLETED = 'run_completed',
   EXECUTION_STARTED = 'execution_started',
   EXECUTION_COMPLETED = 'execution_completed',
   EXECUTION_FAILED = 'execution_failed',
+  NODE_SKIPPED = 'node_skipped',
+  NODE_RETRYING = 'node_retrying',
   NODE_ADDED = 'node_added',
   NODE_REMOVED = 'node_removed',
   CONNECTION_ADDED = 'connection_added',
-  CONNECTION_REMOVED = 'connection_removed'
+  CONNECTION_REMOVED = 'connection_removed',
+  DEBUG_PAUSED = 'debug_paused',
+  DEBUG_RESUMED = 'debug_resumed'
 }
 
 /**
  * Event emitted by the node system
+ * NodeExecutor listeners receive `data` typed per event type (see NodeEventMap)
  */
-export interface NodeEvent {
+export interface NodeEvent<T = any> {
   type: NodeEventType;
   timestamp: Date;
-  data: any;
+  data: T;
 }
\ No newline at end of file
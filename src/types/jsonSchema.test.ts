@@ -0,0 +1,76 @@
+import { fromJsonSchema, toJsonSchema, portsToJsonSchema, checkJsonSchema, JsonSchema } from './jsonSchema';
+import { Types, isAssignable } from './structural';
+import { DataTypes } from './index';
+
+const orderSchema: JsonSchema = {
+  title: 'Order',
+  type: 'object',
+  properties: {
+    id: { type: 'string', pattern: '^ord_' },
+    items: { type: 'array', items: { $ref: '#/$defs/item' }, minItems: 1 }
+  },
+  required: ['id', 'items'],
+  $defs: { item: { type: 'object', properties: { sku: { type: 'string' } }, required: ['sku'] } }
+};
+
+describe('fromJsonSchema', () => {
+  const Order = fromJsonSchema(orderSchema);
+
+  it('validates values against the whole schema', () => {
+    expect(Order.name).toBe('Order');
+    expect(Order.validator!({ id: 'ord_1', items: [{ sku: 'a' }] })).toBe(true);
+    expect(Order.validator!({ id: 'inv_1', items: [{ sku: 'a' }] })).toBe(false);
+    expect(Order.validator!({ id: 'ord_1', items: [] })).toBe(false);
+    expect(checkJsonSchema(orderSchema, { id: 'ord_1', items: [{}] })).toContain('sku');
+  });
+
+  it('gives the type a shape for structural connection checks', () => {
+    expect(isAssignable(Order, Types.object({ id: DataTypes.STRING }))).toBe(true);
+    expect(isAssignable(Order, Types.object({ id: DataTypes.NUMBER }))).toBe(false);
+  });
+});
+
+describe('toJsonSchema', () => {
+  it('gives back the schema an imported type was built from', () => {
+    expect(toJsonSchema(fromJsonSchema(orderSchema))).toEqual(orderSchema);
+  });
+
+  it('keeps the meaning of boolean schemas', () => {
+    const nothing = fromJsonSchema(false);
+    const anything = fromJsonSchema(true);
+
+    expect(toJsonSchema(nothing)).toEqual({ not: {} });
+    expect(nothing.validator!(1)).toBe(false);
+    expect(toJsonSchema(anything)).toEqual({});
+    expect(anything.validator!(1)).toBe(true);
+  });
+
+  it('converts composed types from their shape', () => {
+    const User = Types.object({ id: DataTypes.NUMBER, tags: Types.optional(Types.arrayOf(DataTypes.STRING)) });
+    const schema = toJsonSchema(User);
+
+    expect(schema).toMatchObject({
+      type: 'object',
+      properties: { id: { type: 'number' } },
+      required: ['id']
+    });
+    expect(checkJsonSchema(schema, { id: 1, tags: ['a'] })).toBeUndefined();
+    expect(checkJsonSchema(schema, { id: 1, tags: [1] })).toBeDefined();
+  });
+
+  it('marks types JSON cannot carry', () => {
+    expect(toJsonSchema(DataTypes.FUNCTION)).toEqual({ 'x-type': 'function' });
+  });
+});
+
+describe('portsToJsonSchema', () => {
+  it('describes ports as one object schema with required ports required', () => {
+    const schema = portsToJsonSchema([
+      { id: 'text', name: 'Text', dataType: DataTypes.STRING, required: true },
+      { id: 'limit', name: 'Limit', dataType: DataTypes.NUMBER, description: 'Maximum length' }
+    ]);
+
+    expect(schema.required).toEqual(['text']);
+    expect(schema.properties!.limit).toEqual({ title: 'Limit', type: 'number', description: 'Maximum length' });
+  });
+});
@@ -0,0 +1,525 @@
+import { DataType, DataTypes, Port, TypeKind, LiteralValue } from './index';
+import { Types } from './structural';
+import { isAsyncIterable } from '../core/streams';
+
+/**
+ * JSON Schema document (the draft 2020-12 / draft-07 keywords the converter understands)
+ * Types JSON cannot carry are marked with `x-type` (function, promise, stream)
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaTypeName | JsonSchemaTypeName[];
+  enum?: any[];
+  const?: any;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  not?: JsonSchema;
+  /** OpenAPI 3.0 style null allowance */
+  nullable?: boolean;
+  default?: any;
+  'x-type'?: string;
+  'x-generic'?: string;
+  [keyword: string]: any;
+}
+
+export type JsonSchemaTypeName = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * JSON Schema dialect of exported schemas
+ */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Build a DataType from a JSON Schema
+ * The type gets a structural shape (so connections are checked structurally), a validator enforcing
+ * the whole schema (including constraints like pattern or minimum that shapes cannot express), and
+ * keeps the schema so exporting it gives the original document back
+ * The boolean schemas true and false are kept as their object forms {} and { not: {} }
+ */
+export function fromJsonSchema(document: JsonSchema | boolean, options: { name?: string } = {}): DataType {
+  const schema: JsonSchema = document === true ? {} : document === false ? { not: {} } : document;
+  const shapeType = schemaToType(schema, schema, new Set());
+  const type: DataType = {
+    name: options.name ?? schema.title ?? shapeType.name,
+    validator: value => checkJsonSchema(schema, value) === undefined,
+    jsonSchema: schema
+  };
+  if (shapeType.shape) {
+    type.shape = shapeType.shape;
+  }
+  const description = schema.description ?? shapeType.description;
+  if (description) {
+    type.description = description;
+  }
+  return type;
+}
+
+/**
+ * Convert a DataType to a JSON Schema
+ * Types imported with fromJsonSchema give back their original schema
+ */
+export function toJsonSchema(type: DataType): JsonSchema {
+  if (type.jsonSchema) {
+    return JSON.parse(JSON.stringify(type.jsonSchema));
+  }
+
+  const schema = shapeToSchema(type);
+  if (type.description && !isStandardType(type)) {
+    schema.description = type.description;
+  }
+  return schema;
+}
+
+/**
+ * JSON Schema of a port's values, titled and described like the port
+ */
+export function portToJsonSchema(port: Port): JsonSchema {
+  const schema: JsonSchema = { title: port.name, ...toJsonSchema(port.dataType) };
+  if (port.description) {
+    schema.description = port.description;
+  }
+  if (port.defaultValue !== undefined) {
+    schema.default = port.defaultValue;
+  }
+  return schema;
+}
+
+/**
+ * JSON Schema of a set of ports as one object keyed by port id; required ports are required properties
+ */
+export function portsToJsonSchema(ports: Port[]): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  ports.forEach(port => {
+    properties[port.id] = portToJsonSchema(port);
+  });
+
+  const schema: JsonSchema = { $schema: JSON_SCHEMA_DIALECT, type: 'object', properties };
+  const required = ports.filter(port => port.required).map(port => port.id);
+  if (required.length > 0) {
+    schema.required = required;
+  }
+  return schema;
+}
+
+/**
+ * Check a value against a JSON Schema
+ * Returns undefined when it matches, otherwise what does not match
+ */
+export function checkJsonSchema(schema: JsonSchema | boolean, value: any, root?: JsonSchema, path: string = 'value'): string | undefined {
+  if (schema === true) {
+    return undefined;
+  }
+  if (schema === false) {
+    return `${path}: no value allowed`;
+  }
+  const document = root ?? schema;
+
+  if (schema.$ref) {
+    return checkJsonSchema(resolveRef(schema.$ref, document), value, document, path);
+  }
+
+  if (value === null && schema.nullable) {
+    return undefined;
+  }
+
+  if (schema['x-type'] !== undefined && !matchesExtensionType(schema['x-type'], value)) {
+    return `${path}: expected ${schema['x-type']}`;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesJsonType(type, value))) {
+      return `${path}: expected ${types.join(' or ')}`;
+    }
+  }
+
+  if (schema.const !== undefined && !jsonEqual(schema.const, value)) {
+    return `${path}: expected ${JSON.stringify(schema.const)}`;
+  }
+
+  if (schema.enum && !schema.enum.some(option => jsonEqual(option, value))) {
+    return `${path}: expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return `${path}: must be >= ${schema.minimum}`;
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return `${path}: must be <= ${schema.maximum}`;
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      return `${path}: must be > ${schema.exclusiveMinimum}`;
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      return `${path}: must be < ${schema.exclusiveMaximum}`;
+    }
+    if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) {
+      return `${path}: must be a multiple of ${schema.multipleOf}`;
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return `${path}: must be at least ${schema.minLength} characters`;
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return `${path}: must be at most ${schema.maxLength} characters`;
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      return `${path}: must match ${schema.pattern}`;
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return `${path}: must have at least ${schema.minItems} items`;
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return `${path}: must have at most ${schema.maxItems} items`;
+    }
+    if (schema.uniqueItems && value.some((item, index) => value.findIndex(other => jsonEqual(other, item)) !== index)) {
+      return `${path}: items must be unique`;
+    }
+    if (schema.items) {
+      for (let index = 0; index < value.length; index++) {
+        const problem = checkJsonSchema(schema.items, value[index], document, `${path}[${index}]`);
+        if (problem) {
+          return problem;
+        }
+      }
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        return `${path}.${key}: missing`;
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key] ?? schema.additionalProperties;
+      if (propertySchema === undefined || item === undefined) {
+        continue;
+      }
+      const problem = checkJsonSchema(propertySchema, item, document, `${path}.${key}`);
+      if (problem) {
+        return propertySchema === false ? `${path}.${key}: unexpected property` : problem;
+      }
+    }
+  }
+
+  for (const member of schema.allOf ?? []) {
+    const problem = checkJsonSchema(member, value, document, path);
+    if (problem) {
+      return problem;
+    }
+  }
+
+  if (schema.anyOf && !schema.anyOf.some(member => checkJsonSchema(member, value, document, path) === undefined)) {
+    return `${path}: matches none of the allowed schemas`;
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(member => checkJsonSchema(member, value, document, path) === undefined).length;
+    if (matches !== 1) {
+      return `${path}: must match exactly one schema (matched ${matches})`;
+    }
+  }
+
+  if (schema.not && checkJsonSchema(schema.not, value, document, path) === undefined) {
+    return `${path}: matches a forbidden schema`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Structural DataType for a schema, used for connection checks
+ */
+function schemaToType(schema: JsonSchema | boolean, root: JsonSchema, resolving: Set<string>): DataType {
+  if (typeof schema === 'boolean') {
+    return DataTypes.ANY;
+  }
+
+  if (schema.$ref) {
+    // Recursive references cannot be expanded; their inner structure is left unchecked
+    if (resolving.has(schema.$ref)) {
+      return { name: refName(schema.$ref), description: schema.description };
+    }
+    resolving.add(schema.$ref);
+    const resolved = schemaToType(resolveRef(schema.$ref, root), root, resolving);
+    resolving.delete(schema.$ref);
+    return resolved;
+  }
+
+  const type = describe(schemaToBaseType(schema, root, resolving), schema);
+  return schema.nullable ? Types.optional(type, schema.description) : type;
+}
+
+function schemaToBaseType(schema: JsonSchema, root: JsonSchema, resolving: Set<string>): DataType {
+  const convert = (member: JsonSchema | boolean) => schemaToType(member, root, resolving);
+
+  if (schema.const !== undefined) {
+    return isLiteral(schema.const) ? Types.literal(schema.const) : DataTypes.ANY;
+  }
+  if (schema.enum) {
+    return schema.enum.every(isLiteral) ? Types.literal(...schema.enum) : DataTypes.ANY;
+  }
+
+  const members = schema.anyOf ?? schema.oneOf;
+  if (members) {
+    return unionOrOptional(members.map(convert));
+  }
+  if (schema.allOf) {
+    return mergeAll(schema.allOf.map(convert));
+  }
+
+  switch (schema['x-type']) {
+    case DataTypes.STREAM.name:
+      return schema.items ? Types.streamOf(convert(schema.items)) : DataTypes.STREAM;
+    case DataTypes.FUNCTION.name:
+      return DataTypes.FUNCTION;
+    case DataTypes.PROMISE.name:
+      return DataTypes.PROMISE;
+    case undefined:
+      break;
+    default:
+      return { name: schema['x-type'] };
+  }
+
+  if (Array.isArray(schema.type)) {
+    return unionOrOptional(schema.type.map(type => schemaToBaseType({ ...schema, type }, root, resolving)));
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return DataTypes.STRING;
+    case 'number':
+    case 'integer':
+      return DataTypes.NUMBER;
+    case 'boolean':
+      return DataTypes.BOOLEAN;
+    case 'null':
+      return Types.literal(null);
+    case 'array':
+      return schema.items ? Types.arrayOf(convert(schema.items)) : DataTypes.ARRAY;
+    case 'object':
+      return objectSchemaToType(schema, convert);
+    default:
+      return schema.properties || schema.additionalProperties !== undefined
+        ? objectSchemaToType(schema, convert)
+        : DataTypes.ANY;
+  }
+}
+
+function objectSchemaToType(schema: JsonSchema, convert: (member: JsonSchema | boolean) => DataType): DataType {
+  if (schema.properties) {
+    const required = new Set(schema.required ?? []);
+    const properties: Record<string, DataType> = {};
+    Object.entries(schema.properties).forEach(([key, property]) => {
+      const type = convert(property);
+      properties[key] = required.has(key) || type.shape?.kind === TypeKind.OPTIONAL ? type : Types.optional(type);
+    });
+    return Types.object(properties);
+  }
+  if (schema.additionalProperties !== undefined && schema.additionalProperties !== false) {
+    return Types.record(convert(schema.additionalProperties));
+  }
+  return DataTypes.OBJECT;
+}
+
+/**
+ * Union of the types; a union with null becomes optional
+ */
+function unionOrOptional(types: DataType[]): DataType {
+  const isNull = (type: DataType) =>
+    type.shape?.kind === TypeKind.LITERAL && type.shape.values.length === 1 && type.shape.values[0] === null;
+  const others = types.filter(type => !isNull(type));
+
+  if (others.length === 0) {
+    return types[0];
+  }
+  const union = others.length === 1 ? others[0] : Types.union(...others);
+  return others.length < types.length ? Types.optional(union) : union;
+}
+
+/**
+ * Intersection of allOf members: object shapes are merged, otherwise the first structured member is used
+ */
+function mergeAll(types: DataType[]): DataType {
+  const objects = types.filter(type => type.shape?.kind === TypeKind.OBJECT);
+  if (objects.length > 1) {
+    const properties: Record<string, DataType> = {};
+    objects.forEach(type => {
+      if (type.shape?.kind === TypeKind.OBJECT) {
+        Object.assign(properties, type.shape.properties);
+      }
+    });
+    return Types.object(properties);
+  }
+  return types.find(type => type.shape) ?? types[0] ?? DataTypes.ANY;
+}
+
+function describe(type: DataType, schema: JsonSchema): DataType {
+  return schema.description && type.shape ? { ...type, description: schema.description } : type;
+}
+
+/**
+ * JSON Schema for a type without an imported schema
+ */
+function shapeToSchema(type: DataType): JsonSchema {
+  const shape = type.shape;
+
+  if (!shape) {
+    switch (type.name) {
+      case DataTypes.ANY.name:
+        return {};
+      case DataTypes.STRING.name:
+      case DataTypes.NUMBER.name:
+      case DataTypes.BOOLEAN.name:
+      case DataTypes.OBJECT.name:
+      case DataTypes.ARRAY.name:
+        return { type: type.name as JsonSchemaTypeName };
+      default:
+        // Functions, promises, streams and custom named types have no JSON representation
+        return { 'x-type': type.name };
+    }
+  }
+
+  switch (shape.kind) {
+    case TypeKind.ARRAY:
+      return { type: 'array', items: toJsonSchema(shape.items) };
+
+    case TypeKind.STREAM:
+      return { 'x-type': DataTypes.STREAM.name, items: toJsonSchema(shape.items) };
+
+    case TypeKind.OBJECT: {
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      Object.entries(shape.properties).forEach(([key, property]) => {
+        if (property.shape?.kind === TypeKind.OPTIONAL) {
+          properties[key] = toJsonSchema(property.shape.type);
+        } else {
+          properties[key] = toJsonSchema(property);
+          required.push(key);
+        }
+      });
+      return required.length > 0 ? { type: 'object', properties, required } : { type: 'object', properties };
+    }
+
+    case TypeKind.RECORD:
+      return { type: 'object', additionalProperties: toJsonSchema(shape.values) };
+
+    case TypeKind.UNION:
+      return { anyOf: shape.types.map(toJsonSchema) };
+
+    case TypeKind.OPTIONAL:
+      return { anyOf: [toJsonSchema(shape.type), { type: 'null' }] };
+
+    case TypeKind.LITERAL:
+      return shape.values.length === 1 ? { const: shape.values[0] } : { enum: [...shape.values] };
+
+    case TypeKind.GENERIC:
+      return { ...(shape.constraint ? toJsonSchema(shape.constraint) : {}), 'x-generic': shape.parameter };
+  }
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  if (ref === '#') {
+    return root;
+  }
+  if (!ref.startsWith('#/')) {
+    throw new Error(`Unsupported $ref "${ref}": only references within the document are resolved`);
+  }
+
+  let target: any = root;
+  for (const segment of ref.slice(2).split('/')) {
+    target = target?.[decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+  if (target === undefined) {
+    throw new Error(`Cannot resolve $ref "${ref}"`);
+  }
+  return target;
+}
+
+function refName(ref: string): string {
+  return ref.slice(ref.lastIndexOf('/') + 1) || 'any';
+}
+
+function isStandardType(type: DataType): boolean {
+  return Object.values(DataTypes).some(standard => standard.name === type.name && standard.description === type.description);
+}
+
+function isLiteral(value: any): value is LiteralValue {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function matchesJsonType(type: JsonSchemaTypeName, value: any): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+  }
+}
+
+function matchesExtensionType(type: string, value: any): boolean {
+  switch (type) {
+    case DataTypes.FUNCTION.name:
+      return typeof value === 'function';
+    case DataTypes.PROMISE.name:
+      return value !== null && typeof value === 'object' && typeof value.then === 'function';
+    case DataTypes.STREAM.name:
+      return Array.isArray(value) || isAsyncIterable(value);
+    default:
+      return true;
+  }
+}
+
+function jsonEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => jsonEqual(a[key], b[key]));
+}
@@ -0,0 +1,94 @@
+import { Types, checkAssignable, checkValue, isAssignable } from './structural';
+import { NodeExecutor } from '../core/NodeExecutor';
+import { BaseNode } from '../core/BaseNode';
+import { DataType, DataTypes, ExecutionContext, NodeConfig, PortId } from './index';
+
+const User = Types.object({
+  id: DataTypes.NUMBER,
+  name: DataTypes.STRING,
+  role: Types.optional(Types.literal('admin', 'user'))
+});
+
+describe('Types', () => {
+  it('names composed types after their structure', () => {
+    expect(User.name).toBe('{ id: number; name: string; role?: "admin" | "user" }');
+    expect(Types.arrayOf(Types.union(DataTypes.STRING, DataTypes.NUMBER)).name).toBe('array<string | number>');
+  });
+
+  it('checks values and explains the first mismatch', () => {
+    expect(checkValue(User, { id: 1, name: 'Ada', extra: true })).toBeUndefined();
+    expect(checkValue(User, { id: 1 })).toBe('value.name: missing (expected string)');
+    expect(checkValue(Types.arrayOf(User), [{ id: 1, name: 'Ada', role: 'root' }]))
+      .toBe('value[0].role: expected "admin" | "user"');
+    expect(User.validator!({ id: '1', name: 'Ada' })).toBe(false);
+  });
+});
+
+describe('checkAssignable', () => {
+  it('accepts structural subtypes', () => {
+    const Named = Types.object({ name: DataTypes.STRING });
+
+    expect(isAssignable(User, Named)).toBe(true);
+    expect(isAssignable(Types.arrayOf(DataTypes.STRING), Types.streamOf(DataTypes.STRING))).toBe(true);
+    expect(isAssignable(Types.literal('a'), Types.union(DataTypes.STRING, DataTypes.NUMBER))).toBe(true);
+    expect(isAssignable(Types.arrayOf(User), DataTypes.ARRAY)).toBe(true);
+  });
+
+  it('rejects mismatched structures with a reason', () => {
+    expect(checkAssignable(Types.arrayOf(DataTypes.STRING), Types.arrayOf(User))).toBeDefined();
+    expect(isAssignable(Types.optional(DataTypes.STRING), DataTypes.STRING)).toBe(false);
+  });
+
+  it('binds generic parameters and checks later uses against the binding', () => {
+    const bindings = new Map<string, DataType>();
+    const T = Types.generic('T');
+
+    expect(isAssignable(Types.arrayOf(DataTypes.STRING), Types.arrayOf(T), bindings)).toBe(true);
+    expect(bindings.get('T')).toBe(DataTypes.STRING);
+    expect(checkAssignable(DataTypes.NUMBER, T, bindings)).toContain('T is bound to string');
+  });
+});
+
+class FirstNode extends BaseNode {
+  constructor(config?: Partial<NodeConfig>) {
+    super({
+      ...config,
+      name: config?.name || 'First',
+      inputs: [{ id: 'items', name: 'Items', dataType: Types.arrayOf(Types.generic('T')), required: true }],
+      outputs: [{ id: 'item', name: 'Item', dataType: Types.generic('T') }]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    return new Map([['item', this.getInput<any[]>(context, 'items')![0]]]);
+  }
+}
+
+class TypedNode extends BaseNode {
+  constructor(config: Partial<NodeConfig>, dataType: DataType) {
+    super({
+      ...config,
+      name: config.name || 'Typed',
+      inputs: [{ id: 'in', name: 'In', dataType, required: false }],
+      outputs: [{ id: 'out', name: 'Out', dataType }]
+    });
+  }
+
+  protected async executeInternal(context: ExecutionContext): Promise<Map<PortId, any>> {
+    return new Map([['out', this.getInput(context, 'in')]]);
+  }
+}
+
+describe('structural connections', () => {
+  it('resolves generic outputs from the connected input types', () => {
+    const executor = new NodeExecutor();
+    executor.addNode(new TypedNode({ id: 'names' }, Types.arrayOf(DataTypes.STRING)));
+    executor.addNode(new FirstNode({ id: 'first' }));
+    executor.addNode(new TypedNode({ id: 'user' }, User));
+    executor.addConnection({ id: 'c1', fromNode: 'names', fromPort: 'out', toNode: 'first', toPort: 'items' });
+
+    expect(executor.getResolvedPortType('first', 'item')!.name).toBe('string');
+    expect(() => executor.addConnection({ id: 'c2', fromNode: 'first', fromPort: 'item', toNode: 'user', toPort: 'in' }))
+      .toThrow();
+  });
+});
@@ -0,0 +1,447 @@
+import { DataType, DataTypes, TypeKind, LiteralValue } from './index';
+import { isAsyncIterable } from '../core/streams';
+
+/**
+ * Concrete types bound to generic parameters, keyed by parameter name
+ */
+export type TypeBindings = Map<string, DataType>;
+
+/**
+ * Builders for composed data types
+ * Each returns a DataType with a structural shape, a readable name and a generated validator
+ */
+export const Types = {
+  /**
+   * Array whose items all have one type
+   */
+  arrayOf(items: DataType, description?: string): DataType {
+    return composed(`array<${items.name}>`, { kind: TypeKind.ARRAY, items }, description);
+  },
+
+  /**
+   * Stream (async iterable) of items of one type; arrays are accepted and streamed item by item
+   */
+  streamOf(items: DataType, description?: string): DataType {
+    return composed(`stream<${items.name}>`, { kind: TypeKind.STREAM, items }, description);
+  },
+
+  /**
+   * Object with known properties; wrap a property type in Types.optional() to make it optional
+   * Objects with additional properties still match
+   */
+  object(properties: Record<string, DataType>, description?: string): DataType {
+    const fields = Object.entries(properties).map(([key, type]) =>
+      type.shape?.kind === TypeKind.OPTIONAL ? `${key}?: ${type.shape.type.name}` : `${key}: ${type.name}`
+    );
+    return composed(`{ ${fields.join('; ')} }`, { kind: TypeKind.OBJECT, properties }, description);
+  },
+
+  /**
+   * Object with arbitrary keys whose values all have one type
+   */
+  record(values: DataType, description?: string): DataType {
+    return composed(`record<${values.name}>`, { kind: TypeKind.RECORD, values }, description);
+  },
+
+  /**
+   * Value matching any of several types
+   */
+  union(...types: DataType[]): DataType {
+    if (types.length === 0) {
+      throw new Error('A union needs at least one type');
+    }
+    return composed(types.map(type => type.name).join(' | '), { kind: TypeKind.UNION, types });
+  },
+
+  /**
+   * Value of a type, or undefined/null
+   */
+  optional(type: DataType, description?: string): DataType {
+    return composed(`optional<${type.name}>`, { kind: TypeKind.OPTIONAL, type }, description);
+  },
+
+  /**
+   * One of a fixed set of values (a literal enum)
+   */
+  literal(...values: LiteralValue[]): DataType {
+    if (values.length === 0) {
+      throw new Error('A literal type needs at least one value');
+    }
+    return composed(values.map(value => JSON.stringify(value)).join(' | '), { kind: TypeKind.LITERAL, values });
+  },
+
+  /**
+   * Type parameter, bound when a connection is made
+   * All ports of a node using the same parameter share its binding, so a node taking
+   * `array<T>` and returning `T` outputs `string` once an `array<string>` is connected
+   */
+  generic(parameter: string, constraint?: DataType): DataType {
+    return composed(parameter, { kind: TypeKind.GENERIC, parameter, constraint });
+  }
+};
+
+function composed(name: string, shape: NonNullable<DataType['shape']>, description?: string): DataType {
+  const type: DataType = { name, shape };
+  if (description) {
+    type.description = description;
+  }
+  type.validator = createValidator(type);
+  return type;
+}
+
+/**
+ * Build a validator checking values against a type's structure
+ */
+export function createValidator(type: DataType): (value: any) => boolean {
+  return value => checkValue(type, value) === undefined;
+}
+
+/**
+ * Check a value against a type
+ * Returns undefined when it matches, otherwise what does not match
+ */
+export function checkValue(type: DataType, value: any, path: string = 'value'): string | undefined {
+  const shape = type.shape;
+  const mismatch = () => `${path}: expected ${type.name}`;
+
+  if (!shape) {
+    if (type.validator) {
+      return type.validator(value) ? undefined : mismatch();
+    }
+    return matchesBaseType(type.name, value) ? undefined : mismatch();
+  }
+
+  switch (shape.kind) {
+    case TypeKind.OPTIONAL:
+      return value === undefined || value === null ? undefined : checkValue(shape.type, value, path);
+
+    case TypeKind.ARRAY:
+      if (!Array.isArray(value)) {
+        return mismatch();
+      }
+      return firstProblem(value, (item, index) => checkValue(shape.items, item, `${path}[${index}]`));
+
+    case TypeKind.STREAM:
+      if (Array.isArray(value)) {
+        return firstProblem(value, (item, index) => checkValue(shape.items, item, `${path}[${index}]`));
+      }
+      // Stream items can only be checked by consuming the stream
+      return isAsyncIterable(value) ? undefined : mismatch();
+
+    case TypeKind.OBJECT:
+      if (!isPlainObjectValue(value)) {
+        return mismatch();
+      }
+      return firstProblem(Object.entries(shape.properties), ([key, propertyType]) => {
+        if (value[key] === undefined && propertyType.shape?.kind !== TypeKind.OPTIONAL) {
+          return `${path}.${key}: missing (expected ${propertyType.name})`;
+        }
+        return checkValue(propertyType, value[key], `${path}.${key}`);
+      });
+
+    case TypeKind.RECORD:
+      if (!isPlainObjectValue(value)) {
+        return mismatch();
+      }
+      return firstProblem(Object.entries(value), ([key, item]) => checkValue(shape.values, item, `${path}.${key}`));
+
+    case TypeKind.UNION:
+      return shape.types.some(member => checkValue(member, value, path) === undefined) ? undefined : mismatch();
+
+    case TypeKind.LITERAL:
+      return shape.values.includes(value) ? undefined : mismatch();
+
+    case TypeKind.GENERIC:
+      return shape.constraint ? checkValue(shape.constraint, value, path) : undefined;
+  }
+}
+
+/**
+ * Whether values of `source` can flow into a port of type `target`
+ * Unbound generic parameters of the target are bound in `bindings`
+ */
+export function isAssignable(source: DataType, target: DataType, bindings: TypeBindings = new Map()): boolean {
+  return checkAssignable(source, target, bindings) === undefined;
+}
+
+/**
+ * Subtype check between a source (output) type and a target (input) type
+ * Returns undefined when assignable, otherwise the reason it is not.
+ * `any` and unstructured `array`/`object` types are compatible with any structure of their kind;
+ * arrays may feed streams. Unbound generic parameters of the target are bound in `bindings`.
+ */
+export function checkAssignable(
+  source: DataType,
+  target: DataType,
+  bindings: TypeBindings = new Map()
+): string | undefined {
+  const mismatch = () => `${source.name} is not assignable to ${target.name}`;
+  const sourceShape = source.shape;
+  const targetShape = target.shape;
+
+  if (isAnyType(source) || isAnyType(target)) {
+    return undefined;
+  }
+
+  if (targetShape?.kind === TypeKind.GENERIC) {
+    const bound = bindings.get(targetShape.parameter);
+    if (bound) {
+      const problem = checkAssignable(source, bound, bindings);
+      return problem && `${targetShape.parameter} is bound to ${bound.name}: ${problem}`;
+    }
+    if (targetShape.constraint) {
+      const problem = checkAssignable(source, targetShape.constraint, bindings);
+      if (problem) {
+        return `${source.name} does not satisfy ${targetShape.parameter} extends ${targetShape.constraint.name}`;
+      }
+    }
+    bindings.set(targetShape.parameter, source);
+    return undefined;
+  }
+
+  // A source parameter that was never bound could carry anything its constraint allows
+  if (sourceShape?.kind === TypeKind.GENERIC) {
+    return sourceShape.constraint ? checkAssignable(sourceShape.constraint, target, bindings) : undefined;
+  }
+
+  if (sourceShape?.kind === TypeKind.UNION) {
+    return firstProblem(sourceShape.types, member => checkAssignable(member, target, bindings));
+  }
+
+  if (targetShape?.kind === TypeKind.UNION) {
+    for (const member of targetShape.types) {
+      const attempt = new Map(bindings);
+      if (checkAssignable(source, member, attempt) === undefined) {
+        attempt.forEach((type, parameter) => bindings.set(parameter, type));
+        return undefined;
+      }
+    }
+    return mismatch();
+  }
+
+  if (targetShape?.kind === TypeKind.OPTIONAL) {
+    const inner = sourceShape?.kind === TypeKind.OPTIONAL ? sourceShape.type : source;
+    return checkAssignable(inner, targetShape.type, bindings);
+  }
+
+  if (sourceShape?.kind === TypeKind.OPTIONAL) {
+    return `${source.name} may be missing but ${target.name} is required`;
+  }
+
+  if (sourceShape?.kind === TypeKind.LITERAL) {
+    // A literal fits wherever each of its values would
+    const rejected = sourceShape.values.find(value => checkValue(target, value) !== undefined);
+    return rejected === undefined ? undefined : `${JSON.stringify(rejected)} is not assignable to ${target.name}`;
+  }
+
+  if (targetShape?.kind === TypeKind.LITERAL) {
+    return mismatch();
+  }
+
+  const sourceBase = baseTypeName(source);
+  const targetBase = baseTypeName(target);
+
+  if (targetBase === DataTypes.STREAM.name || targetBase === DataTypes.ARRAY.name) {
+    const compatible = sourceBase === targetBase ||
+      (sourceBase === DataTypes.ARRAY.name && targetBase === DataTypes.STREAM.name);
+    if (!compatible) {
+      return mismatch();
+    }
+    const sourceItems = itemType(source);
+    const targetItems = itemType(target);
+    if (!sourceItems || !targetItems) {
+      return undefined;
+    }
+    const problem = checkAssignable(sourceItems, targetItems, bindings);
+    return problem && `items: ${problem}`;
+  }
+
+  if (targetBase === DataTypes.OBJECT.name) {
+    if (sourceBase !== DataTypes.OBJECT.name) {
+      return mismatch();
+    }
+    return checkObjectAssignable(source, target, bindings);
+  }
+
+  return source.name === target.name ? undefined : mismatch();
+}
+
+function checkObjectAssignable(source: DataType, target: DataType, bindings: TypeBindings): string | undefined {
+  const sourceShape = source.shape;
+  const targetShape = target.shape;
+
+  if (targetShape?.kind === TypeKind.OBJECT) {
+    return firstProblem(Object.entries(targetShape.properties), ([key, targetProperty]) => {
+      const optional = targetProperty.shape?.kind === TypeKind.OPTIONAL;
+
+      if (sourceShape?.kind === TypeKind.OBJECT) {
+        const sourceProperty = sourceShape.properties[key];
+        if (!sourceProperty) {
+          return optional ? undefined : `missing property ${key} (${targetProperty.name})`;
+        }
+        const problem = checkAssignable(sourceProperty, targetProperty, bindings);
+        return problem && `property ${key}: ${problem}`;
+      }
+
+      if (sourceShape?.kind === TypeKind.RECORD) {
+        if (!optional) {
+          return `${source.name} may lack property ${key} (${targetProperty.name})`;
+        }
+        const problem = checkAssignable(sourceShape.values, targetProperty, bindings);
+        return problem && `property ${key}: ${problem}`;
+      }
+
+      return undefined;
+    });
+  }
+
+  if (targetShape?.kind === TypeKind.RECORD) {
+    if (sourceShape?.kind === TypeKind.OBJECT) {
+      return firstProblem(Object.entries(sourceShape.properties), ([key, sourceProperty]) => {
+        const problem = checkAssignable(sourceProperty, targetShape.values, bindings);
+        return problem && `property ${key}: ${problem}`;
+      });
+    }
+    if (sourceShape?.kind === TypeKind.RECORD) {
+      const problem = checkAssignable(sourceShape.values, targetShape.values, bindings);
+      return problem && `values: ${problem}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Replace bound generic parameters in a type; unbound parameters are kept
+ */
+export function substituteGenerics(type: DataType, bindings: TypeBindings): DataType {
+  const shape = type.shape;
+  if (!shape || bindings.size === 0 || !containsGeneric(type)) {
+    return type;
+  }
+
+  switch (shape.kind) {
+    case TypeKind.GENERIC:
+      return bindings.get(shape.parameter) ?? type;
+    case TypeKind.ARRAY:
+      return Types.arrayOf(substituteGenerics(shape.items, bindings), type.description);
+    case TypeKind.STREAM:
+      return Types.streamOf(substituteGenerics(shape.items, bindings), type.description);
+    case TypeKind.OBJECT: {
+      const properties: Record<string, DataType> = {};
+      Object.entries(shape.properties).forEach(([key, property]) => {
+        properties[key] = substituteGenerics(property, bindings);
+      });
+      return Types.object(properties, type.description);
+    }
+    case TypeKind.RECORD:
+      return Types.record(substituteGenerics(shape.values, bindings), type.description);
+    case TypeKind.UNION:
+      return Types.union(...shape.types.map(member => substituteGenerics(member, bindings)));
+    case TypeKind.OPTIONAL:
+      return Types.optional(substituteGenerics(shape.type, bindings), type.description);
+    default:
+      return type;
+  }
+}
+
+/**
+ * Whether a type mentions a generic parameter anywhere in its structure
+ */
+export function containsGeneric(type: DataType): boolean {
+  const shape = type.shape;
+  if (!shape) {
+    return false;
+  }
+
+  switch (shape.kind) {
+    case TypeKind.GENERIC:
+      return true;
+    case TypeKind.ARRAY:
+    case TypeKind.STREAM:
+      return containsGeneric(shape.items);
+    case TypeKind.OBJECT:
+      return Object.values(shape.properties).some(containsGeneric);
+    case TypeKind.RECORD:
+      return containsGeneric(shape.values);
+    case TypeKind.UNION:
+      return shape.types.some(containsGeneric);
+    case TypeKind.OPTIONAL:
+      return containsGeneric(shape.type);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether ports of this type receive streams
+ */
+export function isStreamType(type: DataType): boolean {
+  return baseTypeName(type) === DataTypes.STREAM.name;
+}
+
+/**
+ * Name of the plain type a type refines: `array<string>` refines `array`, object shapes refine `object`
+ */
+function baseTypeName(type: DataType): string {
+  switch (type.shape?.kind) {
+    case TypeKind.ARRAY:
+      return DataTypes.ARRAY.name;
+    case TypeKind.STREAM:
+      return DataTypes.STREAM.name;
+    case TypeKind.OBJECT:
+    case TypeKind.RECORD:
+      return DataTypes.OBJECT.name;
+    default:
+      return type.name;
+  }
+}
+
+function itemType(type: DataType): DataType | undefined {
+  const shape = type.shape;
+  return shape?.kind === TypeKind.ARRAY || shape?.kind === TypeKind.STREAM ? shape.items : undefined;
+}
+
+function isAnyType(type: DataType): boolean {
+  return !type.shape && type.name === DataTypes.ANY.name;
+}
+
+/**
+ * Check a value against one of the standard type names; unknown names accept anything
+ */
+function matchesBaseType(name: string, value: any): boolean {
+  switch (name) {
+    case DataTypes.STRING.name:
+      return typeof value === 'string';
+    case DataTypes.NUMBER.name:
+      return typeof value === 'number';
+    case DataTypes.BOOLEAN.name:
+      return typeof value === 'boolean';
+    case DataTypes.OBJECT.name:
+      return isPlainObjectValue(value);
+    case DataTypes.ARRAY.name:
+      return Array.isArray(value);
+    case DataTypes.FUNCTION.name:
+      return typeof value === 'function';
+    case DataTypes.PROMISE.name:
+      return value !== null && typeof value === 'object' && typeof value.then === 'function';
+    case DataTypes.STREAM.name:
+      return Array.isArray(value) || isAsyncIterable(value);
+    default:
+      return true;
+  }
+}
+
+function isPlainObjectValue(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function firstProblem<T>(items: T[], check: (item: T, index: number) => string | undefined): string | undefined {
+  for (let index = 0; index < items.length; index++) {
+    const problem = check(items[index], index);
+    if (problem) {
+      return problem;
+    }
+  }
+  return undefined;
+}